@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "rejected_waypoint_count" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "map_match_confidence" DECIMAL(3,2),
+ADD COLUMN     "matched_distance_meters" INTEGER;
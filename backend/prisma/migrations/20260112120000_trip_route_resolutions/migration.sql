@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "route_polyline_high" TEXT,
+ADD COLUMN     "route_polyline_low" TEXT;
@@ -0,0 +1,28 @@
+-- CreateFunction
+-- array_to_string is only STABLE, so generated columns need an IMMUTABLE wrapper
+CREATE FUNCTION "trip_search_vector"(
+    "purpose" TEXT,
+    "client_name" TEXT,
+    "project_name" TEXT,
+    "tags" TEXT[],
+    "start_place_name" TEXT,
+    "start_address" TEXT,
+    "end_place_name" TEXT,
+    "end_address" TEXT,
+    "notes" TEXT
+) RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce("purpose", '') || ' ' || coalesce("client_name", '') || ' ' || coalesce("project_name", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(array_to_string("tags", ' '), '')), 'B') ||
+        setweight(to_tsvector('english', coalesce("start_place_name", '') || ' ' || coalesce("end_place_name", '') || ' ' || coalesce("start_address", '') || ' ' || coalesce("end_address", '')), 'C') ||
+        setweight(to_tsvector('english', coalesce("notes", '')), 'D')
+$$;
+
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    "trip_search_vector"("purpose", "client_name", "project_name", "tags", "start_place_name", "start_address", "end_place_name", "end_address", "notes")
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "trips_search_vector_idx" ON "trips" USING GIN ("search_vector");
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "OdometerReadingSource" AS ENUM ('trip', 'fuel_purchase', 'maintenance', 'manual');
+
+-- AlterTable
+ALTER TABLE "vehicles" ADD COLUMN     "estimated_odometer" INTEGER,
+ADD COLUMN     "estimated_odometer_at" TIMESTAMPTZ;
+
+-- CreateTable
+CREATE TABLE "odometer_readings" (
+    "id" UUID NOT NULL,
+    "vehicle_id" UUID NOT NULL,
+    "reading" INTEGER NOT NULL,
+    "recorded_at" TIMESTAMPTZ NOT NULL,
+    "source" "OdometerReadingSource" NOT NULL,
+    "is_estimated" BOOLEAN NOT NULL DEFAULT false,
+    "trip_id" UUID,
+    "fuel_purchase_id" UUID,
+    "maintenance_record_id" UUID,
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "odometer_readings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "odometer_readings_trip_id_key" ON "odometer_readings"("trip_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "odometer_readings_fuel_purchase_id_key" ON "odometer_readings"("fuel_purchase_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "odometer_readings_maintenance_record_id_key" ON "odometer_readings"("maintenance_record_id");
+
+-- CreateIndex
+CREATE INDEX "odometer_readings_vehicle_id_recorded_at_idx" ON "odometer_readings"("vehicle_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "odometer_readings" ADD CONSTRAINT "odometer_readings_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "odometer_readings" ADD CONSTRAINT "odometer_readings_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "odometer_readings" ADD CONSTRAINT "odometer_readings_fuel_purchase_id_fkey" FOREIGN KEY ("fuel_purchase_id") REFERENCES "fuel_purchases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "odometer_readings" ADD CONSTRAINT "odometer_readings_maintenance_record_id_fkey" FOREIGN KEY ("maintenance_record_id") REFERENCES "vehicle_maintenance_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
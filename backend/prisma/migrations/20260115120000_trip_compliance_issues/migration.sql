@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "compliance_issues" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Backfill: trips were previously marked compliant unconditionally.
+-- Mirrors evaluateIrsCompliance in src/services/irs-compliance.service.ts.
+UPDATE "trips" SET "compliance_issues" = array_remove(ARRAY[
+    CASE WHEN "end_time" IS NULL THEN 'missing_date' END,
+    CASE WHEN "category" IN ('business', 'medical', 'charity', 'moving') AND coalesce(trim("purpose"), '') = '' THEN 'missing_purpose' END,
+    -- Raw "lat,lng" addresses (isCoordinateString) count as no destination
+    CASE WHEN (coalesce(trim("end_address"), '') = '' OR trim("end_address") ~ '^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$')
+        AND coalesce(trim("end_place_name"), '') = '' THEN 'missing_destination' END,
+    CASE WHEN "distance_meters" <= 0 THEN 'missing_mileage' END,
+    CASE WHEN "vehicle_id" IS NULL THEN 'missing_vehicle' END
+]::TEXT[], NULL)
+WHERE "status" <> 'recording';
+
+UPDATE "trips" SET "irs_compliant" = cardinality("compliance_issues") = 0
+WHERE "status" <> 'recording';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "anomalies_confirmed_at" TIMESTAMPTZ,
+ADD COLUMN     "anomaly_details" JSONB,
+ADD COLUMN     "anomaly_flags" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "classification_reason" TEXT;
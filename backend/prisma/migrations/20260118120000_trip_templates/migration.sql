@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "trip_templates" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "start_location_id" UUID,
+    "start_address" TEXT,
+    "start_place_name" VARCHAR(255),
+    "start_latitude" DECIMAL(10,7) NOT NULL,
+    "start_longitude" DECIMAL(10,7) NOT NULL,
+    "end_location_id" UUID,
+    "end_address" TEXT,
+    "end_place_name" VARCHAR(255),
+    "end_latitude" DECIMAL(10,7) NOT NULL,
+    "end_longitude" DECIMAL(10,7) NOT NULL,
+    "distance_meters" INTEGER NOT NULL,
+    "duration_seconds" INTEGER NOT NULL,
+    "route_engine" VARCHAR(50) NOT NULL,
+    "vehicle_id" UUID,
+    "category" "TripCategory",
+    "purpose" VARCHAR(255),
+    "client_name" VARCHAR(255),
+    "project_name" VARCHAR(255),
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "use_count" INTEGER NOT NULL DEFAULT 0,
+    "last_used_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trip_templates_user_id_idx" ON "trip_templates"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "trip_templates" ADD CONSTRAINT "trip_templates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_templates" ADD CONSTRAINT "trip_templates_start_location_id_fkey" FOREIGN KEY ("start_location_id") REFERENCES "saved_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_templates" ADD CONSTRAINT "trip_templates_end_location_id_fkey" FOREIGN KEY ("end_location_id") REFERENCES "saved_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_templates" ADD CONSTRAINT "trip_templates_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
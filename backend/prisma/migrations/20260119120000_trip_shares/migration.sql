@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "trip_shares" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "trip_id" UUID,
+    "range_start" TIMESTAMPTZ,
+    "range_end" TIMESTAMPTZ,
+    "label" VARCHAR(100),
+    "expires_at" TIMESTAMPTZ NOT NULL,
+    "revoked_at" TIMESTAMPTZ,
+    "access_count" INTEGER NOT NULL DEFAULT 0,
+    "last_accessed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trip_shares_token_hash_key" ON "trip_shares"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "trip_shares_user_id_idx" ON "trip_shares"("user_id");
+
+-- CreateIndex
+CREATE INDEX "trip_shares_trip_id_idx" ON "trip_shares"("trip_id");
+
+-- AddForeignKey
+ALTER TABLE "trip_shares" ADD CONSTRAINT "trip_shares_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_shares" ADD CONSTRAINT "trip_shares_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "trip_tracks" (
+    "trip_id" UUID NOT NULL,
+    "point_count" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+    "packed_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_tracks_pkey" PRIMARY KEY ("trip_id")
+);
+
+-- Packed blobs are already compact; compressing them again wastes CPU
+ALTER TABLE "trip_tracks" ALTER COLUMN "data" SET STORAGE EXTERNAL;
+
+-- AddForeignKey
+ALTER TABLE "trip_tracks" ADD CONSTRAINT "trip_tracks_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
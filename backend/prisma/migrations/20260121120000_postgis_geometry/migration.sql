@@ -0,0 +1,41 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "postgis";
+
+-- CreateFunction
+-- Route polylines are decoded into a line for spatial queries. Single-point
+-- routes are not valid lines and are left out.
+CREATE FUNCTION "trip_path"("polyline" TEXT) RETURNS geometry(LineString, 4326)
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT CASE WHEN ST_NPoints("line") >= 2 THEN ST_SetSRID("line", 4326) END
+    FROM (SELECT ST_LineFromEncodedPolyline("polyline", 5) AS "line") AS "decoded"
+$$;
+
+-- AlterTable
+-- Generated from the coordinate columns, so every existing write path keeps
+-- them current
+ALTER TABLE "trips" ADD COLUMN     "start_point" geography(Point, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint("start_longitude"::float8, "start_latitude"::float8), 4326)::geography
+) STORED,
+ADD COLUMN     "end_point" geography(Point, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint("end_longitude"::float8, "end_latitude"::float8), 4326)::geography
+) STORED,
+ADD COLUMN     "path" geometry(LineString, 4326) GENERATED ALWAYS AS (
+    "trip_path"("route_polyline_high")
+) STORED;
+
+-- AlterTable
+ALTER TABLE "saved_locations" ADD COLUMN     "location" geography(Point, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint("longitude"::float8, "latitude"::float8), 4326)::geography
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "trips_start_point_idx" ON "trips" USING GIST ("start_point");
+
+-- CreateIndex
+CREATE INDEX "trips_end_point_idx" ON "trips" USING GIST ("end_point");
+
+-- CreateIndex
+CREATE INDEX "trips_path_idx" ON "trips" USING GIST ("path");
+
+-- CreateIndex
+CREATE INDEX "saved_locations_location_idx" ON "saved_locations" USING GIST ("location");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PlaceSuggestionStatus" AS ENUM ('pending', 'accepted', 'dismissed');
+
+-- CreateTable
+CREATE TABLE "place_suggestions" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "status" "PlaceSuggestionStatus" NOT NULL DEFAULT 'pending',
+    "latitude" DECIMAL(10,7) NOT NULL,
+    "longitude" DECIMAL(10,7) NOT NULL,
+    "radius_meters" INTEGER NOT NULL,
+    "address" TEXT,
+    "place_name" VARCHAR(255),
+    "suggested_type" "LocationType" NOT NULL DEFAULT 'other',
+    "visit_count" INTEGER NOT NULL,
+    "first_visited_at" TIMESTAMPTZ NOT NULL,
+    "last_visited_at" TIMESTAMPTZ NOT NULL,
+    "typical_arrival_minute" INTEGER,
+    "typical_departure_minute" INTEGER,
+    "weekday_share" DECIMAL(3,2) NOT NULL,
+    "overnight_share" DECIMAL(3,2) NOT NULL,
+    "saved_location_id" UUID,
+    "resolved_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "place_suggestions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "place_suggestions_user_id_status_idx" ON "place_suggestions"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "place_suggestions" ADD CONSTRAINT "place_suggestions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "place_suggestions" ADD CONSTRAINT "place_suggestions_saved_location_id_fkey" FOREIGN KEY ("saved_location_id") REFERENCES "saved_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
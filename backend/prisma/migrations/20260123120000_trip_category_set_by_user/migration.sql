@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trips" ADD COLUMN     "category_set_by_user" BOOLEAN NOT NULL DEFAULT false;
@@ -54,6 +54,32 @@ const envSchema = z.object({
   MAPKIT_KEY_ID: z.string().optional(),
   MAPKIT_PRIVATE_KEY: z.string().optional(),
 
+  // Reverse geocoding
+  GEOCODING_PROVIDER: z.enum(['mapkit', 'nominatim', 'none']).optional(),
+  NOMINATIM_URL: z.string().url().optional(),
+  NOMINATIM_USER_AGENT: z.string().default('MileageMaxPro/1.0'),
+
+  // Weather
+  WEATHER_PROVIDER: z.enum(['openweather', 'fixture', 'none']).optional(),
+  WEATHER_FIXTURE_PATH: z.string().optional(),
+
+  // Map matching
+  MAP_MATCHING_OSM_PATH: z.string().optional(),
+
+  // Routing for manually entered trips
+  ROUTING_PROVIDER: z.enum(['osrm', 'none']).optional(),
+  OSRM_URL: z.string().url().optional(),
+  ROUTING_DETOUR_FACTOR: z.string().transform(Number).default('1.3'),
+
+  // Cleanup
+  CLEANUP_INTERVAL_MINUTES: z.string().transform(Number).default('15'),
+  ABANDONED_TRIP_TIMEOUT_MINUTES: z.string().transform(Number).default('120'),
+  STALE_PROCESSING_TIMEOUT_MINUTES: z.string().transform(Number).default('60'),
+  UNRESOLVED_PLACES_RETRY_MINUTES: z.string().transform(Number).default('60'),
+
+  // Frequent place discovery
+  PLACE_DISCOVERY_INTERVAL_HOURS: z.string().transform(Number).default('24'),
+
   // S3/Storage
   S3_BUCKET: z.string().optional(),
   S3_REGION: z.string().optional(),
@@ -187,6 +213,42 @@ export const config = {
     keyId: env.MAPKIT_KEY_ID,
     privateKey: env.MAPKIT_PRIVATE_KEY ? normalizePrivateKey(env.MAPKIT_PRIVATE_KEY) : undefined,
   },
+  geocoding: {
+    // Defaults to MapKit when its credentials are set, then Nominatim
+    provider: env.GEOCODING_PROVIDER ??
+      (env.MAPKIT_TEAM_ID && env.MAPKIT_KEY_ID && env.MAPKIT_PRIVATE_KEY
+        ? 'mapkit'
+        : env.NOMINATIM_URL ? 'nominatim' : 'none'),
+    nominatimUrl: env.NOMINATIM_URL,
+    nominatimUserAgent: env.NOMINATIM_USER_AGENT,
+  },
+  weather: {
+    provider: env.WEATHER_PROVIDER ?? (env.OPENWEATHER_API_KEY ? 'openweather' : 'none'),
+    fixturePath: env.WEATHER_FIXTURE_PATH,
+  },
+  mapMatching: {
+    osmPath: env.MAP_MATCHING_OSM_PATH,
+  },
+  routing: {
+    provider: env.ROUTING_PROVIDER ?? (env.OSRM_URL ? 'osrm' : 'none'),
+    osrmUrl: env.OSRM_URL,
+    // Straight-line distance is multiplied by this when no engine answers
+    detourFactor: env.ROUTING_DETOUR_FACTOR,
+  },
+  cleanup: {
+    intervalMinutes: env.CLEANUP_INTERVAL_MINUTES,
+    // Recording trips with no waypoint uploaded for this long are completed
+    abandonedTripMinutes: env.ABANDONED_TRIP_TIMEOUT_MINUTES,
+    // Trips left in processing by a crashed worker are processed again
+    staleProcessingMinutes: env.STALE_PROCESSING_TIMEOUT_MINUTES,
+    // Trips whose processing gave up on geocoding are processed again after
+    // this long
+    unresolvedPlacesRetryMinutes: env.UNRESOLVED_PLACES_RETRY_MINUTES,
+  },
+  placeDiscovery: {
+    // Users with trips changed since their last run are clustered again
+    intervalHours: env.PLACE_DISCOVERY_INTERVAL_HOURS,
+  },
   s3: {
     bucket: env.S3_BUCKET,
     region: env.S3_REGION,
@@ -1,13 +1,32 @@
 import { Job } from 'bullmq';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { jobLogger } from '../utils/logger.js';
+import { config } from '../config/env.js';
+import { buildRouteGeometry } from '../utils/geometry.js';
+import type { Coordinate } from '../utils/geometry.js';
+import { filterGpsFixes, toGpsFix } from '../services/gps-filter.service.js';
+import { getRoadGraph } from '../services/road-graph.service.js';
+import { matchToRoads, isConfidentMatch } from '../services/map-matching.service.js';
+import { resolvePlace, isCoordinateString } from '../services/geocoding.service.js';
+import { getWeatherConditions, toWeatherJson } from '../services/weather.service.js';
+import { updateTripFuelEstimate } from '../services/fuel-estimate.service.js';
+import { syncTripOdometer } from '../services/odometer.service.js';
+import { refreshTripCompliance } from '../services/irs-compliance.service.js';
+import { runCleanup } from '../services/cleanup.service.js';
+import { discoverPlaces, findUsersForPlaceDiscovery } from '../services/place-discovery.service.js';
+import { detectTripAnomalies, REPORTABLE_TRIP_FILTER } from '../services/trip-anomaly.service.js';
+import { loadTripWaypoints, packTripWaypoints } from '../services/waypoint-storage.service.js';
 import type {
   TripProcessingJob,
   ReportGenerationJob,
   RouteOptimizationJob,
   NotificationJob,
   SyncJob,
+  CleanupJob,
+  PlaceDiscoveryJob,
 } from './queues.js';
+import { addPlaceDiscoveryJob } from './queues.js';
 
 // Trip Processing Processor
 export async function processTripJob(job: Job<TripProcessingJob>): Promise<void> {
@@ -17,11 +36,6 @@ export async function processTripJob(job: Job<TripProcessingJob>): Promise<void>
   try {
     const trip = await prisma.trip.findUnique({
       where: { id: tripId },
-      include: {
-        waypoints: {
-          orderBy: { sequenceNumber: 'asc' },
-        },
-      },
     });
 
     if (!trip) {
@@ -29,48 +43,155 @@ export async function processTripJob(job: Job<TripProcessingJob>): Promise<void>
       return;
     }
 
-    // Reverse geocode start and end addresses if not present
-    if (!trip.startAddress && trip.startLatitude && trip.startLongitude) {
-      // TODO: Implement geocoding with MapKit Server API
-      const startAddress = `${trip.startLatitude}, ${trip.startLongitude}`;
-      await prisma.trip.update({
-        where: { id: tripId },
-        data: { startAddress },
+    // Reprocessed trips are usually packed already
+    const waypoints = await loadTripWaypoints(tripId);
+
+    // Trips left in processing by a crashed worker are requeued by cleanup
+    if (trip.status === 'completed') {
+      await prisma.trip.updateMany({
+        where: { id: tripId, status: 'completed' },
+        data: { status: 'processing' },
       });
     }
 
-    if (!trip.endAddress && trip.endLatitude && trip.endLongitude) {
-      const endAddress = `${trip.endLatitude}, ${trip.endLongitude}`;
+    // Reverse geocode start and end, preferring the user's saved locations.
+    // A provider outage does not stop the rest of the enrichment; the job
+    // fails once that is saved so BullMQ's backoff retries the lookup, and
+    // the cleanup sweep queues the trip again once the retries are used up.
+    const placeUpdate: Prisma.TripUpdateInput = {};
+    let geocodingError: unknown = null;
+
+    try {
+      if (!trip.startAddress || isCoordinateString(trip.startAddress)) {
+        const start = await resolvePlace(userId, Number(trip.startLatitude), Number(trip.startLongitude));
+        if (start) {
+          placeUpdate.startAddress = start.address;
+          placeUpdate.startPlaceName = start.placeName;
+        }
+      }
+
+      if ((!trip.endAddress || isCoordinateString(trip.endAddress)) && trip.endLatitude && trip.endLongitude) {
+        const end = await resolvePlace(userId, Number(trip.endLatitude), Number(trip.endLongitude));
+        if (end) {
+          placeUpdate.endAddress = end.address;
+          placeUpdate.endPlaceName = end.placeName;
+        }
+      }
+    } catch (error) {
+      geocodingError = error;
+      jobLogger.warn({ tripId, error: error instanceof Error ? error.message : error }, 'Reverse geocoding unavailable; will retry');
+    }
+
+    if (Object.keys(placeUpdate).length > 0) {
       await prisma.trip.update({
         where: { id: tripId },
-        data: { endAddress },
+        data: placeUpdate,
       });
     }
 
-    // Generate route polyline from waypoints
-    if (trip.waypoints.length > 0 && !trip.routePolyline) {
-      const polyline = generatePolyline(
-        trip.waypoints.map((w) => ({
-          lat: Number(w.latitude),
-          lng: Number(w.longitude),
-        }))
-      );
+    // Weather at the trip start
+    if (!trip.weatherConditions) {
+      try {
+        const weather = await getWeatherConditions(
+          Number(trip.startLatitude),
+          Number(trip.startLongitude),
+          trip.startTime
+        );
+        if (weather) {
+          await prisma.trip.update({
+            where: { id: tripId },
+            data: { weatherConditions: toWeatherJson(weather) },
+          });
+        }
+      } catch (error) {
+        jobLogger.warn({ tripId, error: error instanceof Error ? error.message : error }, 'Weather lookup failed');
+      }
+    }
+
+    // Route geometry at every resolution, from the road-matched path when
+    // map matching is confident and from the cleaned GPS track otherwise
+    if (waypoints.length > 1) {
+      const { points } = filterGpsFixes(detectTripAnomalies(waypoints.map(toGpsFix)).points);
+      let coordinates: Coordinate[] = points.map((p) => [p.longitude, p.latitude]);
+      let properties: Record<string, unknown> = { source: 'gps' };
+      const routeUpdate: Prisma.TripUpdateInput = {};
+
+      // Snap waypoints to the local road network when an extract is configured
+      if (config.mapMatching.osmPath) {
+        const graph = await getRoadGraph(config.mapMatching.osmPath);
+        const match = matchToRoads(graph, points);
+        const confident = isConfidentMatch(match);
+
+        routeUpdate.matchedDistanceMeters = Math.round(match.matchedDistanceMeters);
+        routeUpdate.mapMatchConfidence = match.confidence;
+
+        // Low-quality matches keep the raw GPS distance and route
+        if (confident) {
+          routeUpdate.distanceMeters = Math.round(match.matchedDistanceMeters);
+          coordinates = match.coordinates;
+          properties = {
+            source: 'map_matched',
+            matchedDistanceMeters: Math.round(match.matchedDistanceMeters),
+            confidence: match.confidence,
+          };
+        }
+
+        jobLogger.info({
+          tripId,
+          confidence: match.confidence,
+          matchedPoints: match.matchedPoints,
+          sampledPoints: match.sampledPoints,
+          applied: confident,
+        }, 'Trip map matched');
+      }
+
+      const geometry = buildRouteGeometry(coordinates, properties);
 
       await prisma.trip.update({
         where: { id: tripId },
-        data: { routePolyline: polyline },
+        data: {
+          ...routeUpdate,
+          ...geometry,
+          routeGeojson: geometry.routeGeojson as Prisma.InputJsonValue,
+        },
       });
     }
 
+    // Not verified until the addresses are in; the catch below puts the trip
+    // back to completed for the retry
+    if (geocodingError) throw geocodingError;
+
     // Mark trip as verified
     await prisma.trip.update({
       where: { id: tripId },
       data: { status: 'verified' },
     });
 
+    // Map matching may have changed the distance
+    await updateTripFuelEstimate(tripId);
+    await syncTripOdometer(tripId);
+
+    // Geocoding may have filled in the destination
+    await refreshTripCompliance(tripId);
+
+    // Nothing changes the waypoints from here on. A failure leaves the rows
+    // for the cleanup sweep to pack.
+    try {
+      await packTripWaypoints(tripId);
+    } catch (error) {
+      jobLogger.warn({ tripId, error }, 'Failed to pack trip waypoints');
+    }
+
     jobLogger.info({ tripId }, 'Trip processed successfully');
   } catch (error) {
     jobLogger.error({ tripId, error }, 'Trip processing failed');
+
+    // Back to completed so the trip is counted until a retry succeeds
+    await prisma.trip.updateMany({
+      where: { id: tripId, status: 'processing' },
+      data: { status: 'completed' },
+    });
+
     throw error;
   }
 }
@@ -98,7 +219,9 @@ export async function processReportJob(job: Job<ReportGenerationJob>): Promise<v
         gte: report.dateRangeStart,
         lte: report.dateRangeEnd,
       },
-      status: { in: ['completed', 'verified'] },
+      status: { in: ['completed', 'processing', 'verified'] },
+      // Trips with unreviewed GPS anomalies wait for the user
+      ...REPORTABLE_TRIP_FILTER,
     };
 
     if (report.vehicleIds.length > 0) {
@@ -229,40 +352,29 @@ export async function processSyncJob(job: Job<SyncJob>): Promise<void> {
   jobLogger.info({ userId, deviceId }, 'Sync completed');
 }
 
-// Helper function to generate encoded polyline
-function generatePolyline(points: Array<{ lat: number; lng: number }>): string {
-  let encoded = '';
-  let prevLat = 0;
-  let prevLng = 0;
+// Cleanup Processor
+export async function processCleanupJob(job: Job<CleanupJob>): Promise<void> {
+  jobLogger.info({ jobId: job.id, tasks: job.data.tasks }, 'Running cleanup');
+
+  const result = await runCleanup(job.data.tasks);
 
-  for (const point of points) {
-    const lat = Math.round(point.lat * 1e5);
-    const lng = Math.round(point.lng * 1e5);
+  jobLogger.info({ jobId: job.id, ...result }, 'Cleanup completed');
+}
 
-    encoded += encodeSignedNumber(lat - prevLat);
-    encoded += encodeSignedNumber(lng - prevLng);
+// Place Discovery Processor
+export async function processPlaceDiscoveryJob(job: Job<PlaceDiscoveryJob>): Promise<void> {
+  const { userId } = job.data;
 
-    prevLat = lat;
-    prevLng = lng;
+  if (userId) {
+    await discoverPlaces(userId);
+    return;
   }
 
-  return encoded;
-}
+  const userIds = await findUsersForPlaceDiscovery();
 
-function encodeSignedNumber(num: number): string {
-  let sgn = num << 1;
-  if (num < 0) {
-    sgn = ~sgn;
+  for (const id of userIds) {
+    await addPlaceDiscoveryJob({ userId: id });
   }
-  return encodeNumber(sgn);
-}
 
-function encodeNumber(num: number): string {
-  let encoded = '';
-  while (num >= 0x20) {
-    encoded += String.fromCharCode((0x20 | (num & 0x1f)) + 63);
-    num >>= 5;
-  }
-  encoded += String.fromCharCode(num + 63);
-  return encoded;
+  jobLogger.info({ jobId: job.id, users: userIds.length }, 'Place discovery sweep queued');
 }
@@ -24,11 +24,14 @@ export const routeOptimizationQueue = new Queue('route-optimization', queueConfi
 export const notificationQueue = new Queue('notifications', queueConfig);
 export const syncQueue = new Queue('sync', queueConfig);
 export const cleanupQueue = new Queue('cleanup', queueConfig);
+export const placeDiscoveryQueue = new Queue('place-discovery', queueConfig);
 
 // Job types
 export interface TripProcessingJob {
   tripId: string;
   userId: string;
+  // Set when an already-processed trip changed and must be processed again
+  reprocess?: boolean;
 }
 
 export interface ReportGenerationJob {
@@ -44,7 +47,7 @@ export interface RouteOptimizationJob {
 
 export interface NotificationJob {
   userId: string;
-  type: 'trip_start' | 'trip_end' | 'weekly_summary' | 'maintenance_due' | 'route_complete';
+  type: 'trip_start' | 'trip_end' | 'trip_auto_completed' | 'weekly_summary' | 'maintenance_due' | 'route_complete';
   title: string;
   body: string;
   data?: Record<string, unknown>;
@@ -56,11 +59,28 @@ export interface SyncJob {
   lastSyncAt: string;
 }
 
+export type CleanupTask =
+  | 'abandoned_trips'
+  | 'stale_processing'
+  | 'unresolved_places'
+  | 'expired_reports'
+  | 'pack_waypoints';
+
+export interface CleanupJob {
+  // Defaults to every task
+  tasks?: CleanupTask[];
+}
+
+export interface PlaceDiscoveryJob {
+  // Unset for the scheduled sweep, which queues one job per user
+  userId?: string;
+}
+
 // Add jobs to queues
 export async function addTripProcessingJob(data: TripProcessingJob): Promise<Job<TripProcessingJob>> {
   const job = await tripProcessingQueue.add('process', data, {
     priority: 1,
-    jobId: `trip-${data.tripId}`,
+    jobId: data.reprocess ? `trip-${data.tripId}-${Date.now()}` : `trip-${data.tripId}`,
   });
   jobLogger.debug({ jobId: job.id, tripId: data.tripId }, 'Trip processing job added');
   return job;
@@ -101,6 +121,34 @@ export async function addSyncJob(data: SyncJob): Promise<Job<SyncJob>> {
   return job;
 }
 
+export async function addPlaceDiscoveryJob(data: PlaceDiscoveryJob): Promise<Job<PlaceDiscoveryJob>> {
+  const job = await placeDiscoveryQueue.add('discover', data, {
+    priority: 5,
+  });
+  jobLogger.debug({ jobId: job.id, userId: data.userId }, 'Place discovery job added');
+  return job;
+}
+
+// Runs the cleanup sweep on a fixed interval. Upserting keeps a single
+// schedule however many workers start.
+export async function scheduleCleanupJobs(): Promise<void> {
+  const every = config.cleanup.intervalMinutes * 60 * 1000;
+  await cleanupQueue.upsertJobScheduler('cleanup-sweep', { every }, {
+    name: 'sweep',
+    data: {} satisfies CleanupJob,
+  });
+  jobLogger.debug({ every }, 'Cleanup job scheduled');
+}
+
+export async function schedulePlaceDiscoveryJobs(): Promise<void> {
+  const every = config.placeDiscovery.intervalHours * 3600 * 1000;
+  await placeDiscoveryQueue.upsertJobScheduler('place-discovery-sweep', { every }, {
+    name: 'sweep',
+    data: {} satisfies PlaceDiscoveryJob,
+  });
+  jobLogger.debug({ every }, 'Place discovery job scheduled');
+}
+
 // Close all queues gracefully
 export async function closeQueues(): Promise<void> {
   await Promise.all([
@@ -110,6 +158,7 @@ export async function closeQueues(): Promise<void> {
     notificationQueue.close(),
     syncQueue.close(),
     cleanupQueue.close(),
+    placeDiscoveryQueue.close(),
   ]);
   jobLogger.info('All queues closed');
 }
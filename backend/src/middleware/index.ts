@@ -2,3 +2,4 @@ export { authenticate, optionalAuth, requireSubscription, requireProOrHigher, re
 export { errorHandler, notFoundHandler, asyncHandler } from './error.middleware.js';
 export { rateLimiter, strictRateLimiter, ipRateLimiter } from './rate-limit.middleware.js';
 export { validate, validateBody, validateQuery, validateParams, validateAll } from './validation.middleware.js';
+export { singleFileUpload } from './upload.middleware.js';
@@ -0,0 +1,30 @@
+import type { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { BadRequestError } from '../utils/errors.js';
+
+// Accepts a single multipart file held in memory. Multer errors (size limit,
+// unexpected field) are reported as 400s instead of falling through as 500s.
+export function singleFileUpload(fieldName: string, maxBytes: number) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(new BadRequestError(error.message, { code: error.code, field: error.field }));
+        return;
+      }
+      if (error) {
+        next(error);
+        return;
+      }
+      if (!req.file) {
+        next(new BadRequestError(`Missing file field "${fieldName}"`));
+        return;
+      }
+      next();
+    });
+  };
+}
@@ -1,16 +1,19 @@
 import type { Request, Response, NextFunction } from 'express';
-import type { ZodSchema } from 'zod';
+import type { ZodType, ZodTypeDef } from 'zod';
 
 type ValidationTarget = 'body' | 'query' | 'params';
 
-export function validate<T>(schema: ZodSchema<T>, target: ValidationTarget = 'body') {
+// Input is left open so schemas may transform (e.g. parse strings into objects)
+type Schema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+export function validate<T>(schema: Schema<T>, target: ValidationTarget = 'body') {
   return (req: Request, _res: Response, next: NextFunction): void => {
     try {
       const data = req[target];
       const parsed = schema.parse(data);
 
       // Replace original data with parsed (and potentially transformed) data
-      (req as unknown as Record<string, unknown>)[target] = parsed;
+      replaceRequestData(req, target, parsed);
 
       next();
     } catch (error) {
@@ -19,15 +22,15 @@ export function validate<T>(schema: ZodSchema<T>, target: ValidationTarget = 'bo
   };
 }
 
-export function validateBody<T>(schema: ZodSchema<T>) {
+export function validateBody<T>(schema: Schema<T>) {
   return validate(schema, 'body');
 }
 
-export function validateQuery<T>(schema: ZodSchema<T>) {
+export function validateQuery<T>(schema: Schema<T>) {
   return validate(schema, 'query');
 }
 
-export function validateParams<T>(schema: ZodSchema<T>) {
+export function validateParams<T>(schema: Schema<T>) {
   return validate(schema, 'params');
 }
 
@@ -37,20 +40,20 @@ export function validateAll<
   TQuery = unknown,
   TParams = unknown
 >(schemas: {
-  body?: ZodSchema<TBody>;
-  query?: ZodSchema<TQuery>;
-  params?: ZodSchema<TParams>;
+  body?: Schema<TBody>;
+  query?: Schema<TQuery>;
+  params?: Schema<TParams>;
 }) {
   return (req: Request, _res: Response, next: NextFunction): void => {
     try {
       if (schemas.body) {
-        req.body = schemas.body.parse(req.body);
+        replaceRequestData(req, 'body', schemas.body.parse(req.body));
       }
       if (schemas.query) {
-        (req as unknown as { query: TQuery }).query = schemas.query.parse(req.query);
+        replaceRequestData(req, 'query', schemas.query.parse(req.query));
       }
       if (schemas.params) {
-        (req as unknown as { params: TParams }).params = schemas.params.parse(req.params);
+        replaceRequestData(req, 'params', schemas.params.parse(req.params));
       }
       next();
     } catch (error) {
@@ -58,3 +61,9 @@ export function validateAll<
     }
   };
 }
+
+// Express 5 exposes req.query through a getter on the request prototype, so
+// assigning to it throws; an own property shadows the getter instead
+function replaceRequestData(req: Request, target: ValidationTarget, data: unknown): void {
+  Object.defineProperty(req, target, { value: data, writable: true, configurable: true, enumerable: true });
+}
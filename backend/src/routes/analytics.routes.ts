@@ -7,7 +7,7 @@ import {
   analyticsQuerySchema,
   taxSummaryQuerySchema,
 } from '../validators/report.validators.js';
-import { getDashboardData, getTaxSummary } from '../services/analytics.service.js';
+import { getDashboardData, getTaxSummary, getWeatherAnalytics } from '../services/analytics.service.js';
 import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
 
 const router = Router();
@@ -32,6 +32,23 @@ router.get(
   })
 );
 
+// GET /api/v1/analytics/weather - Get driving statistics by weather condition
+router.get(
+  '/weather',
+  validateQuery(analyticsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const data = await getWeatherAnalytics(authReq.user.id, req.query as any);
+
+    const response: ApiResponse<typeof data> = {
+      success: true,
+      data,
+    };
+
+    res.json(response);
+  })
+);
+
 // GET /api/v1/analytics/tax-summary - Get tax year summary
 router.get(
   '/tax-summary',
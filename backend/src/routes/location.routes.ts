@@ -0,0 +1,185 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/error.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation.middleware.js';
+import {
+  createLocationSchema,
+  updateLocationSchema,
+  locationIdParamSchema,
+  locationFilterSchema,
+  nearestLocationQuerySchema,
+  acceptPlaceSuggestionSchema,
+  placeSuggestionIdParamSchema,
+} from '../validators/location.validators.js';
+import {
+  createLocation,
+  getLocation,
+  updateLocation,
+  deleteLocation,
+  listLocations,
+  getNearestLocation,
+} from '../services/location.service.js';
+import {
+  listPlaceSuggestions,
+  acceptPlaceSuggestion,
+  dismissPlaceSuggestion,
+} from '../services/place-discovery.service.js';
+import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// POST /api/v1/locations - Save a location
+router.post(
+  '/',
+  validateBody(createLocationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const location = await createLocation(authReq.user.id, req.body);
+
+    const response: ApiResponse<typeof location> = {
+      success: true,
+      data: location,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// GET /api/v1/locations - List saved locations, favorites first
+router.get(
+  '/',
+  validateQuery(locationFilterSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await listLocations(authReq.user.id, req.query as any);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  })
+);
+
+// GET /api/v1/locations/nearest - Closest saved location to a point
+router.get(
+  '/nearest',
+  validateQuery(nearestLocationQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const location = await getNearestLocation(authReq.user.id, req.query as any);
+
+    const response: ApiResponse<typeof location> = {
+      success: true,
+      data: location,
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/v1/locations/suggestions - Frequent places found in the user's trips
+router.get(
+  '/suggestions',
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const suggestions = await listPlaceSuggestions(authReq.user.id);
+
+    const response: ApiResponse<typeof suggestions> = {
+      success: true,
+      data: suggestions,
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/v1/locations/suggestions/:suggestionId/accept - Save a suggested place
+router.post(
+  '/suggestions/:suggestionId/accept',
+  validateParams(placeSuggestionIdParamSchema),
+  validateBody(acceptPlaceSuggestionSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const location = await acceptPlaceSuggestion(
+      authReq.user.id,
+      req.params.suggestionId as string,
+      req.body
+    );
+
+    const response: ApiResponse<typeof location> = {
+      success: true,
+      data: location,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// POST /api/v1/locations/suggestions/:suggestionId/dismiss - Stop suggesting a place
+router.post(
+  '/suggestions/:suggestionId/dismiss',
+  validateParams(placeSuggestionIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    await dismissPlaceSuggestion(authReq.user.id, req.params.suggestionId as string);
+
+    res.status(204).send();
+  })
+);
+
+// GET /api/v1/locations/:locationId - Get single saved location
+router.get(
+  '/:locationId',
+  validateParams(locationIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const location = await getLocation(authReq.user.id, req.params.locationId as string);
+
+    const response: ApiResponse<typeof location> = {
+      success: true,
+      data: location,
+    };
+
+    res.json(response);
+  })
+);
+
+// PATCH /api/v1/locations/:locationId - Update saved location
+router.patch(
+  '/:locationId',
+  validateParams(locationIdParamSchema),
+  validateBody(updateLocationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const location = await updateLocation(
+      authReq.user.id,
+      req.params.locationId as string,
+      req.body
+    );
+
+    const response: ApiResponse<typeof location> = {
+      success: true,
+      data: location,
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/v1/locations/:locationId - Delete saved location
+router.delete(
+  '/:locationId',
+  validateParams(locationIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    await deleteLocation(authReq.user.id, req.params.locationId as string);
+
+    res.status(204).send();
+  })
+);
+
+export default router;
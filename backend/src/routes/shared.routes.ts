@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/error.middleware.js';
+import { validateParams } from '../middleware/validation.middleware.js';
+import { ipRateLimiter } from '../middleware/rate-limit.middleware.js';
+import { shareTokenParamSchema } from '../validators/trip.validators.js';
+import { getSharedTrips } from '../services/trip-share.service.js';
+import type { ApiResponse } from '../types/index.js';
+
+// Public, read-only views behind share links; no authentication
+const router = Router();
+
+// GET /api/v1/shared/:token - View the trips behind a share link
+router.get(
+  '/:token',
+  // Keyed by IP alone so guessing tokens is limited across all of them
+  ipRateLimiter(60, 60),
+  validateParams(shareTokenParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const shared = await getSharedTrips(
+      req.params.token as string,
+      { ipAddress: req.ip, userAgent: req.get('user-agent') }
+    );
+
+    const response: ApiResponse<typeof shared> = {
+      success: true,
+      data: shared,
+    };
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(response);
+  })
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/error.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validateParams } from '../middleware/validation.middleware.js';
+import { timelineDateParamSchema } from '../validators/report.validators.js';
+import { getDailyTimeline } from '../services/timeline.service.js';
+import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// GET /api/v1/timeline/:date - Get a local day's trips, stops, visits, expenses and earnings
+router.get(
+  '/:date',
+  validateParams(timelineDateParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const timeline = await getDailyTimeline(authReq.user.id, req.params.date as string);
+
+    const response: ApiResponse<typeof timeline> = {
+      success: true,
+      data: timeline,
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
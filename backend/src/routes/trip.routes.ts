@@ -3,6 +3,7 @@ import type { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/error.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
 import { validateBody, validateQuery, validateParams } from '../middleware/validation.middleware.js';
+import { singleFileUpload } from '../middleware/upload.middleware.js';
 import {
   createTripSchema,
   updateTripSchema,
@@ -10,7 +11,22 @@ import {
   completeTripSchema,
   tripFilterSchema,
   tripIdParamSchema,
+  mergeTripsSchema,
+  splitTripSchema,
+  bulkUpdateTripsSchema,
+  tripExportQuerySchema,
+  tripDetailQuerySchema,
+  tripSearchSchema,
+  nonCompliantTripsQuerySchema,
+  bulkTripExportSchema,
+  importTripSchema,
+  createManualTripSchema,
+  createTripTemplateSchema,
+  tripTemplateIdParamSchema,
+  createTripShareSchema,
+  tripShareIdParamSchema,
 } from '../validators/trip.validators.js';
+import type { TripDetailQueryInput } from '../validators/trip.validators.js';
 import {
   createTrip,
   getTrip,
@@ -19,7 +35,32 @@ import {
   completeTrip,
   listTrips,
   deleteTrip,
+  mergeTrips,
+  splitTrip,
+  bulkUpdateTrips,
+  searchTrips,
 } from '../services/trip.service.js';
+import { getTripStops } from '../services/stop-detection.service.js';
+import { listNonCompliantTrips } from '../services/irs-compliance.service.js';
+import { confirmTripAnomalies } from '../services/trip-anomaly.service.js';
+import {
+  createManualTrip,
+  listTripTemplates,
+  createTripTemplate,
+  deleteTripTemplate,
+} from '../services/manual-trip.service.js';
+import {
+  createTripShare,
+  listTripShares,
+  revokeTripShare,
+} from '../services/trip-share.service.js';
+import {
+  exportTrip,
+  exportTrips,
+  importTrip,
+  MAX_IMPORT_FILE_BYTES,
+} from '../services/trip-export.service.js';
+import type { TripExportFile } from '../services/trip-export.service.js';
 import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
 
 const router = Router();
@@ -59,13 +100,225 @@ router.get(
   })
 );
 
+// GET /api/v1/trips/search - Full-text search with ranked, highlighted results
+router.get(
+  '/search',
+  validateQuery(tripSearchSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await searchTrips(authReq.user.id, req.query as any);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  })
+);
+
+// GET /api/v1/trips/non-compliant - Trips missing IRS log elements in a tax year
+router.get(
+  '/non-compliant',
+  validateQuery(nonCompliantTripsQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await listNonCompliantTrips(authReq.user.id, req.query as any);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  })
+);
+
+// POST /api/v1/trips/merge - Merge consecutive trips into the first one
+router.post(
+  '/merge',
+  validateBody(mergeTripsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const trip = await mergeTrips(authReq.user.id, req.body);
+
+    const response: ApiResponse<typeof trip> = {
+      success: true,
+      data: trip,
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/v1/trips/manual - Backfill a completed trip between two places
+router.post(
+  '/manual',
+  validateBody(createManualTripSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const trip = await createManualTrip(authReq.user.id, req.body);
+
+    const response: ApiResponse<typeof trip> = {
+      success: true,
+      data: trip,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// GET /api/v1/trips/templates - List favorite trips, most used first
+router.get(
+  '/templates',
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const templates = await listTripTemplates(authReq.user.id);
+
+    const response: ApiResponse<typeof templates> = {
+      success: true,
+      data: templates,
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/v1/trips/templates - Save a favorite trip for manual entry
+router.post(
+  '/templates',
+  validateBody(createTripTemplateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const template = await createTripTemplate(authReq.user.id, req.body);
+
+    const response: ApiResponse<typeof template> = {
+      success: true,
+      data: template,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// DELETE /api/v1/trips/templates/:templateId - Delete a favorite trip
+router.delete(
+  '/templates/:templateId',
+  validateParams(tripTemplateIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    await deleteTripTemplate(authReq.user.id, req.params.templateId as string);
+
+    res.status(204).send();
+  })
+);
+
+// GET /api/v1/trips/shares - List share links, newest first
+router.get(
+  '/shares',
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const shares = await listTripShares(authReq.user.id);
+
+    const response: ApiResponse<typeof shares> = {
+      success: true,
+      data: shares,
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/v1/trips/shares - Create a read-only link to a trip or date range
+router.post(
+  '/shares',
+  validateBody(createTripShareSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await createTripShare(authReq.user.id, req.body);
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// DELETE /api/v1/trips/shares/:shareId - Revoke a share link
+router.delete(
+  '/shares/:shareId',
+  validateParams(tripShareIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    await revokeTripShare(authReq.user.id, req.params.shareId as string);
+
+    res.status(204).send();
+  })
+);
+
+// GET /api/v1/trips/export - Export trips in a date range as GPX, KML or GeoJSON
+router.get(
+  '/export',
+  validateQuery(bulkTripExportSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const file = await exportTrips(authReq.user.id, req.query as any);
+
+    sendExportFile(res, file);
+  })
+);
+
+// POST /api/v1/trips/import - Import a GPX or KML file as a completed trip
+router.post(
+  '/import',
+  singleFileUpload('file', MAX_IMPORT_FILE_BYTES),
+  validateBody(importTripSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const trip = await importTrip(
+      authReq.user.id,
+      { filename: req.file!.originalname, content: req.file!.buffer },
+      req.body
+    );
+
+    const response: ApiResponse<typeof trip> = {
+      success: true,
+      data: trip,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// PATCH /api/v1/trips/bulk - Update category, purpose, tags etc. on many trips
+router.patch(
+  '/bulk',
+  validateBody(bulkUpdateTripsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await bulkUpdateTrips(
+      authReq.user.id,
+      authReq.user.subscriptionTier,
+      req.body,
+      { ipAddress: req.ip, userAgent: req.get('user-agent') }
+    );
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+    };
+
+    res.json(response);
+  })
+);
+
 // GET /api/v1/trips/:tripId - Get single trip
 router.get(
   '/:tripId',
   validateParams(tripIdParamSchema),
+  validateQuery(tripDetailQuerySchema),
   asyncHandler(async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
-    const trip = await getTrip(authReq.user.id, req.params.tripId as string);
+    const { detail } = req.query as TripDetailQueryInput;
+    const trip = await getTrip(authReq.user.id, req.params.tripId as string, detail);
 
     const response: ApiResponse<typeof trip> = {
       success: true,
@@ -76,6 +329,37 @@ router.get(
   })
 );
 
+// GET /api/v1/trips/:tripId/stops - List stops detected during a trip
+router.get(
+  '/:tripId/stops',
+  validateParams(tripIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const stops = await getTripStops(authReq.user.id, req.params.tripId as string);
+
+    const response: ApiResponse<typeof stops> = {
+      success: true,
+      data: stops,
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/v1/trips/:tripId/export - Export trip as GPX, KML or GeoJSON
+router.get(
+  '/:tripId/export',
+  validateParams(tripIdParamSchema),
+  validateQuery(tripExportQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { format } = req.query as any;
+    const file = await exportTrip(authReq.user.id, req.params.tripId as string, format);
+
+    sendExportFile(res, file);
+  })
+);
+
 // PATCH /api/v1/trips/:tripId - Update trip
 router.patch(
   '/:tripId',
@@ -130,6 +414,41 @@ router.post(
   })
 );
 
+// POST /api/v1/trips/:tripId/split - Split trip into two at a waypoint or time
+router.post(
+  '/:tripId/split',
+  validateParams(tripIdParamSchema),
+  validateBody(splitTripSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await splitTrip(authReq.user.id, req.params.tripId as string, req.body);
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// POST /api/v1/trips/:tripId/anomalies/confirm - Accept a flagged trip for reports
+router.post(
+  '/:tripId/anomalies/confirm',
+  validateParams(tripIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const trip = await confirmTripAnomalies(authReq.user.id, req.params.tripId as string);
+
+    const response: ApiResponse<typeof trip> = {
+      success: true,
+      data: trip,
+    };
+
+    res.json(response);
+  })
+);
+
 // DELETE /api/v1/trips/:tripId - Delete trip
 router.delete(
   '/:tripId',
@@ -142,4 +461,10 @@ router.delete(
   })
 );
 
+function sendExportFile(res: Response, file: TripExportFile): void {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.body);
+}
+
 export default router;
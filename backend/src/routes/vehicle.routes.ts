@@ -9,6 +9,9 @@ import {
   createMaintenanceRecordSchema,
   vehicleIdParamSchema,
   vehicleFilterSchema,
+  createOdometerReadingSchema,
+  odometerReadingFilterSchema,
+  odometerReconciliationQuerySchema,
 } from '../validators/vehicle.validators.js';
 import {
   createVehicle,
@@ -19,6 +22,11 @@ import {
   addMaintenanceRecord,
   getVehicleStats,
 } from '../services/vehicle.service.js';
+import {
+  addOdometerReading,
+  listOdometerReadings,
+  reconcileOdometer,
+} from '../services/odometer.service.js';
 import type { AuthenticatedRequest, ApiResponse } from '../types/index.js';
 
 const router = Router();
@@ -152,4 +160,68 @@ router.get(
   })
 );
 
+// GET /api/v1/vehicles/:vehicleId/odometer - List odometer reading history
+router.get(
+  '/:vehicleId/odometer',
+  validateParams(vehicleIdParamSchema),
+  validateQuery(odometerReadingFilterSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const result = await listOdometerReadings(
+      authReq.user.id,
+      req.params.vehicleId as string,
+      req.query as any
+    );
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  })
+);
+
+// POST /api/v1/vehicles/:vehicleId/odometer - Record an odometer reading
+router.post(
+  '/:vehicleId/odometer',
+  validateParams(vehicleIdParamSchema),
+  validateBody(createOdometerReadingSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const reading = await addOdometerReading(
+      authReq.user.id,
+      req.params.vehicleId as string,
+      req.body
+    );
+
+    const response: ApiResponse<typeof reading> = {
+      success: true,
+      data: reading,
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// GET /api/v1/vehicles/:vehicleId/odometer/reconciliation - Compare odometer distance with logged trips
+router.get(
+  '/:vehicleId/odometer/reconciliation',
+  validateParams(vehicleIdParamSchema),
+  validateQuery(odometerReconciliationQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const reconciliation = await reconcileOdometer(
+      authReq.user.id,
+      req.params.vehicleId as string,
+      req.query as any
+    );
+
+    const response: ApiResponse<typeof reconciliation> = {
+      success: true,
+      data: reconciliation,
+    };
+
+    res.json(response);
+  })
+);
+
 export default router;
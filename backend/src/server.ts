@@ -17,8 +17,11 @@ import authRoutes from './routes/auth.routes.js';
 import tripRoutes from './routes/trip.routes.js';
 import vehicleRoutes from './routes/vehicle.routes.js';
 import routeRoutes from './routes/route.routes.js';
+import locationRoutes from './routes/location.routes.js';
 import expenseRoutes from './routes/expense.routes.js';
 import analyticsRoutes from './routes/analytics.routes.js';
+import timelineRoutes from './routes/timeline.routes.js';
+import sharedRoutes from './routes/shared.routes.js';
 
 const app = express();
 
@@ -111,8 +114,11 @@ apiRouter.use('/auth', authRoutes);
 apiRouter.use('/trips', tripRoutes);
 apiRouter.use('/vehicles', vehicleRoutes);
 apiRouter.use('/routes', routeRoutes);
+apiRouter.use('/locations', locationRoutes);
 apiRouter.use('/expenses', expenseRoutes);
 apiRouter.use('/analytics', analyticsRoutes);
+apiRouter.use('/timeline', timelineRoutes);
+apiRouter.use('/shared', sharedRoutes);
 
 // Mount API router
 app.use(`/api/${config.server.apiVersion}`, apiRouter);
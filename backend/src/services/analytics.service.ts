@@ -1,5 +1,17 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import type { DashboardData, TaxSummary, AnalyticsQueryInput, TaxSummaryQueryInput } from '../types/index.js';
+import type {
+  DashboardData,
+  TaxSummary,
+  WeatherAnalytics,
+  WeatherDrivingStats,
+  AnalyticsQueryInput,
+  TaxSummaryQueryInput,
+} from '../types/index.js';
+import type { WeatherConditions } from './weather.service.js';
+import { getOdometerAt } from './odometer.service.js';
+import { REPORTABLE_TRIP_FILTER } from './trip-anomaly.service.js';
+import { findCommuteAdjustments } from './commute.service.js';
 
 const METERS_TO_MILES = 0.000621371;
 
@@ -55,11 +67,14 @@ export async function getDashboardData(
       status: { in: ['completed', 'verified'] },
     },
     _count: true,
-    _sum: { distanceMeters: true },
+    _sum: { distanceMeters: true, fuelConsumedGallons: true, fuelCost: true, carbonEmissionsKg: true },
   });
 
   let totalTrips = 0;
   let totalMeters = 0;
+  let fuelGallons = 0;
+  let fuelCost = 0;
+  let emissionsKg = 0;
   let businessMeters = 0;
   let personalMeters = 0;
   const tripsByCategory: Record<string, number> = {};
@@ -67,6 +82,9 @@ export async function getDashboardData(
   for (const stat of tripStats) {
     totalTrips += stat._count;
     totalMeters += stat._sum.distanceMeters ?? 0;
+    fuelGallons += Number(stat._sum.fuelConsumedGallons ?? 0);
+    fuelCost += Number(stat._sum.fuelCost ?? 0);
+    emissionsKg += Number(stat._sum.carbonEmissionsKg ?? 0);
     tripsByCategory[stat.category] = (stat._sum.distanceMeters ?? 0) * METERS_TO_MILES;
 
     if (stat.category === 'business') {
@@ -182,6 +200,9 @@ export async function getDashboardData(
     personalMiles,
     totalExpenses: Number(expenseStats._sum.amount ?? 0),
     fuelCosts: Number(fuelStats._sum.amount ?? 0),
+    estimatedFuelGallons: Math.round(fuelGallons * 1000) / 1000,
+    estimatedFuelCost: Math.round(fuelCost * 100) / 100,
+    carbonEmissionsKg: Math.round(emissionsKg * 1000) / 1000,
     estimatedDeduction: businessMiles * rates.business,
     avgDailyMiles: totalMiles / daysDiff,
     mostUsedVehicle,
@@ -190,6 +211,80 @@ export async function getDashboardData(
   };
 }
 
+export async function getWeatherAnalytics(
+  userId: string,
+  query: AnalyticsQueryInput
+): Promise<WeatherAnalytics> {
+  const { start, end } = getDateRange(query.period ?? 'month');
+
+  const where = {
+    userId,
+    deletedAt: null,
+    startTime: { gte: start, lte: end },
+    status: { in: ['completed' as const, 'verified' as const] },
+  };
+
+  const [trips, tripsWithoutWeather] = await Promise.all([
+    prisma.trip.findMany({
+      where: { ...where, weatherConditions: { not: Prisma.DbNull } },
+      select: {
+        distanceMeters: true,
+        durationSeconds: true,
+        idleTimeSeconds: true,
+        weatherConditions: true,
+      },
+    }),
+    prisma.trip.count({ where: { ...where, weatherConditions: { equals: Prisma.DbNull } } }),
+  ]);
+
+  type TripRow = (typeof trips)[number];
+  const groups = new Map<string, TripRow[]>();
+  const adverse: TripRow[] = [];
+  const normal: TripRow[] = [];
+
+  for (const trip of trips) {
+    const weather = trip.weatherConditions as unknown as WeatherConditions;
+    const group = groups.get(weather.condition);
+    if (group) {
+      group.push(trip);
+    } else {
+      groups.set(weather.condition, [trip]);
+    }
+    (weather.adverse ? adverse : normal).push(trip);
+  }
+
+  const byCondition: Record<string, WeatherDrivingStats> = {};
+  for (const [condition, group] of groups) {
+    byCondition[condition] = summarizeDriving(group);
+  }
+
+  return {
+    period: query.period ?? 'month',
+    tripsWithWeather: trips.length,
+    tripsWithoutWeather,
+    byCondition,
+    adverse: summarizeDriving(adverse),
+    normal: summarizeDriving(normal),
+  };
+}
+
+function summarizeDriving(
+  trips: Array<{ distanceMeters: number; durationSeconds: number; idleTimeSeconds: number }>
+): WeatherDrivingStats {
+  const meters = trips.reduce((sum, t) => sum + t.distanceMeters, 0);
+  const seconds = trips.reduce((sum, t) => sum + t.durationSeconds, 0);
+  const idleSeconds = trips.reduce((sum, t) => sum + t.idleTimeSeconds, 0);
+  const miles = meters * METERS_TO_MILES;
+
+  return {
+    trips: trips.length,
+    miles,
+    avgSpeedMph: seconds > 0 ? miles / (seconds / 3600) : null,
+    avgDurationMinutes: trips.length > 0 ? seconds / 60 / trips.length : 0,
+    idlePercent: seconds > 0 ? (idleSeconds / seconds) * 100 : 0,
+  };
+}
+
 export async function getTaxSummary(
   userId: string,
   query: TaxSummaryQueryInput
@@ -217,18 +312,24 @@ export async function getTaxSummary(
     });
   }
 
-  // Get mileage by category
+  const yearTrips: Prisma.TripWhereInput = {
+    userId,
+    deletedAt: null,
+    startTime: { gte: startOfYear, lte: endOfYear },
+    status: { in: ['completed', 'verified'] },
+  };
+
+  // Get mileage by category, leaving out trips with unreviewed GPS anomalies
   const mileageByCategory = await prisma.trip.groupBy({
     by: ['category'],
-    where: {
-      userId,
-      deletedAt: null,
-      startTime: { gte: startOfYear, lte: endOfYear },
-      status: { in: ['completed', 'verified'] },
-    },
+    where: { ...yearTrips, ...REPORTABLE_TRIP_FILTER },
     _sum: { distanceMeters: true },
   });
 
+  const tripsPendingReview = await prisma.trip.count({
+    where: { ...yearTrips, NOT: REPORTABLE_TRIP_FILTER },
+  });
+
   let businessMiles = 0;
   let medicalMiles = 0;
   let charityMiles = 0;
@@ -240,6 +341,15 @@ export async function getTaxSummary(
     else if (item.category === 'charity') charityMiles = miles;
   }
 
+  // Business trips that IRS commuting rules do not allow
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { timezone: true } });
+  const commuteAdjustments = await findCommuteAdjustments(userId, user.timezone, {
+    ...yearTrips,
+    ...REPORTABLE_TRIP_FILTER,
+  });
+  const commuteMiles = commuteAdjustments.reduce((sum, adjustment) => sum + adjustment.miles, 0);
+  businessMiles = Math.max(0, businessMiles - commuteMiles);
+
   // Get actual expenses
   const actualExpenses = await prisma.expense.aggregate({
     where: {
@@ -263,6 +373,28 @@ export async function getTaxSummary(
   const recommendedMethod = standardDeduction >= totalActualExpenses ? 'standard' : 'actual';
   const savingsAmount = Math.abs(standardDeduction - totalActualExpenses);
 
+  // The IRS asks for each vehicle's odometer at the start and end of the year
+  const vehicles = await prisma.vehicle.findMany({
+    where: {
+      userId,
+      OR: [
+        { deletedAt: null },
+        { trips: { some: { deletedAt: null, startTime: { gte: startOfYear, lte: endOfYear } } } },
+      ],
+    },
+    orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  const odometerReadings = await Promise.all(
+    vehicles.map(async (vehicle) => ({
+      vehicleId: vehicle.id,
+      nickname: vehicle.nickname,
+      unit: vehicle.odometerUnit,
+      startOfYear: await getOdometerAt(vehicle, startOfYear),
+      endOfYear: await getOdometerAt(vehicle, endOfYear),
+    }))
+  );
+
   // Update tax year record
   await prisma.taxYear.update({
     where: { id: taxYearRecord.id },
@@ -287,5 +419,8 @@ export async function getTaxSummary(
     actualExpenses: totalActualExpenses,
     recommendedMethod,
     savingsAmount,
+    tripsPendingReview,
+    commuteAdjustments,
+    odometerReadings,
   };
 }
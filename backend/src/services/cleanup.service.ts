@@ -0,0 +1,260 @@
+import { prisma } from '../config/database.js';
+import { config } from '../config/env.js';
+import { cache } from '../config/redis.js';
+import { jobLogger } from '../utils/logger.js';
+import { addNotificationJob, addTripProcessingJob } from '../jobs/queues.js';
+import type { CleanupTask } from '../jobs/queues.js';
+import { completeTrip } from './trip.service.js';
+import { packFinishedTrips } from './waypoint-storage.service.js';
+import type { Prisma } from '@prisma/client';
+
+// Periodic housekeeping run by the cleanup worker: trips the app stopped
+// recording without completing, trips a crashed worker left in processing,
+// trips whose processing ran out of retries while geocoding was down,
+// reports past their download window, and finished trips whose waypoints
+// are still stored as rows.
+
+export const CLEANUP_TASKS: CleanupTask[] = [
+  'abandoned_trips',
+  'stale_processing',
+  'unresolved_places',
+  'expired_reports',
+  'pack_waypoints',
+];
+
+// Rows handled per task and run; the rest wait for the next run
+const CLEANUP_BATCH_SIZE = 100;
+
+// Packing batches per run, so a large backfill makes steady progress without
+// holding the worker for long
+const MAX_PACK_BATCHES_PER_RUN = 10;
+
+// Where the packing backfill stopped, so the next run carries on from there
+const PACK_CURSOR_CACHE_KEY = 'cleanup:pack_waypoints:cursor';
+
+export type CleanupResult = Partial<Record<CleanupTask, number>>;
+
+export async function runCleanup(tasks: CleanupTask[] = CLEANUP_TASKS): Promise<CleanupResult> {
+  const result: CleanupResult = {};
+  const now = Date.now();
+
+  if (tasks.includes('abandoned_trips')) {
+    result.abandoned_trips = await finalizeAbandonedTrips(
+      new Date(now - config.cleanup.abandonedTripMinutes * 60 * 1000)
+    );
+  }
+
+  if (tasks.includes('stale_processing')) {
+    result.stale_processing = await recoverStaleProcessingTrips(
+      new Date(now - config.cleanup.staleProcessingMinutes * 60 * 1000)
+    );
+  }
+
+  if (tasks.includes('unresolved_places')) {
+    result.unresolved_places = await requeueUnresolvedPlaceTrips(
+      new Date(now - config.cleanup.unresolvedPlacesRetryMinutes * 60 * 1000)
+    );
+  }
+
+  if (tasks.includes('expired_reports')) {
+    result.expired_reports = await purgeExpiredReports(new Date(now));
+  }
+
+  if (tasks.includes('pack_waypoints')) {
+    result.pack_waypoints = await packStoredWaypoints();
+  }
+
+  return result;
+}
+
+// Completes recording trips that have received no waypoints since the
+// cutoff, ending them at the last recorded point. Staleness goes by upload
+// time so a phone catching up on an offline backlog is not cut short. A trip
+// that never recorded a point is still the user's record of a start, so it is
+// ended where and when it started rather than removed.
+export async function finalizeAbandonedTrips(cutoff: Date): Promise<number> {
+  const candidates = await prisma.trip.findMany({
+    where: {
+      status: 'recording',
+      deletedAt: null,
+      createdAt: { lt: cutoff },
+      waypoints: { none: { createdAt: { gte: cutoff } } },
+    },
+    select: { id: true, userId: true, startLatitude: true, startLongitude: true, startTime: true },
+    orderBy: { createdAt: 'asc' },
+    take: CLEANUP_BATCH_SIZE,
+  });
+
+  let finalized = 0;
+
+  for (const candidate of candidates) {
+    const last = await prisma.tripWaypoint.findFirst({
+      where: { tripId: candidate.id },
+      orderBy: { sequenceNumber: 'desc' },
+    });
+
+    try {
+      const trip = await completeTrip(candidate.userId, candidate.id, last
+        ? {
+            endLatitude: Number(last.latitude),
+            endLongitude: Number(last.longitude),
+            endTime: last.timestamp.toISOString(),
+          }
+        : {
+            endLatitude: Number(candidate.startLatitude),
+            endLongitude: Number(candidate.startLongitude),
+            endTime: candidate.startTime.toISOString(),
+          });
+
+      finalized++;
+      jobLogger.info({
+        tripId: trip.id,
+        userId: trip.userId,
+        endTime: trip.endTime,
+        empty: !last,
+      }, 'Abandoned trip completed');
+
+      await addNotificationJob({
+        userId: trip.userId,
+        type: 'trip_auto_completed',
+        title: 'Trip completed automatically',
+        body: last
+          ? 'A trip stopped recording and was ended at its last recorded location. Review it to make sure it is correct.'
+          : 'A trip stopped recording before any locations were saved and was ended where it started. Review or delete it.',
+        data: { tripId: trip.id, endTime: trip.endTime?.toISOString() ?? null },
+      });
+    } catch (error) {
+      jobLogger.error({ tripId: candidate.id, error }, 'Failed to complete abandoned trip');
+    }
+  }
+
+  return finalized;
+}
+
+// Puts trips stuck in processing back to completed and queues them again
+export async function recoverStaleProcessingTrips(cutoff: Date): Promise<number> {
+  const stale = await prisma.trip.findMany({
+    where: {
+      status: 'processing',
+      deletedAt: null,
+      updatedAt: { lt: cutoff },
+    },
+    select: { id: true, userId: true },
+    orderBy: { updatedAt: 'asc' },
+    take: CLEANUP_BATCH_SIZE,
+  });
+
+  let recovered = 0;
+
+  for (const trip of stale) {
+    const reset = await prisma.trip.updateMany({
+      where: { id: trip.id, status: 'processing', updatedAt: { lt: cutoff } },
+      data: { status: 'completed' },
+    });
+    if (reset.count === 0) continue;
+
+    recovered++;
+
+    try {
+      await addTripProcessingJob({ tripId: trip.id, userId: trip.userId, reprocess: true });
+    } catch (error) {
+      jobLogger.warn({ tripId: trip.id, error }, 'Failed to enqueue trip processing');
+    }
+  }
+
+  if (recovered > 0) {
+    jobLogger.info({ count: recovered }, 'Stale processing trips requeued');
+  }
+
+  return recovered;
+}
+
+// Queues completed trips still missing an address again. Processing leaves a
+// trip completed when geocoding fails on every attempt; an address the
+// provider has no answer for does not count, as that trip is verified anyway.
+// Claiming bumps updatedAt so a trip is retried once per period, not on every
+// run while its job waits.
+export async function requeueUnresolvedPlaceTrips(cutoff: Date): Promise<number> {
+  const unresolved: Prisma.TripWhereInput = {
+    status: 'completed',
+    deletedAt: null,
+    updatedAt: { lt: cutoff },
+    OR: [
+      { startAddress: null },
+      { endAddress: null, endLatitude: { not: null }, endLongitude: { not: null } },
+    ],
+  };
+
+  const candidates = await prisma.trip.findMany({
+    where: unresolved,
+    select: { id: true, userId: true },
+    orderBy: { updatedAt: 'asc' },
+    take: CLEANUP_BATCH_SIZE,
+  });
+
+  let requeued = 0;
+
+  for (const trip of candidates) {
+    const claimed = await prisma.trip.updateMany({
+      where: { ...unresolved, id: trip.id },
+      data: { updatedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    requeued++;
+
+    try {
+      await addTripProcessingJob({ tripId: trip.id, userId: trip.userId, reprocess: true });
+    } catch (error) {
+      jobLogger.warn({ tripId: trip.id, error }, 'Failed to enqueue trip processing');
+    }
+  }
+
+  if (requeued > 0) {
+    jobLogger.info({ count: requeued }, 'Trips without addresses requeued');
+  }
+
+  return requeued;
+}
+
+export async function purgeExpiredReports(now: Date): Promise<number> {
+  const { count } = await prisma.mileageReport.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+
+  if (count > 0) {
+    jobLogger.info({ count }, 'Expired reports deleted');
+  }
+
+  return count;
+}
+
+// Backfill of waypoint packing, a batch at a time until nothing is left or the
+// run's share is used up. Paging by id, carried over between runs, means
+// trips that keep failing to pack are stepped over instead of filling every
+// batch; they are retried once the sweep wraps around.
+export async function packStoredWaypoints(): Promise<number> {
+  let packedTrips = 0;
+  let packedPoints = 0;
+  let cursor = await cache.get<string>(PACK_CURSOR_CACHE_KEY);
+
+  for (let batch = 0; batch < MAX_PACK_BATCHES_PER_RUN; batch++) {
+    const result = await packFinishedTrips(CLEANUP_BATCH_SIZE, cursor);
+    packedTrips += result.trips;
+    packedPoints += result.points;
+    cursor = result.cursor;
+    if (!cursor) break;
+  }
+
+  if (cursor) {
+    await cache.set(PACK_CURSOR_CACHE_KEY, cursor);
+  } else {
+    await cache.del(PACK_CURSOR_CACHE_KEY);
+  }
+
+  if (packedTrips > 0) {
+    jobLogger.info({ trips: packedTrips, points: packedPoints }, 'Trip waypoints packed');
+  }
+
+  return packedTrips;
+}
@@ -0,0 +1,191 @@
+import { prisma } from '../config/database.js';
+import { METERS_TO_MILES, findContainingLocation } from '../utils/geo.js';
+import type { LatLng } from '../utils/geo.js';
+import { getLocalTimeParts } from '../utils/time.js';
+import type { LocationType, Prisma } from '@prisma/client';
+
+// IRS commuting rules (Pub. 463, "Transportation"). Driving between home and
+// the regular workplace is personal commuting whatever the trip is tagged.
+// Driving between work locations is business. Home to a temporary work
+// location is business when the user also has a regular workplace; without
+// one, the first trip out and the last trip home each day are commuting.
+// Home and workplaces come from the user's saved locations.
+
+export type CommuteRule =
+  | 'home_to_regular_work'
+  | 'home_to_temporary_work'
+  | 'first_last_trip_no_regular_work'
+  | 'between_work_sites';
+
+export const COMMUTE_RULE_EXPLANATIONS: Record<CommuteRule, string> = {
+  home_to_regular_work:
+    'Trips between home and your regular workplace are commuting, which the IRS does not allow as a business deduction.',
+  home_to_temporary_work:
+    'Trips between home and a temporary work location are deductible because you also have a regular workplace.',
+  first_last_trip_no_regular_work:
+    'Without a regular workplace, the first trip of the day from home and the last trip of the day back home are commuting.',
+  between_work_sites: 'Trips between work locations are deductible business mileage.',
+};
+
+// Any endpoint of a business trip that is neither home nor the regular
+// workplace is treated as a temporary work location
+export type CommuteEndpoint = 'home' | 'regular_work' | 'work_site';
+
+export interface CommutePlace extends LatLng {
+  radiusMeters: number;
+  endpoint: 'home' | 'regular_work';
+}
+
+export interface CommuteDecision {
+  rule: CommuteRule;
+  category: 'commute' | 'business';
+  explanation: string;
+}
+
+export interface CommuteAdjustment {
+  tripId: string;
+  startTime: string;
+  miles: number;
+  rule: CommuteRule;
+  explanation: string;
+}
+
+interface SavedPlace extends LatLng {
+  radiusMeters: number;
+  locationType: LocationType;
+  visitCount: number;
+}
+
+// Home locations plus the primary workplace, the most visited "work"
+// location. Other workplaces count as work sites.
+export function buildCommutePlaces(locations: SavedPlace[]): CommutePlace[] {
+  const places: CommutePlace[] = locations
+    .filter((l) => l.locationType === 'home')
+    .map((l) => ({ latitude: l.latitude, longitude: l.longitude, radiusMeters: l.radiusMeters, endpoint: 'home' }));
+
+  let primary: SavedPlace | null = null;
+  for (const location of locations) {
+    if (location.locationType === 'work' && (!primary || location.visitCount > primary.visitCount)) {
+      primary = location;
+    }
+  }
+
+  if (primary) {
+    places.push({
+      latitude: primary.latitude,
+      longitude: primary.longitude,
+      radiusMeters: primary.radiusMeters,
+      endpoint: 'regular_work',
+    });
+  }
+
+  return places;
+}
+
+export function commuteEndpoint(places: CommutePlace[], point: LatLng): CommuteEndpoint {
+  return findContainingLocation(places, point)?.endpoint ?? 'work_site';
+}
+
+// True for a trip that is certainly a commute, whatever else it might be
+export function isHomeWorkCommute(places: CommutePlace[], start: LatLng, end: LatLng): boolean {
+  const endpoints = [commuteEndpoint(places, start), commuteEndpoint(places, end)];
+  return endpoints.includes('home') && endpoints.includes('regular_work');
+}
+
+export function evaluateCommute(
+  start: CommuteEndpoint,
+  end: CommuteEndpoint,
+  day: { firstOfDay: boolean; lastOfDay: boolean; hasRegularWork: boolean }
+): CommuteDecision | null {
+  const decide = (rule: CommuteRule, category: CommuteDecision['category']): CommuteDecision => ({
+    rule,
+    category,
+    explanation: COMMUTE_RULE_EXPLANATIONS[rule],
+  });
+
+  if (start === 'home' && end === 'home') return null;
+
+  if (start === 'home' || end === 'home') {
+    const other = start === 'home' ? end : start;
+    if (other === 'regular_work') return decide('home_to_regular_work', 'commute');
+    if (day.hasRegularWork) return decide('home_to_temporary_work', 'business');
+
+    const leavesHomeFirst = start === 'home' && day.firstOfDay;
+    const returnsHomeLast = end === 'home' && day.lastOfDay;
+    return leavesHomeFirst || returnsHomeLast ? decide('first_last_trip_no_regular_work', 'commute') : null;
+  }
+
+  return decide('between_work_sites', 'business');
+}
+
+// Business trips in the range that the commuting rules move out of business
+// mileage. Days are the user's local days; every trip that day counts when
+// deciding which trip was first or last.
+export async function findCommuteAdjustments(
+  userId: string,
+  timezone: string,
+  where: Prisma.TripWhereInput
+): Promise<CommuteAdjustment[]> {
+  const locations = await prisma.savedLocation.findMany({
+    where: { userId, locationType: { in: ['home', 'work'] } },
+    select: { latitude: true, longitude: true, radiusMeters: true, locationType: true, visitCount: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const places = buildCommutePlaces(
+    locations.map((l) => ({ ...l, latitude: Number(l.latitude), longitude: Number(l.longitude) }))
+  );
+
+  // Every rule that reclassifies a trip starts or ends at home
+  if (!places.some((p) => p.endpoint === 'home')) return [];
+  const hasRegularWork = places.some((p) => p.endpoint === 'regular_work');
+
+  const trips = await prisma.trip.findMany({
+    where: { ...where, userId, endLatitude: { not: null }, endLongitude: { not: null } },
+    select: {
+      id: true,
+      category: true,
+      startTime: true,
+      distanceMeters: true,
+      startLatitude: true,
+      startLongitude: true,
+      endLatitude: true,
+      endLongitude: true,
+    },
+    orderBy: { startTime: 'asc' },
+  });
+
+  const days = new Map<string, typeof trips>();
+  for (const trip of trips) {
+    const { dateKey } = getLocalTimeParts(trip.startTime, timezone);
+    const day = days.get(dateKey) ?? [];
+    day.push(trip);
+    days.set(dateKey, day);
+  }
+
+  const adjustments: CommuteAdjustment[] = [];
+
+  for (const day of days.values()) {
+    day.forEach((trip, index) => {
+      if (trip.category !== 'business') return;
+
+      const decision = evaluateCommute(
+        commuteEndpoint(places, { latitude: Number(trip.startLatitude), longitude: Number(trip.startLongitude) }),
+        commuteEndpoint(places, { latitude: Number(trip.endLatitude), longitude: Number(trip.endLongitude) }),
+        { firstOfDay: index === 0, lastOfDay: index === day.length - 1, hasRegularWork }
+      );
+
+      if (decision?.category === 'commute') {
+        adjustments.push({
+          tripId: trip.id,
+          startTime: trip.startTime.toISOString(),
+          miles: trip.distanceMeters * METERS_TO_MILES,
+          rule: decision.rule,
+          explanation: decision.explanation,
+        });
+      }
+    });
+  }
+
+  return adjustments;
+}
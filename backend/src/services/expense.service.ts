@@ -8,6 +8,7 @@ import type {
   ExpenseFilterInput,
   PaginatedResponse,
 } from '../types/index.js';
+import { recordOdometerReading } from './odometer.service.js';
 import type { Expense, FuelPurchase, Prisma } from '@prisma/client';
 
 export async function createExpense(
@@ -301,15 +302,15 @@ export async function createFuelPurchase(
       },
     });
 
-    // Update vehicle odometer if needed
-    if (input.odometerReading && input.odometerReading > vehicle.odometerReading) {
-      await tx.vehicle.update({
-        where: { id: input.vehicleId },
-        data: {
-          odometerReading: input.odometerReading,
-          odometerUpdatedAt: new Date(),
-        },
-      });
+    // Raises the vehicle odometer if needed
+    if (input.odometerReading) {
+      await recordOdometerReading({
+        vehicleId: input.vehicleId!,
+        reading: input.odometerReading,
+        recordedAt: new Date(input.expenseDate),
+        source: 'fuel_purchase',
+        fuelPurchaseId: fuelPurchase.id,
+      }, tx);
     }
 
     return { expense, fuelPurchase };
@@ -0,0 +1,195 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { METERS_TO_MILES } from '../utils/geo.js';
+import type { FuelType, Trip } from '@prisma/client';
+
+// Per-trip fuel, cost and CO2 estimates. Rated economy is blended between
+// city and highway by average speed, then scaled by how the vehicle actually
+// performs according to the user's full-tank fuel purchases.
+
+export interface FuelEstimateInput {
+  distanceMiles: number;
+  avgSpeedMph: number | null;
+  fuelType: FuelType;
+  ratedCityMpg: number | null;
+  ratedHighwayMpg: number | null;
+  observedMpg: number | null;
+  // Price per gallon, or per kWh for electric vehicles
+  energyPrice: number | null;
+}
+
+export interface FuelEstimate {
+  mpg: number;
+  // Gallons of fuel, or gallons-equivalent for electric vehicles
+  gallons: number;
+  cost: number | null;
+  carbonEmissionsKg: number;
+}
+
+// Below this average speed a trip is all city driving, above the next all highway
+const CITY_SPEED_MPH = 25;
+const HIGHWAY_SPEED_MPH = 55;
+
+// EPA combined economy weights city 55% / highway 45%
+const EPA_CITY_SHARE = 0.55;
+
+// Used when the vehicle has neither rated nor observed economy
+const DEFAULT_MPG: Record<FuelType, number> = {
+  gasoline: 25,
+  diesel: 30,
+  electric: 100,
+  hybrid: 45,
+  plugin_hybrid: 50,
+};
+
+// kg CO2 per gallon burned (EPA)
+const GASOLINE_KG_CO2_PER_GALLON = 8.887;
+const DIESEL_KG_CO2_PER_GALLON = 10.18;
+// US grid average (EPA eGRID) and the EPA MPGe energy equivalence
+const GRID_KG_CO2_PER_KWH = 0.373;
+const KWH_PER_GALLON_EQUIVALENT = 33.7;
+// Share of plug-in hybrid miles driven on electricity
+const PLUGIN_HYBRID_ELECTRIC_SHARE = 0.4;
+
+const OBSERVED_MPG_SAMPLE = 5;
+const MIN_PLAUSIBLE_MPG = 5;
+const MAX_PLAUSIBLE_MPG = 200;
+
+export function estimateTripFuel(input: FuelEstimateInput): FuelEstimate | null {
+  if (input.distanceMiles <= 0) return null;
+
+  const rated = blendRatedMpg(input.ratedCityMpg, input.ratedHighwayMpg, input.avgSpeedMph);
+  const ratedCombined = blendRatedMpg(input.ratedCityMpg, input.ratedHighwayMpg, null);
+
+  let mpg: number;
+  if (rated !== null && input.observedMpg !== null && ratedCombined !== null) {
+    // Keep the speed profile from the ratings, the level from real fill-ups
+    mpg = rated * (input.observedMpg / ratedCombined);
+  } else {
+    mpg = input.observedMpg ?? rated ?? DEFAULT_MPG[input.fuelType];
+  }
+
+  const gallons = input.distanceMiles / mpg;
+  const { fuelGallons, kwh } = splitEnergy(input.fuelType, gallons);
+
+  const fuelFactor = input.fuelType === 'diesel' ? DIESEL_KG_CO2_PER_GALLON : GASOLINE_KG_CO2_PER_GALLON;
+  const carbonEmissionsKg = fuelGallons * fuelFactor + kwh * GRID_KG_CO2_PER_KWH;
+
+  // Plug-in hybrids are priced on the fuel they burn; charging is not tracked
+  let cost: number | null = null;
+  if (input.energyPrice !== null) {
+    cost = input.fuelType === 'electric' ? kwh * input.energyPrice : fuelGallons * input.energyPrice;
+  }
+
+  return {
+    mpg: round(mpg, 2),
+    gallons: round(gallons, 3),
+    cost: cost !== null ? round(cost, 2) : null,
+    carbonEmissionsKg: round(carbonEmissionsKg, 3),
+  };
+}
+
+// Fills fuelConsumedGallons, fuelCost and carbonEmissionsKg for a trip. Trips
+// without a vehicle use the user's primary vehicle.
+export async function updateTripFuelEstimate(tripId: string): Promise<Trip | null> {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: { vehicle: true },
+  });
+
+  if (!trip || trip.deletedAt) return null;
+
+  const vehicle = trip.vehicle ?? await prisma.vehicle.findFirst({
+    where: { userId: trip.userId, isPrimary: true, deletedAt: null },
+  });
+
+  if (!vehicle) return null;
+
+  const [observed, latestPrice] = await Promise.all([
+    prisma.fuelPurchase.findMany({
+      where: {
+        vehicleId: vehicle.id,
+        mpgCalculated: { gte: MIN_PLAUSIBLE_MPG, lte: MAX_PLAUSIBLE_MPG },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: OBSERVED_MPG_SAMPLE,
+      select: { mpgCalculated: true },
+    }),
+    findLatestEnergyPrice(trip.userId, vehicle.id, vehicle.fuelType),
+  ]);
+
+  const observedMpg = observed.length > 0
+    ? observed.reduce((sum, p) => sum + Number(p.mpgCalculated), 0) / observed.length
+    : null;
+
+  const estimate = estimateTripFuel({
+    distanceMiles: trip.distanceMeters * METERS_TO_MILES,
+    avgSpeedMph: trip.avgSpeedMph !== null ? Number(trip.avgSpeedMph) : null,
+    fuelType: vehicle.fuelType,
+    ratedCityMpg: vehicle.fuelEconomyCity !== null ? Number(vehicle.fuelEconomyCity) : null,
+    ratedHighwayMpg: vehicle.fuelEconomyHighway !== null ? Number(vehicle.fuelEconomyHighway) : null,
+    observedMpg,
+    energyPrice: latestPrice,
+  });
+
+  const updated = await prisma.trip.update({
+    where: { id: tripId },
+    data: {
+      fuelConsumedGallons: estimate?.gallons ?? null,
+      fuelCost: estimate?.cost ?? null,
+      carbonEmissionsKg: estimate?.carbonEmissionsKg ?? null,
+    },
+  });
+
+  tripLogger.debug({ tripId, vehicleId: vehicle.id, ...estimate }, 'Trip fuel estimated');
+
+  return updated;
+}
+
+// This vehicle's latest purchase, else the user's latest for the same fuel.
+// Charging sessions for electric vehicles are logged with a price per kWh.
+async function findLatestEnergyPrice(userId: string, vehicleId: string, fuelType: FuelType): Promise<number | null> {
+  const purchase =
+    (await prisma.fuelPurchase.findFirst({
+      where: { vehicleId, fuelType },
+      orderBy: { createdAt: 'desc' },
+      select: { pricePerGallon: true },
+    })) ??
+    (await prisma.fuelPurchase.findFirst({
+      where: { vehicle: { userId }, fuelType },
+      orderBy: { createdAt: 'desc' },
+      select: { pricePerGallon: true },
+    }));
+
+  return purchase ? Number(purchase.pricePerGallon) : null;
+}
+
+// Fuel use per mile adds linearly, so economies blend harmonically
+function blendRatedMpg(city: number | null, highway: number | null, avgSpeedMph: number | null): number | null {
+  if (city === null || highway === null) return city ?? highway;
+
+  const cityShare = avgSpeedMph === null
+    ? EPA_CITY_SHARE
+    : Math.min(1, Math.max(0, (HIGHWAY_SPEED_MPH - avgSpeedMph) / (HIGHWAY_SPEED_MPH - CITY_SPEED_MPH)));
+
+  return 1 / (cityShare / city + (1 - cityShare) / highway);
+}
+
+function splitEnergy(fuelType: FuelType, gallons: number): { fuelGallons: number; kwh: number } {
+  switch (fuelType) {
+    case 'electric':
+      return { fuelGallons: 0, kwh: gallons * KWH_PER_GALLON_EQUIVALENT };
+    case 'plugin_hybrid':
+      return {
+        fuelGallons: gallons * (1 - PLUGIN_HYBRID_ELECTRIC_SHARE),
+        kwh: gallons * PLUGIN_HYBRID_ELECTRIC_SHARE * KWH_PER_GALLON_EQUIVALENT,
+      };
+    default:
+      return { fuelGallons: gallons, kwh: 0 };
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,436 @@
+import * as jose from 'jose';
+import { config } from '../config/env.js';
+import { cache } from '../config/redis.js';
+import { jobLogger } from '../utils/logger.js';
+import { findNearestSavedLocation } from './spatial.service.js';
+
+// Reverse geocoding for trip endpoints. The user's saved locations win over
+// the provider; provider results are cached in Redis by rounded coordinates.
+// Forward geocoding turns typed addresses into coordinates for manual trips.
+
+export interface GeocodeResult {
+  address: string;
+  placeName: string | null;
+}
+
+export interface GeocodedAddress extends GeocodeResult {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  reverseGeocode(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+  geocode(query: string): Promise<GeocodedAddress | null>;
+}
+
+export interface ResolvedPlace {
+  address: string | null;
+  placeName: string | null;
+  source: 'saved_location' | 'provider';
+  savedLocationId: string | null;
+}
+
+export class GeocodingProviderError extends Error {
+  constructor(
+    provider: string,
+    message: string,
+    public readonly retryable: boolean
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'GeocodingProviderError';
+  }
+}
+
+// 4 decimal places is ~11 m, well inside a street address
+const CACHE_PRECISION = 4;
+const CACHE_TTL_SECONDS = 30 * 24 * 3600;
+// "No address here" is cached briefly so the provider is not asked every time
+const EMPTY_CACHE_TTL_SECONDS = 24 * 3600;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Addresses written as raw "lat, lng" by older versions of the worker
+const COORDINATE_STRING_PATTERN = /^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/;
+
+const MAPKIT_API_URL = 'https://maps-api.apple.com/v1';
+
+let cachedProvider: GeocodingProvider | null | undefined;
+
+export function getGeocodingProvider(): GeocodingProvider | null {
+  if (cachedProvider !== undefined) return cachedProvider;
+
+  const { provider, nominatimUrl, nominatimUserAgent } = config.geocoding;
+  const { teamId, keyId, privateKey } = config.mapkit;
+
+  if (provider === 'mapkit' && teamId && keyId && privateKey) {
+    cachedProvider = createMapKitProvider({ teamId, keyId, privateKey });
+  } else if (provider === 'nominatim' && nominatimUrl) {
+    cachedProvider = createNominatimProvider({ baseUrl: nominatimUrl, userAgent: nominatimUserAgent });
+  } else {
+    if (provider !== 'none') {
+      jobLogger.warn({ provider }, 'Geocoding provider is not fully configured; reverse geocoding disabled');
+    }
+    cachedProvider = null;
+  }
+
+  return cachedProvider;
+}
+
+export function isCoordinateString(value: string | null): boolean {
+  return value !== null && COORDINATE_STRING_PATTERN.test(value.trim());
+}
+
+// Town or city, with the region, from a stored address in either provider's
+// format ("123 Main St, Oakland, CA 94612[, United States]"), for showing
+// roughly where a trip went without the street. Postal codes are dropped.
+// Null when the address is too short to tell the street from the city.
+export function cityFromAddress(address: string | null): string | null {
+  if (!address || isCoordinateString(address)) return null;
+
+  const parts = address.split(',').map((part) => part.trim()).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  const [city, region] = parts.slice(1, 3).map((part) =>
+    part.split(/\s+/).filter((word) => !/\d/.test(word)).join(' ')
+  );
+
+  return [city, region].filter(Boolean).join(', ') || null;
+}
+
+// Resolves a trip endpoint: a saved location whose radius contains the point,
+// otherwise the geocoding provider. Returns null when nothing is known.
+export async function resolvePlace(
+  userId: string,
+  latitude: number,
+  longitude: number
+): Promise<ResolvedPlace | null> {
+  const nearest = await findNearestSavedLocation(userId, { latitude, longitude }, { withinRadius: true });
+
+  if (nearest) {
+    return {
+      address: nearest.address,
+      placeName: nearest.name,
+      source: 'saved_location',
+      savedLocationId: nearest.id,
+    };
+  }
+
+  const result = await reverseGeocode(latitude, longitude);
+  if (!result) return null;
+
+  return {
+    address: result.address,
+    placeName: result.placeName,
+    source: 'provider',
+    savedLocationId: null,
+  };
+}
+
+// Cached, retrying provider lookup. Throws GeocodingProviderError once retries
+// are exhausted so callers can leave the address empty for a later pass.
+export async function reverseGeocode(latitude: number, longitude: number): Promise<GeocodeResult | null> {
+  const provider = getGeocodingProvider();
+  if (!provider) return null;
+
+  const cacheKey = `geocode:${provider.name}:${latitude.toFixed(CACHE_PRECISION)}:${longitude.toFixed(CACHE_PRECISION)}`;
+
+  const cached = await readCache(cacheKey);
+  if (cached) {
+    return cached.result;
+  }
+
+  return withRetries(provider.name, 'Reverse geocoding failed', async () => {
+    const result = await provider.reverseGeocode(latitude, longitude);
+    await writeCache(cacheKey, { result }, result ? CACHE_TTL_SECONDS : EMPTY_CACHE_TTL_SECONDS);
+    return result;
+  });
+}
+
+// Coordinates for a typed address, cached by the normalized query. Returns
+// null when no provider is configured or nothing matches.
+export async function geocodeAddress(address: string): Promise<GeocodedAddress | null> {
+  const provider = getGeocodingProvider();
+  if (!provider) return null;
+
+  const query = address.trim().replace(/\s+/g, ' ');
+  const cacheKey = `geocode:forward:${provider.name}:${query.toLowerCase()}`;
+
+  const cached = await readCache<GeocodedAddress>(cacheKey);
+  if (cached) {
+    return cached.result;
+  }
+
+  return withRetries(provider.name, 'Forward geocoding failed', async () => {
+    const result = await provider.geocode(query);
+    await writeCache(cacheKey, { result }, result ? CACHE_TTL_SECONDS : EMPTY_CACHE_TTL_SECONDS);
+    return result;
+  });
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+interface MapKitOptions {
+  teamId: string;
+  keyId: string;
+  privateKey: string;
+}
+
+// MapKit Server API: a signed developer token is exchanged for a short-lived
+// access token, which authorizes the geocoding calls
+export function createMapKitProvider(options: MapKitOptions): GeocodingProvider {
+  let accessToken: { value: string; expiresAt: number } | null = null;
+
+  async function getAccessToken(): Promise<string> {
+    if (accessToken && accessToken.expiresAt > Date.now() + 60000) {
+      return accessToken.value;
+    }
+
+    const key = await jose.importPKCS8(options.privateKey, 'ES256');
+    const now = Math.floor(Date.now() / 1000);
+    const authToken = await new jose.SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: options.keyId, typ: 'JWT' })
+      .setIssuer(options.teamId)
+      .setIssuedAt(now)
+      .setExpirationTime(now + 1800)
+      .sign(key);
+
+    const response = await fetchWithTimeout(`${MAPKIT_API_URL}/token`, {
+      headers: { Authorization: `Bearer ${authToken}` },
+    });
+
+    if (!response.ok) {
+      throw new GeocodingProviderError('mapkit', `token request failed with ${response.status}`, response.status >= 500);
+    }
+
+    const data = await response.json() as { accessToken: string; expiresInSeconds: number };
+    accessToken = { value: data.accessToken, expiresAt: Date.now() + data.expiresInSeconds * 1000 };
+    return accessToken.value;
+  }
+
+  return {
+    name: 'mapkit',
+
+    async reverseGeocode(latitude, longitude) {
+      const token = await getAccessToken();
+      const params = new URLSearchParams({ loc: `${latitude},${longitude}`, lang: 'en-US' });
+      const response = await fetchWithTimeout(`${MAPKIT_API_URL}/reverseGeocode?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 401) {
+        // Token revoked or expired early; fetch a new one on retry
+        accessToken = null;
+        throw new GeocodingProviderError('mapkit', 'access token rejected', true);
+      }
+      if (!response.ok) {
+        throw new GeocodingProviderError('mapkit', `reverse geocode failed with ${response.status}`, isRetryableStatus(response.status));
+      }
+
+      const data = await response.json() as {
+        results?: Array<{ name?: string; formattedAddressLines?: string[] }>;
+      };
+
+      const place = data.results?.[0];
+      if (!place?.formattedAddressLines?.length) return null;
+
+      const address = place.formattedAddressLines.join(', ');
+      return {
+        address,
+        placeName: place.name && place.name !== place.formattedAddressLines[0] ? place.name : null,
+      };
+    },
+
+    async geocode(query) {
+      const token = await getAccessToken();
+      const params = new URLSearchParams({ q: query, lang: 'en-US' });
+      const response = await fetchWithTimeout(`${MAPKIT_API_URL}/geocode?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 401) {
+        accessToken = null;
+        throw new GeocodingProviderError('mapkit', 'access token rejected', true);
+      }
+      if (!response.ok) {
+        throw new GeocodingProviderError('mapkit', `geocode failed with ${response.status}`, isRetryableStatus(response.status));
+      }
+
+      const data = await response.json() as {
+        results?: Array<{
+          name?: string;
+          formattedAddressLines?: string[];
+          coordinate?: { latitude: number; longitude: number };
+        }>;
+      };
+
+      const place = data.results?.[0];
+      if (!place?.coordinate) return null;
+
+      const address = place.formattedAddressLines?.join(', ') || query;
+      return {
+        latitude: place.coordinate.latitude,
+        longitude: place.coordinate.longitude,
+        address,
+        placeName: place.name && place.name !== place.formattedAddressLines?.[0] ? place.name : null,
+      };
+    },
+  };
+}
+
+interface NominatimOptions {
+  baseUrl: string;
+  userAgent: string;
+}
+
+// Nominatim /reverse API. Works against the public service or any compatible
+// local instance (e.g. a self-hosted Nominatim or a test stand-in).
+export function createNominatimProvider(options: NominatimOptions): GeocodingProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'nominatim',
+
+    async reverseGeocode(latitude, longitude) {
+      const params = new URLSearchParams({
+        format: 'jsonv2',
+        lat: String(latitude),
+        lon: String(longitude),
+        zoom: '18',
+        addressdetails: '1',
+      });
+
+      const response = await fetchWithTimeout(`${baseUrl}/reverse?${params}`, {
+        headers: { 'User-Agent': options.userAgent, Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new GeocodingProviderError('nominatim', `reverse geocode failed with ${response.status}`, isRetryableStatus(response.status));
+      }
+
+      const data = await response.json() as {
+        error?: string;
+        name?: string;
+        display_name?: string;
+        address?: Record<string, string>;
+      };
+
+      if (data.error || !data.display_name) return null;
+
+      const address = data.address
+        ? formatNominatimAddress(data.address) ?? data.display_name
+        : data.display_name;
+
+      return {
+        address,
+        placeName: data.name || null,
+      };
+    },
+
+    async geocode(query) {
+      const params = new URLSearchParams({
+        format: 'jsonv2',
+        q: query,
+        limit: '1',
+        addressdetails: '1',
+      });
+
+      const response = await fetchWithTimeout(`${baseUrl}/search?${params}`, {
+        headers: { 'User-Agent': options.userAgent, Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new GeocodingProviderError('nominatim', `search failed with ${response.status}`, isRetryableStatus(response.status));
+      }
+
+      const data = await response.json() as Array<{
+        lat: string;
+        lon: string;
+        name?: string;
+        display_name?: string;
+        address?: Record<string, string>;
+      }>;
+
+      const place = data[0];
+      if (!place) return null;
+
+      return {
+        latitude: Number(place.lat),
+        longitude: Number(place.lon),
+        address: (place.address && formatNominatimAddress(place.address)) ?? place.display_name ?? query,
+        placeName: place.name || null,
+      };
+    },
+  };
+}
+
+// Street-level address in the usual "123 Main St, City, ST 12345" order
+function formatNominatimAddress(parts: Record<string, string>): string | null {
+  const street = [parts.house_number, parts.road].filter(Boolean).join(' ');
+  const city = parts.city ?? parts.town ?? parts.village ?? parts.hamlet;
+  const region = [parts.state, parts.postcode].filter(Boolean).join(' ');
+  const lines = [street, city, region].filter(Boolean);
+  return lines.length >= 2 ? lines.join(', ') : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function readCache<T = GeocodeResult>(key: string): Promise<{ result: T | null } | null> {
+  try {
+    return await cache.get<{ result: T | null }>(key);
+  } catch (error) {
+    jobLogger.warn({ key, error }, 'Geocoding cache read failed');
+    return null;
+  }
+}
+
+async function writeCache<T>(key: string, value: { result: T | null }, ttlSeconds: number): Promise<void> {
+  try {
+    await cache.set(key, value, ttlSeconds);
+  } catch (error) {
+    jobLogger.warn({ key, error }, 'Geocoding cache write failed');
+  }
+}
+
+// Retries transient provider failures with backoff, then rethrows
+async function withRetries<T>(providerName: string, failureMessage: string, operation: () => Promise<T>): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error;
+      const retryable = !(error instanceof GeocodingProviderError) || error.retryable;
+
+      jobLogger.warn({
+        provider: providerName,
+        attempt,
+        retryable,
+        error: error instanceof Error ? error.message : error,
+      }, failureMessage);
+
+      if (!retryable || attempt === MAX_ATTEMPTS) break;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  throw lastError;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  return fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
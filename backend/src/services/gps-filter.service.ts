@@ -0,0 +1,211 @@
+import type { TripWaypoint } from '@prisma/client';
+import { distanceBetween, bearingBetween, headingDelta, MPS_TO_MPH } from '../utils/geo.js';
+
+// Cleans raw GPS fixes before trip statistics are computed. Raw waypoint rows
+// are never modified; this module only works on in-memory copies.
+
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speedMps: number | null;
+  heading: number | null;
+  horizontalAccuracy: number | null;
+}
+
+export type GpsRejectionReason =
+  | 'low_accuracy'
+  | 'duplicate_timestamp'
+  | 'implied_speed'
+  | 'heading_reversal';
+
+export interface GpsFilterOptions {
+  // Fixes reported less accurate than this are dropped outright
+  maxHorizontalAccuracyMeters: number;
+  // Fixes that would require moving faster than this are dropped
+  maxImpliedSpeedMps: number;
+  // Below this speed the vehicle is considered parked and drift is pinned
+  stationarySpeedMps: number;
+  // Minimum Kalman process noise (how fast the true position can wander)
+  processNoiseMps: number;
+  // Accuracy assumed for fixes that do not report one
+  defaultAccuracyMeters: number;
+}
+
+export interface GpsFilterResult {
+  points: GpsFix[];
+  rejectedCount: number;
+  rejections: Record<GpsRejectionReason, number>;
+}
+
+export interface TripStatistics {
+  distanceMeters: number;
+  maxSpeedMph: number | null;
+  avgSpeedMph: number | null;
+  idleTimeSeconds: number;
+}
+
+export const DEFAULT_GPS_FILTER_OPTIONS: GpsFilterOptions = {
+  maxHorizontalAccuracyMeters: 65,
+  maxImpliedSpeedMps: 67, // ~150 mph
+  stationarySpeedMps: 0.5,
+  processNoiseMps: 3,
+  defaultAccuracyMeters: 10,
+};
+
+// Moving faster than this, a fix that doubles back inside its own error
+// circle is treated as jitter rather than a real U-turn
+const HEADING_CHECK_MIN_SPEED_MPS = 5;
+const HEADING_REVERSAL_DEGREES = 150;
+
+// Speeds below 2 mph count towards idle time
+const IDLE_SPEED_MPH = 2;
+
+export function toGpsFix(waypoint: TripWaypoint): GpsFix {
+  return {
+    latitude: Number(waypoint.latitude),
+    longitude: Number(waypoint.longitude),
+    timestamp: waypoint.timestamp,
+    speedMps: waypoint.speedMps !== null ? Number(waypoint.speedMps) : null,
+    heading: waypoint.heading !== null ? Number(waypoint.heading) : null,
+    horizontalAccuracy: waypoint.horizontalAccuracy !== null ? Number(waypoint.horizontalAccuracy) : null,
+  };
+}
+
+/**
+ * Accuracy-gated Kalman filter over a time-ordered list of fixes.
+ *
+ * Fixes are rejected for poor reported accuracy, non-increasing timestamps,
+ * physically impossible implied speed, or a heading reversal that falls
+ * inside the fix's own error circle. Accepted fixes are smoothed, and fixes
+ * recorded while stationary are pinned to the current estimate so parked-car
+ * drift adds no distance while still contributing idle time.
+ */
+export function filterGpsFixes(
+  fixes: GpsFix[],
+  options: Partial<GpsFilterOptions> = {}
+): GpsFilterResult {
+  const opts = { ...DEFAULT_GPS_FILTER_OPTIONS, ...options };
+  const rejections: Record<GpsRejectionReason, number> = {
+    low_accuracy: 0,
+    duplicate_timestamp: 0,
+    implied_speed: 0,
+    heading_reversal: 0,
+  };
+
+  const points: GpsFix[] = [];
+  let estimate: GpsFix | null = null;
+  let variance = 0;
+
+  for (const fix of fixes) {
+    const accuracy = fix.horizontalAccuracy ?? opts.defaultAccuracyMeters;
+
+    if (accuracy > opts.maxHorizontalAccuracyMeters) {
+      rejections.low_accuracy++;
+      continue;
+    }
+
+    if (!estimate) {
+      estimate = { ...fix };
+      variance = accuracy * accuracy;
+      points.push({ ...estimate });
+      continue;
+    }
+
+    const dtSeconds = (fix.timestamp.getTime() - estimate.timestamp.getTime()) / 1000;
+    if (dtSeconds <= 0) {
+      rejections.duplicate_timestamp++;
+      continue;
+    }
+
+    const jump = distanceBetween(estimate, fix);
+    const impliedSpeed = jump / dtSeconds;
+    if (impliedSpeed > opts.maxImpliedSpeedMps) {
+      rejections.implied_speed++;
+      continue;
+    }
+
+    const speed = fix.speedMps ?? impliedSpeed;
+
+    if (
+      fix.heading !== null &&
+      speed >= HEADING_CHECK_MIN_SPEED_MPS &&
+      jump < accuracy &&
+      headingDelta(bearingBetween(estimate, fix), fix.heading) > HEADING_REVERSAL_DEGREES
+    ) {
+      rejections.heading_reversal++;
+      continue;
+    }
+
+    if (speed < opts.stationarySpeedMps && jump < Math.max(accuracy, opts.defaultAccuracyMeters)) {
+      // Parked: keep the timestamp, ignore the wander
+      estimate = { ...fix, latitude: estimate.latitude, longitude: estimate.longitude };
+      points.push({ ...estimate });
+      continue;
+    }
+
+    // Predict: uncertainty grows with elapsed time and plausible speed
+    const processNoise = Math.max(opts.processNoiseMps, speed);
+    variance += dtSeconds * processNoise * processNoise;
+
+    // Update
+    const gain = variance / (variance + accuracy * accuracy);
+    estimate = {
+      ...fix,
+      latitude: estimate.latitude + gain * (fix.latitude - estimate.latitude),
+      longitude: estimate.longitude + gain * (fix.longitude - estimate.longitude),
+    };
+    variance = (1 - gain) * variance;
+
+    points.push({ ...estimate });
+  }
+
+  const rejectedCount = fixes.length - points.length;
+
+  // Not enough trustworthy fixes to say anything better than the raw track
+  if (points.length < 2 && fixes.length >= 2) {
+    return {
+      points: fixes.map((f) => ({ ...f })),
+      rejectedCount: 0,
+      rejections: { low_accuracy: 0, duplicate_timestamp: 0, implied_speed: 0, heading_reversal: 0 },
+    };
+  }
+
+  return { points, rejectedCount, rejections };
+}
+
+export function computeTripStatistics(points: GpsFix[]): TripStatistics {
+  let distanceMeters = 0;
+  let maxSpeedMph = 0;
+  let totalSpeed = 0;
+  let speedCount = 0;
+  let idleTimeSeconds = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1]!;
+    const curr = points[i]!;
+
+    const segmentMeters = distanceBetween(prev, curr);
+    const timeDiff = (curr.timestamp.getTime() - prev.timestamp.getTime()) / 1000;
+    distanceMeters += segmentMeters;
+
+    const speedMps = curr.speedMps ?? (timeDiff > 0 ? segmentMeters / timeDiff : null);
+    if (speedMps === null) continue;
+
+    const speedMph = speedMps * MPS_TO_MPH;
+    maxSpeedMph = Math.max(maxSpeedMph, speedMph);
+    totalSpeed += speedMph;
+    speedCount++;
+
+    if (speedMph < IDLE_SPEED_MPH && timeDiff > 0) {
+      idleTimeSeconds += timeDiff;
+    }
+  }
+
+  return {
+    distanceMeters,
+    maxSpeedMph: maxSpeedMph > 0 ? maxSpeedMph : null,
+    avgSpeedMph: speedCount > 0 ? totalSpeed / speedCount : null,
+    idleTimeSeconds,
+  };
+}
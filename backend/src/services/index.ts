@@ -5,5 +5,6 @@ export * from './google-auth.service.js';
 export * from './trip.service.js';
 export * from './vehicle.service.js';
 export * from './route.service.js';
+export * from './location.service.js';
 export * from './expense.service.js';
 export * from './analytics.service.js';
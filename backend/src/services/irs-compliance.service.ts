@@ -0,0 +1,147 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { isCoordinateString } from './geocoding.service.js';
+import type {
+  NonCompliantTripsQueryInput,
+  PaginatedResponse,
+} from '../types/index.js';
+import type { Prisma, Trip, TripCategory } from '@prisma/client';
+
+// IRS contemporaneous mileage log requirements (Pub. 463): each trip needs
+// its date, destination, mileage and the vehicle, and deductible trips need a
+// business purpose. Missing elements are stored on the trip so users can fix
+// them before filing.
+
+export type IrsComplianceIssue =
+  | 'missing_date'
+  | 'missing_purpose'
+  | 'missing_destination'
+  | 'missing_mileage'
+  | 'missing_vehicle';
+
+export const IRS_COMPLIANCE_ISSUES: IrsComplianceIssue[] = [
+  'missing_date',
+  'missing_purpose',
+  'missing_destination',
+  'missing_mileage',
+  'missing_vehicle',
+];
+
+// Categories deducted at an IRS rate; their purpose must be recorded
+const PURPOSE_REQUIRED: TripCategory[] = ['business', 'medical', 'charity', 'moving'];
+
+type ComplianceFields = Pick<
+  Trip,
+  'category' | 'purpose' | 'endTime' | 'endAddress' | 'endPlaceName' | 'distanceMeters' | 'vehicleId'
+>;
+
+// Listings carry the thumbnail route only
+type ListedTrip = Omit<Trip, 'routePolyline' | 'routePolylineHigh' | 'routeGeojson'>;
+
+export function evaluateIrsCompliance(trip: ComplianceFields): IrsComplianceIssue[] {
+  const issues: IrsComplianceIssue[] = [];
+
+  if (!trip.endTime) issues.push('missing_date');
+  if (PURPOSE_REQUIRED.includes(trip.category) && !trip.purpose?.trim()) issues.push('missing_purpose');
+
+  // Raw coordinates are not a destination a reviewer can read
+  const hasAddress = !!trip.endAddress?.trim() && !isCoordinateString(trip.endAddress);
+  if (!hasAddress && !trip.endPlaceName?.trim()) issues.push('missing_destination');
+
+  if (trip.distanceMeters <= 0) issues.push('missing_mileage');
+  if (!trip.vehicleId) issues.push('missing_vehicle');
+
+  return issues;
+}
+
+// Re-evaluates a finished trip and stores the result. Trips still recording
+// are left alone; they are checked when completed.
+export async function refreshTripCompliance(
+  tripId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<Trip | null> {
+  const trip = await db.trip.findUnique({ where: { id: tripId } });
+  if (!trip || trip.deletedAt || trip.status === 'recording') return null;
+
+  const issues = evaluateIrsCompliance(trip);
+  const compliant = issues.length === 0;
+
+  const unchanged =
+    trip.irsCompliant === compliant &&
+    trip.complianceIssues.length === issues.length &&
+    issues.every((issue) => trip.complianceIssues.includes(issue));
+  if (unchanged) return trip;
+
+  tripLogger.debug({ tripId, issues }, 'Trip compliance updated');
+
+  return db.trip.update({
+    where: { id: tripId },
+    data: {
+      irsCompliant: compliant,
+      complianceIssues: issues,
+    },
+  });
+}
+
+// Finished trips in a tax year that are missing log elements, oldest first,
+// with a count per missing element
+export async function listNonCompliantTrips(
+  userId: string,
+  query: NonCompliantTripsQueryInput
+): Promise<PaginatedResponse<ListedTrip> & { summary: Record<IrsComplianceIssue, number> }> {
+  const { taxYear, page, perPage, category, issue } = query;
+  const offset = (page - 1) * perPage;
+
+  const where: Prisma.TripWhereInput = {
+    userId,
+    deletedAt: null,
+    status: { not: 'recording' },
+    irsCompliant: false,
+    startTime: {
+      gte: new Date(taxYear, 0, 1, 0, 0, 0, 0),
+      lte: new Date(taxYear, 11, 31, 23, 59, 59, 999),
+    },
+  };
+
+  if (category) where.category = category as TripCategory;
+  if (issue) where.complianceIssues = { has: issue };
+
+  const [trips, total, summary] = await Promise.all([
+    prisma.trip.findMany({
+      where,
+      orderBy: { startTime: 'asc' },
+      skip: offset,
+      take: perPage,
+      omit: { routePolyline: true, routePolylineHigh: true, routeGeojson: true },
+    }),
+    prisma.trip.count({ where }),
+    summarizeIssues({ ...where, complianceIssues: undefined }),
+  ]);
+
+  const totalPages = Math.ceil(total / perPage);
+
+  return {
+    data: trips,
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+    summary,
+  };
+}
+
+async function summarizeIssues(where: Prisma.TripWhereInput): Promise<Record<IrsComplianceIssue, number>> {
+  const counts = await Promise.all(
+    IRS_COMPLIANCE_ISSUES.map((issue) =>
+      prisma.trip.count({ where: { ...where, complianceIssues: { has: issue } } })
+    )
+  );
+
+  return Object.fromEntries(
+    IRS_COMPLIANCE_ISSUES.map((issue, i) => [issue, counts[i]!])
+  ) as Record<IrsComplianceIssue, number>;
+}
@@ -0,0 +1,254 @@
+import { Prisma } from '@prisma/client';
+import type { SavedLocation } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { locationLogger } from '../utils/logger.js';
+import { NotFoundError, ConflictError, QuotaExceededError } from '../utils/errors.js';
+import { findNearestSavedLocation } from './spatial.service.js';
+import type { NearestSavedLocation } from './spatial.service.js';
+import type {
+  CreateLocationInput,
+  UpdateLocationInput,
+  LocationFilterInput,
+  NearestLocationQueryInput,
+  PaginatedResponse,
+} from '../types/index.js';
+
+// Places the user names: home, work, clients, depots. They label trip
+// endpoints, drive auto-classification and anchor delivery routes.
+//
+// visitCount and lastVisitedAt are derived from trips: a visit is a finished
+// trip that started or ended inside the location's radius, counted once per
+// trip. They are recounted rather than incremented, so reprocessing a trip or
+// moving a location never double counts.
+
+export const MAX_SAVED_LOCATIONS = 500;
+
+// Routes that still need their start and end coordinates
+const ACTIVE_ROUTE_STATUSES = ['planned', 'in_progress'] as const;
+
+export async function createLocation(userId: string, input: CreateLocationInput): Promise<SavedLocation> {
+  const count = await prisma.savedLocation.count({ where: { userId } });
+  if (count >= MAX_SAVED_LOCATIONS) {
+    throw new QuotaExceededError('saved locations', MAX_SAVED_LOCATIONS);
+  }
+
+  const location = await prisma.savedLocation.create({
+    data: {
+      userId,
+      name: input.name,
+      locationType: input.locationType ?? 'other',
+      address: input.address,
+      latitude: input.latitude,
+      longitude: input.longitude,
+      radiusMeters: input.radiusMeters ?? 100,
+      autoClassifyAs: input.autoClassifyAs,
+      isFavorite: input.isFavorite ?? false,
+      notes: input.notes,
+    },
+  });
+
+  locationLogger.info({ locationId: location.id, userId }, 'Saved location created');
+
+  // Past trips count as visits from the start
+  await refreshLocationVisits([location.id]);
+
+  return prisma.savedLocation.findUniqueOrThrow({ where: { id: location.id } });
+}
+
+export async function getLocation(userId: string, locationId: string): Promise<SavedLocation> {
+  const location = await prisma.savedLocation.findFirst({
+    where: { id: locationId, userId },
+  });
+
+  if (!location) {
+    throw new NotFoundError('Saved location');
+  }
+
+  return location;
+}
+
+export async function updateLocation(
+  userId: string,
+  locationId: string,
+  input: UpdateLocationInput
+): Promise<SavedLocation> {
+  const location = await getLocation(userId, locationId);
+
+  const updateData: Prisma.SavedLocationUpdateInput = {};
+
+  if (input.name !== undefined) updateData.name = input.name;
+  if (input.locationType !== undefined) updateData.locationType = input.locationType;
+  if (input.address !== undefined) updateData.address = input.address;
+  if (input.latitude !== undefined) updateData.latitude = input.latitude;
+  if (input.longitude !== undefined) updateData.longitude = input.longitude;
+  if (input.radiusMeters !== undefined) updateData.radiusMeters = input.radiusMeters;
+  if (input.autoClassifyAs !== undefined) updateData.autoClassifyAs = input.autoClassifyAs;
+  if (input.isFavorite !== undefined) updateData.isFavorite = input.isFavorite;
+  if (input.notes !== undefined) updateData.notes = input.notes;
+
+  const updated = await prisma.savedLocation.update({
+    where: { id: location.id },
+    data: updateData,
+  });
+
+  locationLogger.info({ locationId, userId }, 'Saved location updated');
+
+  // A moved or resized location covers a different set of trips
+  const moved =
+    (input.latitude !== undefined && input.latitude !== Number(location.latitude)) ||
+    (input.longitude !== undefined && input.longitude !== Number(location.longitude)) ||
+    (input.radiusMeters !== undefined && input.radiusMeters !== location.radiusMeters);
+
+  if (moved) {
+    await refreshLocationVisits([location.id]);
+    return prisma.savedLocation.findUniqueOrThrow({ where: { id: location.id } });
+  }
+
+  return updated;
+}
+
+// Trip templates and delivery stops keep their own copy of the address and
+// coordinates, and finished routes are only history; the foreign keys detach
+// them. Routes still to be driven need the location to optimize and navigate,
+// so they block the delete.
+export async function deleteLocation(userId: string, locationId: string): Promise<void> {
+  const location = await getLocation(userId, locationId);
+
+  const detached = await prisma.$transaction(async (tx) => {
+    const activeRoutes = await tx.deliveryRoute.findMany({
+      where: {
+        userId,
+        status: { in: [...ACTIVE_ROUTE_STATUSES] },
+        OR: [{ startLocationId: location.id }, { endLocationId: location.id }],
+      },
+      select: { id: true },
+    });
+
+    if (activeRoutes.length > 0) {
+      throw new ConflictError('Location is the start or end of a planned or in-progress route', {
+        routeIds: activeRoutes.map((route) => route.id),
+      });
+    }
+
+    const [routes, stops, templates] = await Promise.all([
+      tx.deliveryRoute.count({
+        where: { OR: [{ startLocationId: location.id }, { endLocationId: location.id }] },
+      }),
+      tx.deliveryStop.count({ where: { locationId: location.id } }),
+      tx.tripTemplate.count({
+        where: { OR: [{ startLocationId: location.id }, { endLocationId: location.id }] },
+      }),
+    ]);
+
+    await tx.savedLocation.delete({ where: { id: location.id } });
+
+    return { routes, stops, templates };
+  });
+
+  locationLogger.info({ locationId, userId, detached }, 'Saved location deleted');
+}
+
+export async function listLocations(
+  userId: string,
+  filters: LocationFilterInput
+): Promise<PaginatedResponse<SavedLocation>> {
+  const { page, perPage, q, locationType, favorite, sort } = filters;
+  const offset = (page - 1) * perPage;
+
+  const where: Prisma.SavedLocationWhereInput = { userId };
+
+  if (q) where.name = { contains: q, mode: 'insensitive' };
+  if (locationType) where.locationType = locationType;
+  if (favorite !== undefined) where.isFavorite = favorite;
+
+  const sortField = sort.startsWith('-') ? sort.slice(1) : sort;
+  const sortOrder = sort.startsWith('-') ? 'desc' : 'asc';
+
+  const orderBy: Prisma.SavedLocationOrderByWithRelationInput = {};
+  if (sortField === 'name') orderBy.name = sortOrder;
+  else if (sortField === 'visitCount') orderBy.visitCount = sortOrder;
+  else if (sortField === 'lastVisitedAt') orderBy.lastVisitedAt = { sort: sortOrder, nulls: 'last' };
+  else if (sortField === 'createdAt') orderBy.createdAt = sortOrder;
+  else orderBy.name = 'asc';
+
+  const [locations, total] = await Promise.all([
+    prisma.savedLocation.findMany({
+      where,
+      orderBy: [{ isFavorite: 'desc' }, orderBy],
+      skip: offset,
+      take: perPage,
+    }),
+    prisma.savedLocation.count({ where }),
+  ]);
+
+  const totalPages = Math.ceil(total / perPage);
+
+  return {
+    data: locations,
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+export async function getNearestLocation(
+  userId: string,
+  query: NearestLocationQueryInput
+): Promise<NearestSavedLocation | null> {
+  return findNearestSavedLocation(
+    userId,
+    { latitude: query.latitude, longitude: query.longitude },
+    { maxDistanceMeters: query.maxDistance }
+  );
+}
+
+// Recounts the locations around a trip's endpoints. Called whenever a trip
+// is finished, changed or deleted; deleted trips still have their endpoints.
+export async function refreshTripVisits(tripId: string): Promise<void> {
+  const locations = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT l.id FROM saved_locations l
+    JOIN trips t ON t.user_id = l.user_id
+    WHERE t.id = ${tripId}::uuid AND (
+      ST_DWithin(l.location, t.start_point, l.radius_meters)
+      OR ST_DWithin(l.location, t.end_point, l.radius_meters)
+    )
+  `;
+
+  await refreshLocationVisits(locations.map((location) => location.id));
+}
+
+// A visit is dated by the arrival when the trip ended at the location and by
+// the departure when it only started there
+export async function refreshLocationVisits(locationIds: string[]): Promise<void> {
+  if (locationIds.length === 0) return;
+
+  await prisma.$executeRaw`
+    UPDATE saved_locations l
+    SET visit_count = v.visits, last_visited_at = v.last_visit
+    FROM (
+      SELECT
+        sl.id,
+        COUNT(t.id)::int AS visits,
+        MAX(GREATEST(
+          CASE WHEN ST_DWithin(sl.location, t.end_point, sl.radius_meters) THEN t.end_time END,
+          CASE WHEN ST_DWithin(sl.location, t.start_point, sl.radius_meters) THEN t.start_time END
+        )) AS last_visit
+      FROM saved_locations sl
+      LEFT JOIN trips t ON t.user_id = sl.user_id
+        AND t.deleted_at IS NULL
+        AND t.status <> 'recording'
+        AND (
+          ST_DWithin(sl.location, t.start_point, sl.radius_meters)
+          OR ST_DWithin(sl.location, t.end_point, sl.radius_meters)
+        )
+      WHERE sl.id IN (${Prisma.join(locationIds.map((id) => Prisma.sql`${id}::uuid`))})
+      GROUP BY sl.id
+    ) v
+    WHERE l.id = v.id
+  `;
+}
@@ -0,0 +1,342 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import {
+  NotFoundError,
+  BadRequestError,
+  QuotaExceededError,
+  ServiceUnavailableError,
+} from '../utils/errors.js';
+import { buildRouteGeometry } from '../utils/geometry.js';
+import { startOfLocalDay, addDaysToDateKey } from '../utils/time.js';
+import { addTripProcessingJob } from '../jobs/queues.js';
+import { geocodeAddress, getGeocodingProvider } from './geocoding.service.js';
+import type { GeocodedAddress } from './geocoding.service.js';
+import { estimateRoute } from './routing.service.js';
+import type { RouteEstimate } from './routing.service.js';
+import { autoClassifyTrip } from './trip-classifier.service.js';
+import { updateTripFuelEstimate } from './fuel-estimate.service.js';
+import { syncTripOdometer } from './odometer.service.js';
+import { refreshTripCompliance } from './irs-compliance.service.js';
+import { refreshTripVisits } from './location.service.js';
+import { findRetriedTrip } from './trip.service.js';
+import type {
+  CreateManualTripInput,
+  CreateTripTemplateInput,
+  TripEndpointRequest,
+} from '../types/index.js';
+import { Prisma } from '@prisma/client';
+import type { Trip, TripCategory, TripTemplate } from '@prisma/client';
+
+// Backfilled trips for journeys the app did not record. Endpoints are saved
+// locations or typed addresses, the distance comes from the routing engine,
+// and favorite journeys can be kept as templates.
+
+export const MAX_TRIP_TEMPLATES = 50;
+
+// Calendar dates without a time start mid-day at the earliest, so the trip
+// stays on that date whatever the user's offset
+const DATE_ONLY_HOUR = 12;
+
+interface ResolvedEndpoint {
+  savedLocationId: string | null;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  placeName: string | null;
+}
+
+export async function createManualTrip(userId: string, input: CreateManualTripInput): Promise<Trip> {
+  // A resubmitted form carries the same client id and gets the first trip back
+  if (input.id) {
+    const existing = await findRetriedTrip(userId, input.id);
+    if (existing) return existing;
+  }
+
+  const template = input.templateId ? await findTemplate(userId, input.templateId) : null;
+
+  const start = input.start
+    ? await resolveEndpoint(userId, input.start, 'start')
+    : templateEndpoint(template!, 'start');
+  const end = input.end
+    ? await resolveEndpoint(userId, input.end, 'end')
+    : templateEndpoint(template!, 'end');
+
+  // A template's route is reused as long as both of its endpoints are
+  const route: RouteEstimate = template && !input.start && !input.end
+    ? {
+        distanceMeters: template.distanceMeters,
+        durationSeconds: template.durationSeconds,
+        coordinates: null,
+        engine: template.routeEngine,
+      }
+    : await estimateRoute(start, end);
+
+  const vehicleId = input.vehicleId ?? template?.vehicleId ?? undefined;
+  if (vehicleId) await assertVehicleOwned(userId, vehicleId);
+
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { timezone: true } });
+  const startTime = input.date.includes('T')
+    ? new Date(input.date)
+    : await placeDateOnlyTrip(userId, input.date, user.timezone, route.durationSeconds);
+  if (startTime.getTime() > Date.now()) {
+    throw new BadRequestError('Manual trips cannot start in the future');
+  }
+
+  const category = (input.category ?? template?.category ?? undefined) as TripCategory | undefined;
+  const geometry = route.coordinates && route.coordinates.length > 1
+    ? buildRouteGeometry(route.coordinates, { source: route.engine })
+    : null;
+
+  let trip: Trip;
+  try {
+    trip = await prisma.trip.create({
+      data: {
+        id: input.id,
+        userId,
+        vehicleId,
+        status: 'completed',
+        detectionMethod: 'manual',
+        category,
+        categorySetByUser: category !== undefined,
+        purpose: input.purpose ?? template?.purpose,
+        clientName: input.clientName ?? template?.clientName,
+        projectName: input.projectName ?? template?.projectName,
+        tags: input.tags ?? template?.tags ?? [],
+        notes: input.notes,
+        startTime,
+        startLatitude: start.latitude,
+        startLongitude: start.longitude,
+        startAddress: start.address,
+        startPlaceName: start.placeName,
+        endTime: new Date(startTime.getTime() + route.durationSeconds * 1000),
+        endLatitude: end.latitude,
+        endLongitude: end.longitude,
+        endAddress: end.address,
+        endPlaceName: end.placeName,
+        distanceMeters: route.distanceMeters,
+        durationSeconds: route.durationSeconds,
+        ...(geometry && {
+          ...geometry,
+          routeGeojson: geometry.routeGeojson as Prisma.InputJsonValue,
+        }),
+      },
+    });
+  } catch (error) {
+    // A concurrent resubmission created it first
+    if (input.id && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await findRetriedTrip(userId, input.id);
+      if (existing) return existing;
+    }
+    throw error;
+  }
+
+  if (template) {
+    await prisma.tripTemplate.update({
+      where: { id: template.id },
+      data: { useCount: { increment: 1 }, lastUsedAt: new Date() },
+    });
+  }
+
+  // Only classify when neither the user nor the template chose a category
+  const classified = category ? null : await autoClassifyTrip(trip.id);
+  const estimated = await updateTripFuelEstimate(trip.id);
+  await syncTripOdometer(trip.id);
+  await refreshTripVisits(trip.id);
+  const checked = await refreshTripCompliance(trip.id);
+
+  tripLogger.info({
+    tripId: trip.id,
+    userId,
+    templateId: template?.id,
+    engine: route.engine,
+    distanceMeters: route.distanceMeters,
+  }, 'Manual trip created');
+
+  try {
+    await addTripProcessingJob({ tripId: trip.id, userId });
+  } catch (error) {
+    tripLogger.warn({ tripId: trip.id, error }, 'Failed to enqueue trip processing');
+  }
+
+  return checked ?? estimated ?? classified ?? trip;
+}
+
+export async function listTripTemplates(userId: string): Promise<TripTemplate[]> {
+  return prisma.tripTemplate.findMany({
+    where: { userId },
+    orderBy: [{ useCount: 'desc' }, { name: 'asc' }],
+  });
+}
+
+export async function createTripTemplate(userId: string, input: CreateTripTemplateInput): Promise<TripTemplate> {
+  const count = await prisma.tripTemplate.count({ where: { userId } });
+  if (count >= MAX_TRIP_TEMPLATES) {
+    throw new QuotaExceededError('Trip templates', MAX_TRIP_TEMPLATES);
+  }
+
+  if (input.vehicleId) await assertVehicleOwned(userId, input.vehicleId);
+
+  const start = await resolveEndpoint(userId, input.start, 'start');
+  const end = await resolveEndpoint(userId, input.end, 'end');
+  const route = await estimateRoute(start, end);
+
+  const template = await prisma.tripTemplate.create({
+    data: {
+      userId,
+      name: input.name,
+      startLocationId: start.savedLocationId,
+      startAddress: start.address,
+      startPlaceName: start.placeName,
+      startLatitude: start.latitude,
+      startLongitude: start.longitude,
+      endLocationId: end.savedLocationId,
+      endAddress: end.address,
+      endPlaceName: end.placeName,
+      endLatitude: end.latitude,
+      endLongitude: end.longitude,
+      distanceMeters: route.distanceMeters,
+      durationSeconds: route.durationSeconds,
+      routeEngine: route.engine,
+      vehicleId: input.vehicleId,
+      category: input.category as TripCategory | undefined,
+      purpose: input.purpose,
+      clientName: input.clientName,
+      projectName: input.projectName,
+      tags: input.tags ?? [],
+    },
+  });
+
+  tripLogger.info({ templateId: template.id, userId, engine: route.engine }, 'Trip template created');
+
+  return template;
+}
+
+export async function deleteTripTemplate(userId: string, templateId: string): Promise<void> {
+  const template = await findTemplate(userId, templateId);
+
+  await prisma.tripTemplate.delete({
+    where: { id: template.id },
+  });
+
+  tripLogger.info({ templateId, userId }, 'Trip template deleted');
+}
+
+async function findTemplate(userId: string, templateId: string): Promise<TripTemplate> {
+  const template = await prisma.tripTemplate.findFirst({
+    where: { id: templateId, userId },
+  });
+
+  if (!template) {
+    throw new NotFoundError('Trip template');
+  }
+
+  return template;
+}
+
+async function resolveEndpoint(
+  userId: string,
+  endpoint: TripEndpointRequest,
+  label: 'start' | 'end'
+): Promise<ResolvedEndpoint> {
+  if (endpoint.savedLocationId) {
+    const location = await prisma.savedLocation.findFirst({
+      where: { id: endpoint.savedLocationId, userId },
+    });
+
+    if (!location) {
+      throw new NotFoundError('Saved location');
+    }
+
+    return {
+      savedLocationId: location.id,
+      latitude: Number(location.latitude),
+      longitude: Number(location.longitude),
+      address: location.address,
+      placeName: location.name,
+    };
+  }
+
+  if (!getGeocodingProvider()) {
+    throw new ServiceUnavailableError('Address lookup is not available; choose a saved location');
+  }
+
+  let result: GeocodedAddress | null;
+  try {
+    result = await geocodeAddress(endpoint.address!);
+  } catch (error) {
+    tripLogger.warn({ error: error instanceof Error ? error.message : error }, 'Address lookup failed');
+    throw new ServiceUnavailableError('Address lookup is unavailable; try again or choose a saved location');
+  }
+
+  if (!result) {
+    throw new BadRequestError(`Could not find the ${label} address`, { address: endpoint.address });
+  }
+
+  return {
+    savedLocationId: null,
+    latitude: result.latitude,
+    longitude: result.longitude,
+    address: result.address,
+    placeName: result.placeName,
+  };
+}
+
+function templateEndpoint(template: TripTemplate, side: 'start' | 'end'): ResolvedEndpoint {
+  return side === 'start'
+    ? {
+        savedLocationId: template.startLocationId,
+        latitude: Number(template.startLatitude),
+        longitude: Number(template.startLongitude),
+        address: template.startAddress,
+        placeName: template.startPlaceName,
+      }
+    : {
+        savedLocationId: template.endLocationId,
+        latitude: Number(template.endLatitude),
+        longitude: Number(template.endLongitude),
+        address: template.endAddress,
+        placeName: template.endPlaceName,
+      };
+}
+
+async function assertVehicleOwned(userId: string, vehicleId: string): Promise<void> {
+  const vehicle = await prisma.vehicle.findFirst({
+    where: {
+      id: vehicleId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle');
+  }
+}
+
+// A calendar date becomes mid-day, or the end of the user's last trip that
+// day when that is later, so several trips on one date line up instead of
+// colliding. Today's trips are pulled back so they have ended by now, but
+// never before local midnight.
+async function placeDateOnlyTrip(
+  userId: string,
+  date: string,
+  timezone: string,
+  durationSeconds: number
+): Promise<Date> {
+  const dayStart = startOfLocalDay(date, timezone);
+  const dayEnd = startOfLocalDay(addDaysToDateKey(date, 1), timezone);
+
+  const lastTrip = await prisma.trip.findFirst({
+    where: { userId, deletedAt: null, startTime: { gte: dayStart, lt: dayEnd } },
+    orderBy: [{ endTime: { sort: 'desc', nulls: 'last' } }, { startTime: 'desc' }],
+    select: { startTime: true, endTime: true },
+  });
+
+  let start = dayStart.getTime() + DATE_ONLY_HOUR * 3600 * 1000;
+  if (lastTrip) {
+    start = Math.max(start, (lastTrip.endTime ?? lastTrip.startTime).getTime());
+  }
+
+  start = Math.min(start, Date.now() - durationSeconds * 1000);
+  return new Date(Math.max(start, dayStart.getTime()));
+}
@@ -0,0 +1,348 @@
+import { distanceBetween } from '../utils/geo.js';
+import { findNearbySegments } from './road-graph.service.js';
+import type { RoadGraph, SegmentProjection } from './road-graph.service.js';
+
+// Hidden Markov Model map matching (Newson & Krumm). Each GPS point's road
+// candidates are hidden states; emission probability falls off with distance
+// to the road and transition probability with the difference between route
+// distance and great-circle distance. Viterbi picks the most likely sequence.
+
+export interface MapMatchPoint {
+  latitude: number;
+  longitude: number;
+  horizontalAccuracy: number | null;
+}
+
+export interface MapMatchOptions {
+  searchRadiusMeters: number;
+  maxCandidates: number;
+  gpsSigmaMeters: number;
+  transitionBetaMeters: number;
+  // Points closer together than this add no information and are skipped
+  minPointSpacingMeters: number;
+}
+
+export interface MapMatchResult {
+  matchedDistanceMeters: number;
+  // [longitude, latitude] pairs, GeoJSON order
+  coordinates: Array<[number, number]>;
+  confidence: number;
+  sampledPoints: number;
+  matchedPoints: number;
+  breaks: number;
+}
+
+export const DEFAULT_MAP_MATCH_OPTIONS: MapMatchOptions = {
+  searchRadiusMeters: 50,
+  maxCandidates: 6,
+  gpsSigmaMeters: 5,
+  transitionBetaMeters: 5,
+  minPointSpacingMeters: 20,
+};
+
+// Minimum confidence before a matched distance replaces the raw GPS distance
+export const MIN_MATCH_CONFIDENCE = 0.6;
+
+// Whether a match is good enough to replace the trip's GPS distance and route
+export function isConfidentMatch(match: MapMatchResult): boolean {
+  return match.confidence >= MIN_MATCH_CONFIDENCE;
+}
+
+interface Layer {
+  point: MapMatchPoint;
+  candidates: SegmentProjection[];
+  scores: number[];
+  back: number[];
+  chainStart: boolean;
+}
+
+interface SearchTree {
+  dist: Map<number, number>;
+  prev: Map<number, number>;
+}
+
+export function matchToRoads(
+  graph: RoadGraph,
+  points: MapMatchPoint[],
+  options: Partial<MapMatchOptions> = {}
+): MapMatchResult {
+  const opts = { ...DEFAULT_MAP_MATCH_OPTIONS, ...options };
+  const sampled = samplePoints(points, opts.minPointSpacingMeters);
+
+  const layers: Layer[] = [];
+  let breaks = 0;
+
+  for (const point of sampled) {
+    const candidates = findNearbySegments(
+      graph,
+      point.latitude,
+      point.longitude,
+      opts.searchRadiusMeters,
+      opts.maxCandidates
+    );
+    if (candidates.length === 0) continue;
+
+    const sigma = Math.max(opts.gpsSigmaMeters, point.horizontalAccuracy ?? 0);
+    const emissions = candidates.map((c) => -0.5 * (c.distanceMeters / sigma) ** 2);
+    const previous = layers[layers.length - 1];
+
+    if (!previous) {
+      layers.push({ point, candidates, scores: emissions, back: candidates.map(() => -1), chainStart: true });
+      continue;
+    }
+
+    const straightLine = distanceBetween(previous.point, point);
+    const maxRoute = straightLine * 2 + 200;
+    const scores = candidates.map(() => -Infinity);
+    const back = candidates.map(() => -1);
+
+    previous.candidates.forEach((from, i) => {
+      const prevScore = previous.scores[i]!;
+      if (prevScore === -Infinity) return;
+
+      const tree = searchFrom(graph, from, maxRoute);
+      candidates.forEach((to, j) => {
+        const route = routeDistance(graph, from, to, tree);
+        if (route === Infinity) return;
+
+        const score = prevScore - Math.abs(route - straightLine) / opts.transitionBetaMeters + emissions[j]!;
+        if (score > scores[j]!) {
+          scores[j] = score;
+          back[j] = i;
+        }
+      });
+    });
+
+    if (scores.every((s) => s === -Infinity)) {
+      // No road connection to the previous point: start a new chain
+      breaks++;
+      layers.push({ point, candidates, scores: emissions, back: candidates.map(() => -1), chainStart: true });
+    } else {
+      layers.push({ point, candidates, scores, back, chainStart: false });
+    }
+  }
+
+  if (layers.length < 2) {
+    return {
+      matchedDistanceMeters: 0,
+      coordinates: [],
+      confidence: 0,
+      sampledPoints: sampled.length,
+      matchedPoints: layers.length,
+      breaks,
+    };
+  }
+
+  // Backtrack each chain from its best final state
+  const chosen: SegmentProjection[] = new Array(layers.length);
+  let state = argmax(layers[layers.length - 1]!.scores);
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i]!;
+    chosen[i] = layer.candidates[state]!;
+    if (layer.chainStart) {
+      if (i > 0) state = argmax(layers[i - 1]!.scores);
+    } else {
+      state = layer.back[state]!;
+    }
+  }
+
+  // Rebuild geometry and distance along the chosen roads
+  let matchedDistanceMeters = 0;
+  const coordinates: Array<[number, number]> = [[chosen[0]!.longitude, chosen[0]!.latitude]];
+
+  for (let i = 1; i < layers.length; i++) {
+    const from = chosen[i - 1]!;
+    const to = chosen[i]!;
+    const path = layers[i]!.chainStart
+      ? null
+      : routePath(graph, from, to, distanceBetween(layers[i - 1]!.point, layers[i]!.point) * 2 + 200);
+
+    if (path) {
+      matchedDistanceMeters += path.distance;
+      coordinates.push(...path.coordinates);
+    } else {
+      matchedDistanceMeters += distanceBetween(from, to);
+      coordinates.push([to.longitude, to.latitude]);
+    }
+  }
+
+  const meanOffset = chosen.reduce((sum, c) => sum + c.distanceMeters, 0) / chosen.length;
+  const coverage = layers.length / sampled.length;
+  const proximity = Math.max(0, 1 - meanOffset / opts.searchRadiusMeters);
+  const continuity = 1 / (1 + breaks);
+  const confidence = Math.round(coverage * proximity * continuity * 100) / 100;
+
+  return {
+    matchedDistanceMeters,
+    coordinates: dedupeCoordinates(coordinates),
+    confidence,
+    sampledPoints: sampled.length,
+    matchedPoints: layers.length,
+    breaks,
+  };
+}
+
+function samplePoints(points: MapMatchPoint[], minSpacing: number): MapMatchPoint[] {
+  if (points.length <= 2) return points;
+
+  const sampled = [points[0]!];
+  for (let i = 1; i < points.length - 1; i++) {
+    if (distanceBetween(sampled[sampled.length - 1]!, points[i]!) >= minSpacing) {
+      sampled.push(points[i]!);
+    }
+  }
+  sampled.push(points[points.length - 1]!);
+
+  return sampled;
+}
+
+// Dijkstra from the ends of the source segment, bounded by maxDistance
+function searchFrom(graph: RoadGraph, source: SegmentProjection, maxDistance: number): SearchTree {
+  const segment = graph.segments[source.segmentId]!;
+  const dist = new Map<number, number>();
+  const prev = new Map<number, number>();
+  const heap = new MinHeap();
+
+  const seed = (node: number, cost: number): void => {
+    if (cost < (dist.get(node) ?? Infinity)) {
+      dist.set(node, cost);
+      heap.push(cost, node);
+    }
+  };
+
+  seed(segment.to, (1 - source.offset) * segment.lengthMeters);
+  if (!segment.oneway) seed(segment.from, source.offset * segment.lengthMeters);
+
+  while (heap.size > 0) {
+    const [cost, node] = heap.pop()!;
+    if (cost > (dist.get(node) ?? Infinity) || cost > maxDistance) continue;
+
+    for (const edge of graph.adjacency.get(node) ?? []) {
+      const next = cost + edge.lengthMeters;
+      if (next < (dist.get(edge.to) ?? Infinity)) {
+        dist.set(edge.to, next);
+        prev.set(edge.to, node);
+        heap.push(next, edge.to);
+      }
+    }
+  }
+
+  return { dist, prev };
+}
+
+function routeDistance(
+  graph: RoadGraph,
+  from: SegmentProjection,
+  to: SegmentProjection,
+  tree: SearchTree
+): number {
+  return bestEntry(graph, from, to, tree).distance;
+}
+
+function bestEntry(
+  graph: RoadGraph,
+  from: SegmentProjection,
+  to: SegmentProjection,
+  tree: SearchTree
+): { distance: number; node: number | null } {
+  const target = graph.segments[to.segmentId]!;
+  let best: { distance: number; node: number | null } = { distance: Infinity, node: null };
+
+  if (from.segmentId === to.segmentId) {
+    if (to.offset >= from.offset) {
+      best = { distance: (to.offset - from.offset) * target.lengthMeters, node: null };
+    } else if (!target.oneway) {
+      best = { distance: (from.offset - to.offset) * target.lengthMeters, node: null };
+    }
+  }
+
+  const viaFrom = (tree.dist.get(target.from) ?? Infinity) + to.offset * target.lengthMeters;
+  if (viaFrom < best.distance) best = { distance: viaFrom, node: target.from };
+
+  if (!target.oneway) {
+    const viaTo = (tree.dist.get(target.to) ?? Infinity) + (1 - to.offset) * target.lengthMeters;
+    if (viaTo < best.distance) best = { distance: viaTo, node: target.to };
+  }
+
+  return best;
+}
+
+function routePath(
+  graph: RoadGraph,
+  from: SegmentProjection,
+  to: SegmentProjection,
+  maxDistance: number
+): { distance: number; coordinates: Array<[number, number]> } | null {
+  const tree = searchFrom(graph, from, maxDistance);
+  const entry = bestEntry(graph, from, to, tree);
+  if (entry.distance === Infinity) return null;
+
+  const nodeIds: number[] = [];
+  let node = entry.node;
+  while (node !== null) {
+    nodeIds.unshift(node);
+    node = tree.prev.get(node) ?? null;
+  }
+
+  const coordinates: Array<[number, number]> = nodeIds.map((id) => {
+    const n = graph.nodes.get(id)!;
+    return [n.longitude, n.latitude];
+  });
+  coordinates.push([to.longitude, to.latitude]);
+
+  return { distance: entry.distance, coordinates };
+}
+
+function argmax(values: number[]): number {
+  let best = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i]! > values[best]!) best = i;
+  }
+  return best;
+}
+
+function dedupeCoordinates(coordinates: Array<[number, number]>): Array<[number, number]> {
+  return coordinates.filter((c, i) => {
+    const prev = coordinates[i - 1];
+    return !prev || prev[0] !== c[0] || prev[1] !== c[1];
+  });
+}
+
+class MinHeap {
+  private items: Array<[number, number]> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(priority: number, value: number): void {
+    this.items.push([priority, value]);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent]![0] <= this.items[i]![0]) break;
+      [this.items[parent], this.items[i]] = [this.items[i]!, this.items[parent]!];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left]![0] < this.items[smallest]![0]) smallest = left;
+        if (right < this.items.length && this.items[right]![0] < this.items[smallest]![0]) smallest = right;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i]!, this.items[smallest]!];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
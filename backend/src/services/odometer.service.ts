@@ -0,0 +1,453 @@
+import { prisma } from '../config/database.js';
+import { vehicleLogger } from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import { METERS_TO_MILES } from '../utils/geo.js';
+import type {
+  CreateOdometerReadingInput,
+  OdometerReadingFilterInput,
+  OdometerReconciliationQueryInput,
+  OdometerReconciliation,
+  OdometerReconciliationPeriod,
+  OdometerAtDate,
+  PaginatedResponse,
+} from '../types/index.js';
+import type { OdometerReading, OdometerReadingSource, OdometerUnit, Prisma, Vehicle } from '@prisma/client';
+
+// Odometer history per vehicle. Fuel purchases, maintenance and manual entries
+// are actual readings; trips add estimated readings on top of the last actual
+// one, and Vehicle.estimatedOdometer tracks the current estimate.
+
+// A period is flagged when more than this share of the odometer distance has
+// no logged trips, ignoring small differences from GPS and rounding
+const UNTRACKED_FLAG_SHARE = 0.1;
+const UNTRACKED_FLAG_MIN_DISTANCE = 10;
+
+// Trips that have ended, whatever stage of processing they are in
+const FINISHED_TRIP: Prisma.TripWhereInput = {
+  deletedAt: null,
+  status: { not: 'recording' },
+};
+
+interface ActualReadingInput {
+  vehicleId: string;
+  reading: number;
+  recordedAt: Date;
+  source: Exclude<OdometerReadingSource, 'trip'>;
+  fuelPurchaseId?: string;
+  maintenanceRecordId?: string;
+  notes?: string | null;
+}
+
+interface Baseline {
+  reading: number;
+  recordedAt: Date;
+  source: string;
+}
+
+// Stores an actual reading, raises Vehicle.odometerReading when it is the
+// highest seen and re-bases the estimate on it
+export async function recordOdometerReading(
+  input: ActualReadingInput,
+  db: Prisma.TransactionClient = prisma
+): Promise<OdometerReading> {
+  const entry = await db.odometerReading.create({
+    data: {
+      vehicleId: input.vehicleId,
+      reading: input.reading,
+      recordedAt: input.recordedAt,
+      source: input.source,
+      fuelPurchaseId: input.fuelPurchaseId,
+      maintenanceRecordId: input.maintenanceRecordId,
+      notes: input.notes,
+    },
+  });
+
+  await db.vehicle.updateMany({
+    where: { id: input.vehicleId, odometerReading: { lt: input.reading } },
+    data: {
+      odometerReading: input.reading,
+      odometerUpdatedAt: new Date(),
+    },
+  });
+
+  await refreshEstimatedOdometer(input.vehicleId, db);
+
+  return entry;
+}
+
+// Keeps a trip's estimated reading in step with the trip: written once it has
+// ended on a vehicle, removed when it is deleted or loses its vehicle. Later
+// trips' readings are estimated on top of this one's distance, so they are
+// rebuilt as well. Safe to call repeatedly, e.g. after reprocessing changes
+// the distance.
+export async function syncTripOdometer(tripId: string): Promise<void> {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: {
+      vehicle: true,
+      odometerLog: { select: { vehicleId: true, recordedAt: true } },
+    },
+  });
+
+  if (!trip) return;
+
+  const previousVehicleId = trip.odometerLog?.vehicleId ?? null;
+  const previousRecordedAt = trip.odometerLog?.recordedAt ?? null;
+  const ended = !trip.deletedAt && trip.status !== 'recording' && trip.endTime !== null;
+  const vehicle = ended && trip.vehicle && !trip.vehicle.deletedAt ? trip.vehicle : null;
+  const baseline = vehicle ? await findBaseline(vehicle, trip.endTime!, 'before') : null;
+
+  // Without a vehicle or any known reading there is nothing to estimate from
+  if (!vehicle || !baseline) {
+    if (previousVehicleId) {
+      await prisma.odometerReading.delete({ where: { tripId } });
+      await rebuildTripReadings(previousVehicleId, previousRecordedAt!);
+      await refreshEstimatedOdometer(previousVehicleId);
+    }
+    return;
+  }
+
+  const distance = await loggedDistance(vehicle, baseline.recordedAt, trip.endTime!);
+  const reading = Math.round(baseline.reading + distance);
+
+  await prisma.odometerReading.upsert({
+    where: { tripId },
+    create: {
+      vehicleId: vehicle.id,
+      reading,
+      recordedAt: trip.endTime!,
+      source: 'trip',
+      isEstimated: true,
+      tripId,
+    },
+    update: {
+      vehicleId: vehicle.id,
+      reading,
+      recordedAt: trip.endTime!,
+    },
+  });
+
+  // A trip that moved in time changes readings from its old end as well
+  const since = previousVehicleId === vehicle.id && previousRecordedAt! < trip.endTime!
+    ? previousRecordedAt!
+    : trip.endTime!;
+  await rebuildTripReadings(vehicle.id, since);
+  await refreshEstimatedOdometer(vehicle.id);
+
+  if (previousVehicleId && previousVehicleId !== vehicle.id) {
+    await rebuildTripReadings(previousVehicleId, previousRecordedAt!);
+    await refreshEstimatedOdometer(previousVehicleId);
+  }
+}
+
+// Re-estimates the trip readings after `since`. Only those up to the next
+// actual reading can change; later ones are based on that reading instead.
+async function rebuildTripReadings(vehicleId: string, since: Date): Promise<void> {
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId } });
+  if (!vehicle) return;
+
+  const baseline = await findBaseline(vehicle, since, 'before');
+  if (!baseline) return;
+
+  const next = await findBaseline(vehicle, since, 'after');
+  const readings = await prisma.odometerReading.findMany({
+    where: {
+      vehicleId,
+      source: 'trip',
+      recordedAt: { gt: since, ...(next && { lt: next.recordedAt }) },
+    },
+    orderBy: { recordedAt: 'asc' },
+    select: { id: true, reading: true, recordedAt: true },
+  });
+
+  for (const entry of readings) {
+    const distance = await loggedDistance(vehicle, baseline.recordedAt, entry.recordedAt);
+    const reading = Math.round(baseline.reading + distance);
+    if (reading !== entry.reading) {
+      await prisma.odometerReading.update({ where: { id: entry.id }, data: { reading } });
+    }
+  }
+}
+
+// Vehicle.estimatedOdometer = latest actual reading + trips driven since
+export async function refreshEstimatedOdometer(
+  vehicleId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const vehicle = await db.vehicle.findUnique({ where: { id: vehicleId } });
+  if (!vehicle) return;
+
+  const now = new Date();
+  const baseline = await findBaseline(vehicle, now, 'before', db);
+  const distance = baseline ? await loggedDistance(vehicle, baseline.recordedAt, now, db) : 0;
+
+  await db.vehicle.update({
+    where: { id: vehicleId },
+    data: {
+      estimatedOdometer: baseline ? Math.round(baseline.reading + distance) : null,
+      estimatedOdometerAt: baseline ? now : null,
+    },
+  });
+}
+
+export async function addOdometerReading(
+  userId: string,
+  vehicleId: string,
+  input: CreateOdometerReadingInput
+): Promise<OdometerReading> {
+  const vehicle = await prisma.vehicle.findFirst({
+    where: {
+      id: vehicleId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle');
+  }
+
+  const entry = await prisma.$transaction((tx) =>
+    recordOdometerReading({
+      vehicleId,
+      reading: input.reading,
+      recordedAt: input.recordedAt ? new Date(input.recordedAt) : new Date(),
+      source: 'manual',
+      notes: input.notes,
+    }, tx)
+  );
+
+  vehicleLogger.info({ vehicleId, reading: input.reading }, 'Odometer reading added');
+
+  return entry;
+}
+
+export async function listOdometerReadings(
+  userId: string,
+  vehicleId: string,
+  filters: OdometerReadingFilterInput
+): Promise<PaginatedResponse<OdometerReading>> {
+  const vehicle = await prisma.vehicle.findFirst({
+    where: {
+      id: vehicleId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle');
+  }
+
+  const { page, perPage, source, startDate, endDate } = filters;
+  const offset = (page - 1) * perPage;
+
+  const where: Prisma.OdometerReadingWhereInput = { vehicleId };
+  if (source) where.source = source;
+  if (startDate || endDate) {
+    where.recordedAt = {};
+    if (startDate) where.recordedAt.gte = new Date(startDate);
+    if (endDate) where.recordedAt.lte = new Date(endDate);
+  }
+
+  const [readings, total] = await Promise.all([
+    prisma.odometerReading.findMany({
+      where,
+      orderBy: { recordedAt: 'desc' },
+      skip: offset,
+      take: perPage,
+    }),
+    prisma.odometerReading.count({ where }),
+  ]);
+
+  const totalPages = Math.ceil(total / perPage);
+
+  return {
+    data: readings,
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+// Compares the distance between consecutive actual readings with the trip
+// distance logged in between. Untracked distance is driving the app missed
+// (or the user did not log), which matters for the business-use percentage.
+export async function reconcileOdometer(
+  userId: string,
+  vehicleId: string,
+  query: OdometerReconciliationQueryInput
+): Promise<OdometerReconciliation> {
+  const vehicle = await prisma.vehicle.findFirst({
+    where: {
+      id: vehicleId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle');
+  }
+
+  const startDate = query.startDate ? new Date(query.startDate) : null;
+  const endDate = query.endDate ? new Date(query.endDate) : null;
+
+  // Include the last reading before the range so its first period is complete
+  const first = startDate
+    ? await prisma.odometerReading.findFirst({
+      where: { vehicleId, isEstimated: false, recordedAt: { lt: startDate } },
+      orderBy: { recordedAt: 'desc' },
+    })
+    : null;
+
+  const readings = await prisma.odometerReading.findMany({
+    where: {
+      vehicleId,
+      isEstimated: false,
+      recordedAt: {
+        ...(startDate && { gte: startDate }),
+        ...(endDate && { lte: endDate }),
+      },
+    },
+    orderBy: { recordedAt: 'asc' },
+  });
+
+  if (first) readings.unshift(first);
+
+  const periods: OdometerReconciliationPeriod[] = [];
+  for (let i = 1; i < readings.length; i++) {
+    const from = readings[i - 1]!;
+    const to = readings[i]!;
+
+    const trips = await prisma.trip.aggregate({
+      where: {
+        ...FINISHED_TRIP,
+        vehicleId,
+        startTime: { gte: from.recordedAt, lt: to.recordedAt },
+      },
+      _count: true,
+      _sum: { distanceMeters: true },
+    });
+
+    const odometerDistance = to.reading - from.reading;
+    const logged = round(toOdometerUnit(trips._sum.distanceMeters ?? 0, vehicle.odometerUnit));
+    const untrackedDistance = round(odometerDistance - logged);
+
+    periods.push({
+      from: { reading: from.reading, recordedAt: from.recordedAt, source: from.source },
+      to: { reading: to.reading, recordedAt: to.recordedAt, source: to.source },
+      odometerDistance,
+      loggedDistance: logged,
+      untrackedDistance,
+      tripCount: trips._count,
+      flagged:
+        untrackedDistance > UNTRACKED_FLAG_MIN_DISTANCE &&
+        untrackedDistance > odometerDistance * UNTRACKED_FLAG_SHARE,
+    });
+  }
+
+  const odometerDistance = periods.reduce((sum, p) => sum + p.odometerDistance, 0);
+  const logged = round(periods.reduce((sum, p) => sum + p.loggedDistance, 0));
+
+  return {
+    vehicleId,
+    unit: vehicle.odometerUnit,
+    periods,
+    totals: {
+      odometerDistance,
+      loggedDistance: logged,
+      untrackedDistance: round(odometerDistance - logged),
+      trackedPercent: odometerDistance > 0 ? round((logged / odometerDistance) * 100) : null,
+    },
+  };
+}
+
+// The odometer at a point in time: the nearest actual reading before it plus
+// trips driven since, or failing that the nearest one after it minus trips
+// driven until then
+export async function getOdometerAt(vehicle: Vehicle, at: Date): Promise<OdometerAtDate | null> {
+  const before = await findBaseline(vehicle, at, 'before');
+  if (before) {
+    const distance = await loggedDistance(vehicle, before.recordedAt, at);
+    return {
+      reading: Math.round(before.reading + distance),
+      isActual: distance === 0,
+      basedOn: before,
+    };
+  }
+
+  const after = await findBaseline(vehicle, at, 'after');
+  if (after) {
+    const distance = await loggedDistance(vehicle, at, after.recordedAt);
+    return {
+      reading: Math.max(0, Math.round(after.reading - distance)),
+      isActual: distance === 0,
+      basedOn: after,
+    };
+  }
+
+  return null;
+}
+
+// Nearest actual reading on the given side of `at`. Vehicles created before
+// reading history existed fall back to their last known odometer.
+async function findBaseline(
+  vehicle: Vehicle,
+  at: Date,
+  side: 'before' | 'after',
+  db: Prisma.TransactionClient = prisma
+): Promise<Baseline | null> {
+  const reading = await db.odometerReading.findFirst({
+    where: {
+      vehicleId: vehicle.id,
+      isEstimated: false,
+      recordedAt: side === 'before' ? { lte: at } : { gt: at },
+    },
+    orderBy: { recordedAt: side === 'before' ? 'desc' : 'asc' },
+  });
+
+  if (reading) {
+    return { reading: reading.reading, recordedAt: reading.recordedAt, source: reading.source };
+  }
+
+  const legacyAt = vehicle.odometerUpdatedAt ?? vehicle.createdAt;
+  const hasHistory = await db.odometerReading.count({ where: { vehicleId: vehicle.id, isEstimated: false } });
+  if (hasHistory > 0 || vehicle.odometerReading === 0) return null;
+
+  const onSide = side === 'before' ? legacyAt <= at : legacyAt > at;
+  return onSide ? { reading: vehicle.odometerReading, recordedAt: legacyAt, source: 'vehicle' } : null;
+}
+
+// Trip distance driven on the vehicle between two instants, in its odometer unit
+async function loggedDistance(
+  vehicle: Vehicle,
+  from: Date,
+  to: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const result = await db.trip.aggregate({
+    where: {
+      ...FINISHED_TRIP,
+      vehicleId: vehicle.id,
+      startTime: { gte: from },
+      endTime: { lte: to },
+    },
+    _sum: { distanceMeters: true },
+  });
+
+  return toOdometerUnit(result._sum.distanceMeters ?? 0, vehicle.odometerUnit);
+}
+
+function toOdometerUnit(meters: number, unit: OdometerUnit): number {
+  return unit === 'kilometers' ? meters / 1000 : meters * METERS_TO_MILES;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,391 @@
+import { prisma } from '../config/database.js';
+import { locationLogger } from '../utils/logger.js';
+import { NotFoundError, ConflictError } from '../utils/errors.js';
+import { dbscan } from '../utils/clustering.js';
+import { distanceBetween } from '../utils/geo.js';
+import type { LatLng } from '../utils/geo.js';
+import { getLocalTimeParts } from '../utils/time.js';
+import { reverseGeocode } from './geocoding.service.js';
+import { createLocation } from './location.service.js';
+import type { AcceptPlaceSuggestionInput } from '../types/index.js';
+import type { LocationType, PlaceSuggestion, SavedLocation } from '@prisma/client';
+
+// Frequent places the user has not saved. Trip starts and ends are clustered
+// with DBSCAN; clusters visited often enough become suggestions with a guess
+// at what the place is. Each run refreshes the pending suggestions in place,
+// so ids a client is holding stay valid while the place is still frequent;
+// accepted and dismissed ones stay so the same place is not offered twice.
+
+// Trips considered per run, newest first
+const LOOKBACK_DAYS = 180;
+const MAX_TRIPS = 2000;
+
+// Endpoints within this distance chain into one place
+const CLUSTER_EPS_METERS = 100;
+const MIN_CLUSTER_POINTS = 5;
+
+// Distinct trips before a place is worth suggesting
+const MIN_VISITS = 5;
+
+const MIN_RADIUS_METERS = 50;
+const MAX_RADIUS_METERS = 300;
+
+const MAX_PENDING_SUGGESTIONS = 10;
+
+// Share thresholds for the location type guess
+const HOME_OVERNIGHT_SHARE = 0.6;
+const WORK_WEEKDAY_SHARE = 0.8;
+const WORK_HOURS_SHARE = 0.6;
+
+interface Endpoint extends LatLng {
+  tripId: string;
+  time: Date;
+  kind: 'arrival' | 'departure';
+}
+
+interface Candidate extends LatLng {
+  radiusMeters: number;
+  visitCount: number;
+  firstVisitedAt: Date;
+  lastVisitedAt: Date;
+  typicalArrivalMinute: number | null;
+  typicalDepartureMinute: number | null;
+  weekdayShare: number;
+  overnightShare: number;
+  workHoursShare: number;
+  suggestedType: LocationType;
+}
+
+// Refreshes the user's pending suggestions. Returns how many are pending.
+export async function discoverPlaces(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+  if (!user) return 0;
+
+  const startedAt = new Date();
+  const since = new Date(startedAt.getTime() - LOOKBACK_DAYS * 24 * 3600 * 1000);
+
+  const [trips, savedLocations, resolved, pending] = await Promise.all([
+    prisma.trip.findMany({
+      where: { userId, deletedAt: null, status: { not: 'recording' }, startTime: { gte: since } },
+      select: {
+        id: true,
+        startLatitude: true,
+        startLongitude: true,
+        startTime: true,
+        endLatitude: true,
+        endLongitude: true,
+        endTime: true,
+      },
+      orderBy: { startTime: 'desc' },
+      take: MAX_TRIPS,
+    }),
+    prisma.savedLocation.findMany({
+      where: { userId },
+      select: { latitude: true, longitude: true, radiusMeters: true, locationType: true },
+    }),
+    prisma.placeSuggestion.findMany({
+      where: { userId, status: { not: 'pending' } },
+      select: { latitude: true, longitude: true, radiusMeters: true },
+    }),
+    prisma.placeSuggestion.findMany({ where: { userId, status: 'pending' } }),
+  ]);
+
+  const endpoints: Endpoint[] = [];
+  for (const trip of trips) {
+    endpoints.push({
+      tripId: trip.id,
+      latitude: Number(trip.startLatitude),
+      longitude: Number(trip.startLongitude),
+      time: trip.startTime,
+      kind: 'departure',
+    });
+    if (trip.endLatitude !== null && trip.endLongitude !== null && trip.endTime) {
+      endpoints.push({
+        tripId: trip.id,
+        latitude: Number(trip.endLatitude),
+        longitude: Number(trip.endLongitude),
+        time: trip.endTime,
+        kind: 'arrival',
+      });
+    }
+  }
+
+  // Places the user already has, or has already answered for
+  const known = [...savedLocations, ...resolved].map((place) => ({
+    latitude: Number(place.latitude),
+    longitude: Number(place.longitude),
+    radiusMeters: place.radiusMeters,
+  }));
+
+  const candidates = dbscan(endpoints, { epsMeters: CLUSTER_EPS_METERS, minPoints: MIN_CLUSTER_POINTS })
+    .map((cluster) => summarizeCluster(cluster, user.timezone))
+    .filter((candidate) => candidate.visitCount >= MIN_VISITS)
+    .filter((candidate) => !known.some((place) =>
+      distanceBetween(place, candidate) <= Math.max(place.radiusMeters, candidate.radiusMeters)
+    ))
+    .sort((a, b) => b.visitCount - a.visitCount)
+    .slice(0, MAX_PENDING_SUGGESTIONS);
+
+  // One home at most: the most visited candidate, and none once a home is saved
+  let homeTaken = savedLocations.some((location) => location.locationType === 'home');
+  for (const candidate of candidates) {
+    if (candidate.suggestedType !== 'home') continue;
+    if (homeTaken) candidate.suggestedType = 'other';
+    homeTaken = true;
+  }
+
+  // A candidate keeps the id of the pending suggestion for the same place, and
+  // its address, so only new places are looked up
+  const unmatched = [...pending];
+  const writes = [];
+  for (const candidate of candidates) {
+    const index = findSamePlace(unmatched, candidate);
+    const existing = index === -1 ? null : unmatched.splice(index, 1)[0]!;
+    const place = existing?.address
+      ? { address: existing.address, placeName: existing.placeName }
+      : await lookUpAddress(candidate);
+
+    const data = {
+      latitude: round(candidate.latitude, 7),
+      longitude: round(candidate.longitude, 7),
+      radiusMeters: candidate.radiusMeters,
+      address: place?.address,
+      placeName: place?.placeName,
+      suggestedType: candidate.suggestedType,
+      visitCount: candidate.visitCount,
+      firstVisitedAt: candidate.firstVisitedAt,
+      lastVisitedAt: candidate.lastVisitedAt,
+      typicalArrivalMinute: candidate.typicalArrivalMinute,
+      typicalDepartureMinute: candidate.typicalDepartureMinute,
+      weekdayShare: round(candidate.weekdayShare, 2),
+      overnightShare: round(candidate.overnightShare, 2),
+    };
+
+    writes.push(existing
+      // Left alone if the user resolved it in the meantime
+      ? prisma.placeSuggestion.updateMany({ where: { id: existing.id, status: 'pending' }, data })
+      : prisma.placeSuggestion.create({ data: { userId, ...data } }));
+  }
+
+  // Pending places that are no longer frequent enough go away
+  await prisma.$transaction([
+    prisma.placeSuggestion.deleteMany({
+      where: { id: { in: unmatched.map((suggestion) => suggestion.id) }, status: 'pending' },
+    }),
+    ...writes,
+    prisma.user.update({ where: { id: userId }, data: { placesDiscoveredAt: startedAt } }),
+  ]);
+
+  locationLogger.info({
+    userId,
+    trips: trips.length,
+    endpoints: endpoints.length,
+    suggestions: candidates.length,
+    updated: pending.length - unmatched.length,
+    removed: unmatched.length,
+  }, 'Place discovery completed');
+
+  return candidates.length;
+}
+
+// Users with trips finished, edited or deleted since their last run, and
+// users never run at all, whose places may have changed. Going by each
+// user's own last run means a sweep that is late or fails does not lose
+// anyone.
+export async function findUsersForPlaceDiscovery(): Promise<string[]> {
+  const users = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT u.id FROM users u
+    WHERE u.deleted_at IS NULL AND EXISTS (
+      SELECT 1 FROM trips t
+      WHERE t.user_id = u.id
+        AND t.status <> 'recording'
+        AND (u.places_discovered_at IS NULL OR t.updated_at > u.places_discovered_at)
+    )
+  `;
+
+  return users.map((user) => user.id);
+}
+
+export async function listPlaceSuggestions(userId: string): Promise<PlaceSuggestion[]> {
+  return prisma.placeSuggestion.findMany({
+    where: { userId, status: 'pending' },
+    orderBy: [{ visitCount: 'desc' }, { createdAt: 'asc' }],
+  });
+}
+
+// Saves the place, which also counts its past visits. The suggestion is
+// claimed first so a double tap cannot create two locations.
+export async function acceptPlaceSuggestion(
+  userId: string,
+  suggestionId: string,
+  input: AcceptPlaceSuggestionInput
+): Promise<SavedLocation> {
+  const suggestion = await getPendingSuggestion(userId, suggestionId);
+
+  const claimed = await prisma.placeSuggestion.updateMany({
+    where: { id: suggestion.id, status: 'pending' },
+    data: { status: 'accepted', resolvedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new ConflictError('Suggestion has already been resolved');
+  }
+
+  let location: SavedLocation;
+  try {
+    location = await createLocation(userId, {
+      name: input.name,
+      locationType: input.locationType ?? suggestion.suggestedType,
+      address: suggestion.address ?? `${suggestion.latitude}, ${suggestion.longitude}`,
+      latitude: Number(suggestion.latitude),
+      longitude: Number(suggestion.longitude),
+      radiusMeters: input.radiusMeters ?? suggestion.radiusMeters,
+      autoClassifyAs: input.autoClassifyAs,
+      isFavorite: input.isFavorite,
+      notes: input.notes,
+    });
+  } catch (error) {
+    await prisma.placeSuggestion.update({
+      where: { id: suggestion.id },
+      data: { status: 'pending', resolvedAt: null },
+    });
+    throw error;
+  }
+
+  await prisma.placeSuggestion.update({
+    where: { id: suggestion.id },
+    data: { savedLocationId: location.id },
+  });
+
+  locationLogger.info({ userId, suggestionId, locationId: location.id }, 'Place suggestion accepted');
+
+  return location;
+}
+
+export async function dismissPlaceSuggestion(userId: string, suggestionId: string): Promise<void> {
+  const suggestion = await getPendingSuggestion(userId, suggestionId);
+
+  await prisma.placeSuggestion.update({
+    where: { id: suggestion.id },
+    data: { status: 'dismissed', resolvedAt: new Date() },
+  });
+
+  locationLogger.info({ userId, suggestionId }, 'Place suggestion dismissed');
+}
+
+async function getPendingSuggestion(userId: string, suggestionId: string): Promise<PlaceSuggestion> {
+  const suggestion = await prisma.placeSuggestion.findFirst({
+    where: { id: suggestionId, userId },
+  });
+
+  if (!suggestion) {
+    throw new NotFoundError('Place suggestion');
+  }
+
+  if (suggestion.status !== 'pending') {
+    throw new ConflictError('Suggestion has already been resolved');
+  }
+
+  return suggestion;
+}
+
+function summarizeCluster(cluster: Endpoint[], timezone: string): Candidate {
+  const latitude = cluster.reduce((sum, p) => sum + p.latitude, 0) / cluster.length;
+  const longitude = cluster.reduce((sum, p) => sum + p.longitude, 0) / cluster.length;
+  const center = { latitude, longitude };
+
+  // Wide enough for most of the parking spots seen, with some slack
+  const distances = cluster.map((p) => distanceBetween(center, p)).sort((a, b) => a - b);
+  const p90 = distances[Math.floor((distances.length - 1) * 0.9)]!;
+  const radiusMeters = Math.min(MAX_RADIUS_METERS, Math.max(MIN_RADIUS_METERS, Math.ceil((p90 * 1.2) / 10) * 10));
+
+  const times = cluster.map((p) => p.time.getTime());
+  const arrivals: number[] = [];
+  const departures: number[] = [];
+  let weekday = 0;
+  let overnight = 0;
+  let workHours = 0;
+
+  for (const endpoint of cluster) {
+    const local = getLocalTimeParts(endpoint.time, timezone);
+    const minute = local.hour * 60 + local.minute;
+    const isWeekday = local.weekday >= 1 && local.weekday <= 5;
+    if (isWeekday) weekday++;
+
+    if (endpoint.kind === 'arrival') {
+      arrivals.push(minute);
+      if (local.hour >= 17 || local.hour < 4) overnight++;
+      if (isWeekday && local.hour >= 6 && local.hour < 11) workHours++;
+    } else {
+      departures.push(minute);
+      if (local.hour >= 4 && local.hour < 10) overnight++;
+      if (isWeekday && local.hour >= 14 && local.hour < 20) workHours++;
+    }
+  }
+
+  const candidate: Candidate = {
+    latitude,
+    longitude,
+    radiusMeters,
+    visitCount: new Set(cluster.map((p) => p.tripId)).size,
+    firstVisitedAt: new Date(Math.min(...times)),
+    lastVisitedAt: new Date(Math.max(...times)),
+    typicalArrivalMinute: median(arrivals),
+    typicalDepartureMinute: median(departures),
+    weekdayShare: weekday / cluster.length,
+    overnightShare: overnight / cluster.length,
+    workHoursShare: workHours / cluster.length,
+    suggestedType: 'other',
+  };
+
+  candidate.suggestedType = guessLocationType(candidate);
+  return candidate;
+}
+
+// Home is where nights are spent; work is reached on weekday mornings and
+// left on weekday afternoons
+function guessLocationType(candidate: Candidate): LocationType {
+  if (candidate.overnightShare >= HOME_OVERNIGHT_SHARE) return 'home';
+  if (candidate.weekdayShare >= WORK_WEEKDAY_SHARE && candidate.workHoursShare >= WORK_HOURS_SHARE) return 'work';
+  return 'other';
+}
+
+// Index of the nearest suggestion covering the same place, or -1
+function findSamePlace(suggestions: PlaceSuggestion[], candidate: Candidate): number {
+  let nearest = -1;
+  let nearestDistance = Infinity;
+
+  suggestions.forEach((suggestion, index) => {
+    const distance = distanceBetween(
+      { latitude: Number(suggestion.latitude), longitude: Number(suggestion.longitude) },
+      candidate
+    );
+    if (distance <= Math.max(suggestion.radiusMeters, candidate.radiusMeters) && distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+}
+
+// Best effort; a place without an address can still be suggested
+async function lookUpAddress(point: LatLng): Promise<{ address: string; placeName: string | null } | null> {
+  try {
+    return await reverseGeocode(point.latitude, point.longitude);
+  } catch (error) {
+    locationLogger.warn({ error: error instanceof Error ? error.message : error }, 'Reverse geocoding unavailable for place suggestion');
+    return null;
+  }
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1]! + sorted[middle]!) / 2) : sorted[middle]!;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
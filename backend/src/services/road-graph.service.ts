@@ -0,0 +1,389 @@
+import { createReadStream } from 'fs';
+import { extname } from 'path';
+import { jobLogger } from '../utils/logger.js';
+import { calculateDistance, EARTH_RADIUS_METERS, toRad, toDeg } from '../utils/geo.js';
+
+// Road network loaded from a local OpenStreetMap XML extract (.osm). The graph
+// is built once per process and kept in memory for map matching. The extract
+// is streamed twice, first for drivable ways and then for the nodes they use,
+// so memory follows the size of the road network rather than the file and
+// the event loop gets a turn between chunks.
+
+export interface RoadNode {
+  id: number;
+  latitude: number;
+  longitude: number;
+}
+
+export interface RoadSegment {
+  id: number;
+  from: number;
+  to: number;
+  lengthMeters: number;
+  oneway: boolean;
+  highway: string;
+  name: string | null;
+}
+
+export interface RoadEdge {
+  to: number;
+  segmentId: number;
+  lengthMeters: number;
+}
+
+export interface RoadGraph {
+  nodes: Map<number, RoadNode>;
+  segments: RoadSegment[];
+  adjacency: Map<number, RoadEdge[]>;
+  grid: Map<string, number[]>;
+}
+
+export interface SegmentProjection {
+  segmentId: number;
+  // Fraction along the segment from `from` to `to`
+  offset: number;
+  latitude: number;
+  longitude: number;
+  distanceMeters: number;
+}
+
+const DRIVABLE_HIGHWAYS = new Set([
+  'motorway',
+  'motorway_link',
+  'trunk',
+  'trunk_link',
+  'primary',
+  'primary_link',
+  'secondary',
+  'secondary_link',
+  'tertiary',
+  'tertiary_link',
+  'unclassified',
+  'residential',
+  'living_street',
+  'service',
+  'road',
+]);
+
+// Grid cell size for the spatial index (~550 m of latitude)
+const GRID_CELL_DEGREES = 0.005;
+
+// Bytes read from the extract at a time
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+const ELEMENT_START_PATTERN = /<(node|way)\b/g;
+const ND_PATTERN = /<nd\b[^>]*\bref="(-?\d+)"/g;
+const TAG_PATTERN = /<tag\b[^>]*\bk="([^"]*)"[^>]*\bv="([^"]*)"/g;
+
+let cachedGraph: { path: string; graph: Promise<RoadGraph> } | null = null;
+
+export function getRoadGraph(path: string): Promise<RoadGraph> {
+  if (!cachedGraph || cachedGraph.path !== path) {
+    const graph = loadRoadGraph(path);
+    cachedGraph = { path, graph };
+    // Allow a later call to retry if loading failed
+    graph.catch(() => {
+      if (cachedGraph?.graph === graph) cachedGraph = null;
+    });
+  }
+  return cachedGraph.graph;
+}
+
+export interface OsmElement {
+  type: 'node' | 'way';
+  xml: string;
+}
+
+interface DrivableWay {
+  refs: number[];
+  oneway: boolean;
+  highway: string;
+  name: string | null;
+}
+
+export async function loadRoadGraph(path: string): Promise<RoadGraph> {
+  const extension = extname(path).toLowerCase();
+  if (extension !== '.osm' && extension !== '.xml') {
+    throw new Error(`Unsupported road network format "${extension}"; expected an OSM XML extract (.osm)`);
+  }
+
+  const startedAt = Date.now();
+
+  const ways: DrivableWay[] = [];
+  const usedNodeIds = new Set<number>();
+  for await (const element of readOsmElements(path)) {
+    if (element.type !== 'way') continue;
+    const way = parseWay(element.xml);
+    if (!way) continue;
+    ways.push(way);
+    for (const ref of way.refs) usedNodeIds.add(ref);
+  }
+
+  const usedNodes = new Map<number, RoadNode>();
+  for await (const element of readOsmElements(path)) {
+    if (element.type !== 'node') continue;
+    const node = parseNode(element.xml);
+    if (node && usedNodeIds.has(node.id)) usedNodes.set(node.id, node);
+  }
+
+  const graph = buildRoadGraph(ways, usedNodes);
+
+  jobLogger.info({
+    path,
+    nodes: graph.nodes.size,
+    segments: graph.segments.length,
+    durationMs: Date.now() - startedAt,
+  }, 'Road graph loaded');
+
+  return graph;
+}
+
+export function parseOsmXml(xml: string): RoadGraph {
+  const { elements } = splitOsmElements(xml);
+
+  const ways: DrivableWay[] = [];
+  const allNodes = new Map<number, RoadNode>();
+  for (const element of elements) {
+    if (element.type === 'way') {
+      const way = parseWay(element.xml);
+      if (way) ways.push(way);
+    } else {
+      const node = parseNode(element.xml);
+      if (node) allNodes.set(node.id, node);
+    }
+  }
+
+  return buildRoadGraph(ways, allNodes);
+}
+
+async function* readOsmElements(path: string): AsyncGenerator<OsmElement> {
+  let buffer = '';
+  for await (const chunk of createReadStream(path, { encoding: 'utf8', highWaterMark: READ_CHUNK_BYTES })) {
+    const { elements, rest } = splitOsmElements(buffer + chunk);
+    buffer = rest;
+    yield* elements;
+  }
+}
+
+// Complete node and way elements in the text, plus the text to carry into the
+// next chunk: an element that is still open, or a tail that could hold the
+// start of one. Either kind may be self-closing.
+export function splitOsmElements(text: string): { elements: OsmElement[]; rest: string } {
+  const elements: OsmElement[] = [];
+  const pattern = new RegExp(ELEMENT_START_PATTERN);
+  let position = 0;
+
+  for (;;) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(text);
+    if (!match) {
+      return { elements, rest: text.slice(Math.max(position, text.length - '<node'.length)) };
+    }
+
+    const type = match[1] as OsmElement['type'];
+    const start = match.index;
+    const tagEnd = text.indexOf('>', start);
+    if (tagEnd === -1) return { elements, rest: text.slice(start) };
+
+    let end: number;
+    if (text[tagEnd - 1] === '/') {
+      end = tagEnd + 1;
+    } else {
+      const closeTag = `</${type}>`;
+      const close = text.indexOf(closeTag, tagEnd);
+      if (close === -1) return { elements, rest: text.slice(start) };
+      end = close + closeTag.length;
+    }
+
+    elements.push({ type, xml: text.slice(start, end) });
+    position = end;
+  }
+}
+
+function parseNode(xml: string): RoadNode | null {
+  const attrs = xml.slice(0, xml.indexOf('>'));
+  const id = readAttribute(attrs, 'id');
+  const lat = readAttribute(attrs, 'lat');
+  const lon = readAttribute(attrs, 'lon');
+  if (id === null || lat === null || lon === null) return null;
+
+  return { id: Number(id), latitude: Number(lat), longitude: Number(lon) };
+}
+
+function parseWay(xml: string): DrivableWay | null {
+  const tags: Record<string, string> = {};
+  for (const tag of xml.matchAll(TAG_PATTERN)) {
+    tags[tag[1]!] = decodeXmlEntities(tag[2]!);
+  }
+
+  const highway = tags.highway;
+  if (!highway || !DRIVABLE_HIGHWAYS.has(highway)) return null;
+
+  let refs = [...xml.matchAll(ND_PATTERN)].map((nd) => Number(nd[1]));
+  const onewayTag = tags.oneway;
+  let oneway =
+    onewayTag === 'yes' ||
+    onewayTag === 'true' ||
+    onewayTag === '1' ||
+    onewayTag === '-1' ||
+    tags.junction === 'roundabout' ||
+    highway === 'motorway';
+  if (onewayTag === 'no') oneway = false;
+  if (onewayTag === '-1') refs = refs.reverse();
+
+  return { refs, oneway, highway, name: tags.name ?? null };
+}
+
+function buildRoadGraph(ways: DrivableWay[], allNodes: Map<number, RoadNode>): RoadGraph {
+  const nodes = new Map<number, RoadNode>();
+  const segments: RoadSegment[] = [];
+  const adjacency = new Map<number, RoadEdge[]>();
+  const grid = new Map<string, number[]>();
+
+  for (const { refs, oneway, highway, name } of ways) {
+    for (let i = 1; i < refs.length; i++) {
+      const from = allNodes.get(refs[i - 1]!);
+      const to = allNodes.get(refs[i]!);
+      if (!from || !to || from.id === to.id) continue;
+
+      nodes.set(from.id, from);
+      nodes.set(to.id, to);
+
+      const segment: RoadSegment = {
+        id: segments.length,
+        from: from.id,
+        to: to.id,
+        lengthMeters: calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude),
+        oneway,
+        highway,
+        name,
+      };
+      segments.push(segment);
+
+      addEdge(adjacency, from.id, { to: to.id, segmentId: segment.id, lengthMeters: segment.lengthMeters });
+      if (!oneway) {
+        addEdge(adjacency, to.id, { to: from.id, segmentId: segment.id, lengthMeters: segment.lengthMeters });
+      }
+
+      indexSegment(grid, segment.id, from, to);
+    }
+  }
+
+  return { nodes, segments, adjacency, grid };
+}
+
+// Segments within `radiusMeters` of a point, nearest first
+export function findNearbySegments(
+  graph: RoadGraph,
+  latitude: number,
+  longitude: number,
+  radiusMeters: number,
+  limit: number
+): SegmentProjection[] {
+  const latRadius = toDeg(radiusMeters / EARTH_RADIUS_METERS);
+  const lngRadius = latRadius / Math.max(Math.cos(toRad(latitude)), 0.01);
+
+  const minX = cellIndex(longitude - lngRadius);
+  const maxX = cellIndex(longitude + lngRadius);
+  const minY = cellIndex(latitude - latRadius);
+  const maxY = cellIndex(latitude + latRadius);
+
+  const seen = new Set<number>();
+  const results: SegmentProjection[] = [];
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      for (const segmentId of graph.grid.get(`${x}:${y}`) ?? []) {
+        if (seen.has(segmentId)) continue;
+        seen.add(segmentId);
+
+        const projection = projectOntoSegment(graph, segmentId, latitude, longitude);
+        if (projection.distanceMeters <= radiusMeters) {
+          results.push(projection);
+        }
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.distanceMeters - b.distanceMeters).slice(0, limit);
+}
+
+export function projectOntoSegment(
+  graph: RoadGraph,
+  segmentId: number,
+  latitude: number,
+  longitude: number
+): SegmentProjection {
+  const segment = graph.segments[segmentId]!;
+  const from = graph.nodes.get(segment.from)!;
+  const to = graph.nodes.get(segment.to)!;
+
+  // Local equirectangular projection centred on the query point
+  const cosLat = Math.cos(toRad(latitude));
+  const ax = toRad(from.longitude - longitude) * cosLat * EARTH_RADIUS_METERS;
+  const ay = toRad(from.latitude - latitude) * EARTH_RADIUS_METERS;
+  const bx = toRad(to.longitude - longitude) * cosLat * EARTH_RADIUS_METERS;
+  const by = toRad(to.latitude - latitude) * EARTH_RADIUS_METERS;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const offset = lengthSquared > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+
+  const px = ax + offset * dx;
+  const py = ay + offset * dy;
+
+  return {
+    segmentId,
+    offset,
+    latitude: from.latitude + offset * (to.latitude - from.latitude),
+    longitude: from.longitude + offset * (to.longitude - from.longitude),
+    distanceMeters: Math.sqrt(px * px + py * py),
+  };
+}
+
+function addEdge(adjacency: Map<number, RoadEdge[]>, nodeId: number, edge: RoadEdge): void {
+  const edges = adjacency.get(nodeId);
+  if (edges) {
+    edges.push(edge);
+  } else {
+    adjacency.set(nodeId, [edge]);
+  }
+}
+
+function indexSegment(grid: Map<string, number[]>, segmentId: number, from: RoadNode, to: RoadNode): void {
+  const minX = cellIndex(Math.min(from.longitude, to.longitude));
+  const maxX = cellIndex(Math.max(from.longitude, to.longitude));
+  const minY = cellIndex(Math.min(from.latitude, to.latitude));
+  const maxY = cellIndex(Math.max(from.latitude, to.latitude));
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      const key = `${x}:${y}`;
+      const cell = grid.get(key);
+      if (cell) {
+        cell.push(segmentId);
+      } else {
+        grid.set(key, [segmentId]);
+      }
+    }
+  }
+}
+
+function cellIndex(degrees: number): number {
+  return Math.floor(degrees / GRID_CELL_DEGREES);
+}
+
+function readAttribute(attrs: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attrs);
+  return match ? match[1]! : null;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,117 @@
+import { config } from '../config/env.js';
+import { jobLogger } from '../utils/logger.js';
+import { distanceBetween } from '../utils/geo.js';
+import type { LatLng } from '../utils/geo.js';
+import type { Coordinate } from '../utils/geometry.js';
+
+// Driving distance between two points for manually entered trips. A routing
+// engine is used when one is configured; otherwise, or when it fails, the
+// straight-line distance is stretched by a detour factor.
+
+export interface RouteEstimate {
+  distanceMeters: number;
+  durationSeconds: number;
+  // Road geometry, [longitude, latitude]; null for straight-line estimates
+  coordinates: Coordinate[] | null;
+  engine: string;
+}
+
+export interface RoutingEngine {
+  name: string;
+  route(from: LatLng, to: LatLng): Promise<RouteEstimate | null>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Average speed assumed for straight-line estimates (~30 mph)
+const FALLBACK_SPEED_MPS = 13.4;
+
+let cachedEngine: RoutingEngine | null | undefined;
+
+export function getRoutingEngine(): RoutingEngine | null {
+  if (cachedEngine !== undefined) return cachedEngine;
+
+  const { provider, osrmUrl } = config.routing;
+
+  if (provider === 'osrm' && osrmUrl) {
+    cachedEngine = createOsrmEngine({ baseUrl: osrmUrl });
+  } else {
+    if (provider !== 'none') {
+      jobLogger.warn({ provider }, 'Routing engine is not fully configured; using straight-line estimates');
+    }
+    cachedEngine = null;
+  }
+
+  return cachedEngine;
+}
+
+export async function estimateRoute(from: LatLng, to: LatLng): Promise<RouteEstimate> {
+  const engine = getRoutingEngine();
+
+  if (engine) {
+    try {
+      const route = await engine.route(from, to);
+      if (route) return route;
+    } catch (error) {
+      jobLogger.warn({ engine: engine.name, error: error instanceof Error ? error.message : error }, 'Routing failed; using straight-line estimate');
+    }
+  }
+
+  return straightLineEstimate(from, to, config.routing.detourFactor);
+}
+
+export function straightLineEstimate(from: LatLng, to: LatLng, detourFactor: number): RouteEstimate {
+  const distanceMeters = Math.round(distanceBetween(from, to) * detourFactor);
+
+  return {
+    distanceMeters,
+    durationSeconds: Math.round(distanceMeters / FALLBACK_SPEED_MPS),
+    coordinates: null,
+    engine: 'straight_line',
+  };
+}
+
+// ============================================================================
+// Engines
+// ============================================================================
+
+// OSRM /route service, public demo server or self-hosted
+export function createOsrmEngine(options: { baseUrl: string }): RoutingEngine {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'osrm',
+
+    async route(from, to) {
+      const points = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+      const params = new URLSearchParams({ overview: 'full', geometries: 'geojson' });
+
+      const response = await fetch(`${baseUrl}/route/v1/driving/${points}?${params}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OSRM request failed with ${response.status}`);
+      }
+
+      const data = await response.json() as {
+        code: string;
+        routes?: Array<{
+          distance: number;
+          duration: number;
+          geometry?: { coordinates: Coordinate[] };
+        }>;
+      };
+
+      const route = data.code === 'Ok' ? data.routes?.[0] : undefined;
+      if (!route) return null;
+
+      return {
+        distanceMeters: Math.round(route.distance),
+        durationSeconds: Math.round(route.duration),
+        coordinates: route.geometry?.coordinates ?? null,
+        engine: 'osrm',
+      };
+    },
+  };
+}
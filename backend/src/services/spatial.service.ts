@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { BadRequestError } from '../utils/errors.js';
+import type { BoundingBox, GeoPoint, TripSpatialFilters } from '../types/index.js';
+
+// PostGIS queries over the generated geometry columns: trips.start_point,
+// trips.end_point and saved_locations.location are geographies (distances in
+// meters), trips.path is the high-resolution route as a 4326 line. All of
+// them are GiST indexed.
+
+export type TripEndpoint = 'start' | 'end' | 'any';
+
+export interface NearestSavedLocation {
+  id: string;
+  name: string;
+  address: string;
+  locationType: string;
+  radiusMeters: number;
+  distanceMeters: number;
+}
+
+// Trips that started, ended or either within radiusMeters of the point, as a
+// condition on trips t
+export function tripNearCondition(
+  point: GeoPoint,
+  radiusMeters: number,
+  endpoint: TripEndpoint = 'any'
+): Prisma.Sql {
+  const target = geographyPoint(point);
+  const starts = Prisma.sql`ST_DWithin(t.start_point, ${target}, ${radiusMeters})`;
+  const ends = Prisma.sql`ST_DWithin(t.end_point, ${target}, ${radiusMeters})`;
+
+  return endpoint === 'start'
+    ? starts
+    : endpoint === 'end'
+      ? ends
+      : Prisma.sql`(${starts} OR ${ends})`;
+}
+
+// Trips whose route passes through the area, as a condition on trips t. Trips
+// without a route (manual entries, or not yet processed) match when either
+// endpoint is inside.
+export function tripInAreaCondition(
+  area: { bbox: BoundingBox } | { polygon: Array<[number, number]> }
+): Prisma.Sql {
+  const shape = 'bbox' in area ? envelope(area.bbox) : polygon(area.polygon);
+
+  return Prisma.sql`(
+    ST_Intersects(t.path, ${shape})
+    OR (t.path IS NULL AND (
+      ST_Intersects(t.start_point::geometry, ${shape})
+      OR ST_Intersects(t.end_point::geometry, ${shape})
+    ))
+  )`;
+}
+
+// Closest saved location to a point. With withinRadius only locations whose
+// own radius covers the point are considered.
+export async function findNearestSavedLocation(
+  userId: string,
+  point: GeoPoint,
+  options: { withinRadius?: boolean; maxDistanceMeters?: number } = {}
+): Promise<NearestSavedLocation | null> {
+  const target = geographyPoint(point);
+
+  const conditions = [Prisma.sql`l.user_id = ${userId}::uuid`];
+  if (options.withinRadius) {
+    conditions.push(Prisma.sql`ST_DWithin(l.location, ${target}, l.radius_meters)`);
+  }
+  if (options.maxDistanceMeters !== undefined) {
+    conditions.push(Prisma.sql`ST_DWithin(l.location, ${target}, ${options.maxDistanceMeters})`);
+  }
+
+  const rows = await prisma.$queryRaw<Array<Omit<NearestSavedLocation, 'distanceMeters'> & { distance_meters: number }>>`
+    SELECT
+      l.id,
+      l.name,
+      l.address,
+      l.location_type::text AS "locationType",
+      l.radius_meters AS "radiusMeters",
+      ST_Distance(l.location, ${target})::float8 AS distance_meters
+    FROM saved_locations l
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY l.location <-> ${target}
+    LIMIT 1
+  `;
+
+  const row = rows[0];
+  if (!row) return null;
+
+  const { distance_meters, ...location } = row;
+  return { ...location, distanceMeters: Math.round(distance_meters * 10) / 10 };
+}
+
+// listTrips condition for the spatial query parameters, or null when none
+// are set. It runs inside the paged query so the index does the filtering.
+export function buildSpatialTripCondition(filters: TripSpatialFilters): Prisma.Sql | null {
+  if (filters.bbox && filters.polygon) {
+    throw new BadRequestError('Use either bbox or polygon, not both');
+  }
+
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.near) {
+    conditions.push(tripNearCondition(filters.near, filters.radius ?? 500, filters.nearEndpoint));
+  }
+  if (filters.bbox) conditions.push(tripInAreaCondition({ bbox: filters.bbox }));
+  if (filters.polygon) conditions.push(tripInAreaCondition({ polygon: filters.polygon }));
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : null;
+}
+
+function geographyPoint(point: GeoPoint): Prisma.Sql {
+  return Prisma.sql`ST_SetSRID(ST_MakePoint(${point.longitude}, ${point.latitude}), 4326)::geography`;
+}
+
+function envelope(bbox: BoundingBox): Prisma.Sql {
+  return Prisma.sql`ST_MakeEnvelope(${bbox.minLongitude}, ${bbox.minLatitude}, ${bbox.maxLongitude}, ${bbox.maxLatitude}, 4326)`;
+}
+
+function polygon(vertices: Array<[number, number]>): Prisma.Sql {
+  const ring = [...vertices];
+  const [firstLng, firstLat] = ring[0]!;
+  const [lastLng, lastLat] = ring[ring.length - 1]!;
+  if (firstLng !== lastLng || firstLat !== lastLat) ring.push([firstLng, firstLat]);
+
+  const geojson = JSON.stringify({ type: 'Polygon', coordinates: [ring] });
+  // Self-intersecting rings are repaired rather than rejected
+  return Prisma.sql`ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(${geojson}), 4326))`;
+}
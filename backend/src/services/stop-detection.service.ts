@@ -0,0 +1,238 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import { distanceBetween } from '../utils/geo.js';
+import { loadTripWaypoints } from './waypoint-storage.service.js';
+import type { TripWaypoint, LocationType, Prisma } from '@prisma/client';
+
+// Detects places where the vehicle stopped during a trip by clustering
+// consecutive slow or stationary waypoints.
+
+export interface StopDetectionOptions {
+  // Waypoints slower than this can start a stop
+  maxSpeedMps: number;
+  // Waypoints within this distance of the cluster centre belong to the stop
+  radiusMeters: number;
+  // Clusters shorter than this are traffic, not stops
+  minDurationSeconds: number;
+  // Fixes less accurate than this are ignored
+  maxHorizontalAccuracyMeters: number;
+}
+
+export interface DetectedStop {
+  latitude: number;
+  longitude: number;
+  arrivalTime: Date;
+  departureTime: Date;
+  durationSeconds: number;
+  waypointIds: string[];
+}
+
+export interface TripStop {
+  sequence: number;
+  latitude: number;
+  longitude: number;
+  arrivalTime: string;
+  departureTime: string;
+  durationSeconds: number;
+  firstWaypointSequence: number;
+  lastWaypointSequence: number;
+  nearestLocation: {
+    id: string;
+    name: string;
+    locationType: LocationType;
+    distanceMeters: number;
+    isWithinRadius: boolean;
+  } | null;
+}
+
+export const DEFAULT_STOP_DETECTION_OPTIONS: StopDetectionOptions = {
+  maxSpeedMps: 1,
+  radiusMeters: 50,
+  minDurationSeconds: 60,
+  maxHorizontalAccuracyMeters: 65,
+};
+
+type StopPoint = Pick<
+  TripWaypoint,
+  'id' | 'latitude' | 'longitude' | 'timestamp' | 'speedMps' | 'horizontalAccuracy'
+>;
+
+export function detectStops(
+  waypoints: StopPoint[],
+  options: Partial<StopDetectionOptions> = {}
+): DetectedStop[] {
+  const opts = { ...DEFAULT_STOP_DETECTION_OPTIONS, ...options };
+
+  const points = waypoints
+    .filter((wp) => wp.horizontalAccuracy === null || Number(wp.horizontalAccuracy) <= opts.maxHorizontalAccuracyMeters)
+    .map((wp) => ({
+      id: wp.id,
+      latitude: Number(wp.latitude),
+      longitude: Number(wp.longitude),
+      timestamp: wp.timestamp,
+      speedMps: wp.speedMps !== null ? Number(wp.speedMps) : null,
+    }));
+
+  const stops: DetectedStop[] = [];
+  let i = 0;
+
+  while (i < points.length) {
+    const start = points[i]!;
+    const prev = points[i - 1];
+    const speed = start.speedMps ?? impliedSpeed(prev, start);
+
+    if (speed === null || speed >= opts.maxSpeedMps) {
+      i++;
+      continue;
+    }
+
+    // Grow the cluster while points stay near its running centroid
+    let latSum = start.latitude;
+    let lngSum = start.longitude;
+    let j = i + 1;
+    while (j < points.length) {
+      const centroid = { latitude: latSum / (j - i), longitude: lngSum / (j - i) };
+      if (distanceBetween(centroid, points[j]!) > opts.radiusMeters) break;
+      latSum += points[j]!.latitude;
+      lngSum += points[j]!.longitude;
+      j++;
+    }
+
+    const end = points[j - 1]!;
+    const durationSeconds = Math.round((end.timestamp.getTime() - start.timestamp.getTime()) / 1000);
+
+    // The stationary head and tail of a trip are its origin and destination
+    const touchesTripEnds = i === 0 || j === points.length;
+
+    if (durationSeconds >= opts.minDurationSeconds && !touchesTripEnds) {
+      stops.push({
+        latitude: latSum / (j - i),
+        longitude: lngSum / (j - i),
+        arrivalTime: start.timestamp,
+        departureTime: end.timestamp,
+        durationSeconds,
+        waypointIds: points.slice(i, j).map((p) => p.id),
+      });
+    }
+
+    i = j;
+  }
+
+  return stops;
+}
+
+// Re-runs detection for a trip and rewrites the isStop flags. The arrival
+// waypoint of each stop carries its duration. Works on waypoint rows, so a
+// packed trip has to be unpacked first.
+export async function recordTripStops(
+  tripId: string,
+  tx?: Prisma.TransactionClient
+): Promise<DetectedStop[]> {
+  if (!tx) {
+    return prisma.$transaction((client) => recordTripStops(tripId, client));
+  }
+
+  const waypoints = await tx.tripWaypoint.findMany({
+    where: { tripId },
+    orderBy: { sequenceNumber: 'asc' },
+  });
+
+  const stops = detectStops(waypoints);
+
+  await tx.tripWaypoint.updateMany({
+    where: { tripId, OR: [{ isStop: true }, { stopDurationSeconds: { not: null } }] },
+    data: { isStop: false, stopDurationSeconds: null },
+  });
+
+  for (const stop of stops) {
+    await tx.tripWaypoint.updateMany({
+      where: { id: { in: stop.waypointIds } },
+      data: { isStop: true },
+    });
+    await tx.tripWaypoint.update({
+      where: { id: stop.waypointIds[0]! },
+      data: { stopDurationSeconds: stop.durationSeconds },
+    });
+  }
+
+  tripLogger.debug({ tripId, stopCount: stops.length }, 'Trip stops recorded');
+
+  return stops;
+}
+
+export async function getTripStops(userId: string, tripId: string): Promise<TripStop[]> {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, userId, deletedAt: null },
+    select: { id: true },
+  });
+
+  if (!trip) {
+    throw new NotFoundError('Trip');
+  }
+
+  const [waypoints, locations] = await Promise.all([
+    loadTripWaypoints(tripId),
+    prisma.savedLocation.findMany({
+      where: { userId },
+      select: { id: true, name: true, locationType: true, latitude: true, longitude: true, radiusMeters: true },
+    }),
+  ]);
+
+  // Each stop starts at the waypoint carrying its duration
+  const groups: TripWaypoint[][] = [];
+  for (const wp of waypoints.filter((w) => w.isStop)) {
+    const current = groups[groups.length - 1];
+    if (wp.stopDurationSeconds !== null || !current) {
+      groups.push([wp]);
+    } else {
+      current.push(wp);
+    }
+  }
+
+  return groups.map((group, index) => {
+    const first = group[0]!;
+    const last = group[group.length - 1]!;
+    const latitude = group.reduce((sum, wp) => sum + Number(wp.latitude), 0) / group.length;
+    const longitude = group.reduce((sum, wp) => sum + Number(wp.longitude), 0) / group.length;
+
+    let nearestLocation: TripStop['nearestLocation'] = null;
+    for (const location of locations) {
+      const distanceMeters = distanceBetween(
+        { latitude, longitude },
+        { latitude: Number(location.latitude), longitude: Number(location.longitude) }
+      );
+      if (!nearestLocation || distanceMeters < nearestLocation.distanceMeters) {
+        nearestLocation = {
+          id: location.id,
+          name: location.name,
+          locationType: location.locationType,
+          distanceMeters: Math.round(distanceMeters),
+          isWithinRadius: distanceMeters <= location.radiusMeters,
+        };
+      }
+    }
+
+    return {
+      sequence: index + 1,
+      latitude,
+      longitude,
+      arrivalTime: first.timestamp.toISOString(),
+      departureTime: last.timestamp.toISOString(),
+      durationSeconds:
+        first.stopDurationSeconds ?? Math.round((last.timestamp.getTime() - first.timestamp.getTime()) / 1000),
+      firstWaypointSequence: first.sequenceNumber,
+      lastWaypointSequence: last.sequenceNumber,
+      nearestLocation,
+    };
+  });
+}
+
+function impliedSpeed(
+  prev: { latitude: number; longitude: number; timestamp: Date } | undefined,
+  curr: { latitude: number; longitude: number; timestamp: Date }
+): number | null {
+  if (!prev) return null;
+  const seconds = (curr.timestamp.getTime() - prev.timestamp.getTime()) / 1000;
+  return seconds > 0 ? distanceBetween(prev, curr) / seconds : null;
+}
@@ -0,0 +1,271 @@
+import { prisma } from '../config/database.js';
+import { METERS_TO_MILES, findContainingLocation } from '../utils/geo.js';
+import { addDaysToDateKey, startOfLocalDay } from '../utils/time.js';
+import { loadWaypointsForTrips } from './waypoint-storage.service.js';
+import type {
+  DailyTimeline,
+  TimelineEntry,
+  TimelineExpenseEntry,
+  TimelinePlace,
+  TimelineVisitEntry,
+} from '../types/index.js';
+
+// One local day as the driver lived it: trips in order with the stops made
+// during them, the time spent between trips, and the day's expenses and
+// earnings. Trips crossing midnight appear on both days, and their miles
+// and driving time are split between the days by the time driven on each.
+
+interface PlaceCandidate {
+  id: string;
+  name: string;
+  locationType: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+type Point = { latitude: number; longitude: number };
+
+export async function getDailyTimeline(userId: string, date: string): Promise<DailyTimeline> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { timezone: true } });
+  const dayStart = startOfLocalDay(date, user.timezone);
+  const dayEnd = startOfLocalDay(addDaysToDateKey(date, 1), user.timezone);
+
+  // Expense and earning dates are calendar dates stored at UTC midnight
+  const calendarDate = new Date(`${date}T00:00:00Z`);
+
+  const [trips, expenses, earnings, savedLocations] = await Promise.all([
+    prisma.trip.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        startTime: { lt: dayEnd },
+        OR: [{ endTime: null }, { endTime: { gte: dayStart } }],
+      },
+      select: {
+        id: true,
+        status: true,
+        category: true,
+        userVerified: true,
+        vehicleId: true,
+        purpose: true,
+        startTime: true,
+        endTime: true,
+        startLatitude: true,
+        startLongitude: true,
+        startPlaceName: true,
+        startAddress: true,
+        endLatitude: true,
+        endLongitude: true,
+        endPlaceName: true,
+        endAddress: true,
+        distanceMeters: true,
+        durationSeconds: true,
+      },
+      orderBy: { startTime: 'asc' },
+    }),
+    prisma.expense.findMany({
+      where: { userId, deletedAt: null, expenseDate: calendarDate },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.earning.findMany({
+      where: { userId, earningsDate: calendarDate },
+      orderBy: { platform: 'asc' },
+    }),
+    prisma.savedLocation.findMany({
+      where: { userId },
+      select: { id: true, name: true, locationType: true, latitude: true, longitude: true, radiusMeters: true },
+    }),
+  ]);
+
+  const places: PlaceCandidate[] = savedLocations.map((l) => ({
+    ...l,
+    latitude: Number(l.latitude),
+    longitude: Number(l.longitude),
+  }));
+
+  // Each stop is marked by its arrival waypoint, which carries the duration
+  const waypoints = await loadWaypointsForTrips(trips.map((t) => t.id));
+  const stopWaypoints = [...waypoints.values()]
+    .flat()
+    .filter((wp) => wp.stopDurationSeconds !== null && wp.timestamp >= dayStart && wp.timestamp < dayEnd);
+
+  const entries: TimelineEntry[] = [];
+  const tripEnds = new Map<string, string | null>();
+
+  trips.forEach((trip, index) => {
+    const start = { latitude: Number(trip.startLatitude), longitude: Number(trip.startLongitude) };
+    const end = trip.endLatitude !== null && trip.endLongitude !== null
+      ? { latitude: Number(trip.endLatitude), longitude: Number(trip.endLongitude) }
+      : null;
+
+    // The day opens wherever the first trip left from
+    if (index === 0 && trip.startTime > dayStart) {
+      entries.push(betweenTrips(places, start, trip.startPlaceName ?? trip.startAddress, null, trip.startTime));
+    }
+
+    entries.push({
+      type: 'trip',
+      startTime: trip.startTime.toISOString(),
+      endTime: trip.endTime?.toISOString() ?? null,
+      tripId: trip.id,
+      status: trip.status,
+      category: trip.category,
+      classified: trip.userVerified,
+      distanceMeters: trip.distanceMeters,
+      durationSeconds: trip.durationSeconds,
+      startPlace: trip.startPlaceName ?? trip.startAddress,
+      endPlace: trip.endPlaceName ?? trip.endAddress,
+      vehicleId: trip.vehicleId,
+      purpose: trip.purpose,
+    });
+    tripEnds.set(trip.id, trip.endTime?.toISOString() ?? null);
+
+    if (!end || !trip.endTime || trip.endTime >= dayEnd) return;
+
+    const next = trips[index + 1];
+    entries.push(betweenTrips(places, end, trip.endPlaceName ?? trip.endAddress, trip.endTime, next?.startTime ?? null));
+  });
+
+  for (const waypoint of stopWaypoints) {
+    const point = { latitude: Number(waypoint.latitude), longitude: Number(waypoint.longitude) };
+    const durationSeconds = waypoint.stopDurationSeconds!;
+
+    entries.push({
+      type: 'stop',
+      startTime: waypoint.timestamp.toISOString(),
+      endTime: new Date(waypoint.timestamp.getTime() + durationSeconds * 1000).toISOString(),
+      tripId: waypoint.tripId,
+      durationSeconds,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      place: toPlace(findContainingLocation(places, point)),
+    });
+  }
+
+  const expenseEntries: TimelineExpenseEntry[] = expenses.map((expense) => ({
+    type: 'expense',
+    startTime: expense.tripId ? tripEnds.get(expense.tripId) ?? null : null,
+    expenseId: expense.id,
+    tripId: expense.tripId,
+    category: expense.category,
+    amount: Number(expense.amount),
+    currency: expense.currency,
+    vendorName: expense.vendorName,
+    description: expense.description,
+  }));
+  entries.push(...expenseEntries);
+
+  let netEarnings = 0;
+  for (const earning of earnings) {
+    // Tolls reimbursed offset a toll expense, so they are not income
+    const net = Number(earning.grossEarnings) + Number(earning.tips) + Number(earning.bonuses) - Number(earning.platformFees);
+    netEarnings += net;
+
+    entries.push({
+      type: 'earning',
+      startTime: null,
+      earningId: earning.id,
+      platform: earning.platform === 'other' && earning.platformOther ? earning.platformOther : earning.platform,
+      grossEarnings: Number(earning.grossEarnings),
+      tips: Number(earning.tips),
+      netEarnings: round(net),
+      tripsCompleted: earning.tripsCompleted,
+    });
+  }
+
+  let distanceMeters = 0;
+  let drivingSeconds = 0;
+  const metersByCategory: Record<string, number> = {};
+  for (const trip of trips) {
+    const share = shareOfDay(trip, dayStart, dayEnd);
+    distanceMeters += trip.distanceMeters * share;
+    drivingSeconds += trip.durationSeconds * share;
+    metersByCategory[trip.category] = (metersByCategory[trip.category] ?? 0) + trip.distanceMeters * share;
+  }
+
+  const milesByCategory: Record<string, number> = {};
+  for (const [category, meters] of Object.entries(metersByCategory)) {
+    milesByCategory[category] = round(meters * METERS_TO_MILES);
+  }
+
+  return {
+    date,
+    timezone: user.timezone,
+    dayStart: dayStart.toISOString(),
+    dayEnd: dayEnd.toISOString(),
+    entries: sortEntries(entries),
+    totals: {
+      trips: trips.length,
+      miles: round(distanceMeters * METERS_TO_MILES),
+      drivingSeconds: Math.round(drivingSeconds),
+      milesByCategory,
+      stops: stopWaypoints.length,
+      visits: entries.filter((e) => e.type === 'visit').length,
+      expenses: round(expenseEntries.reduce((sum, e) => sum + e.amount, 0)),
+      netEarnings: round(netEarnings),
+    },
+    unclassifiedTrips: trips.filter((t) => !t.userVerified && t.status !== 'recording').length,
+  };
+}
+
+// Fraction of a trip's distance and driving time that falls on the day,
+// assuming an even pace. A trip without a usable end time counts in full on
+// the day it started.
+function shareOfDay(trip: { startTime: Date; endTime: Date | null }, dayStart: Date, dayEnd: Date): number {
+  const start = trip.startTime.getTime();
+  const end = trip.endTime?.getTime() ?? null;
+
+  if (end === null || end <= start) {
+    return start >= dayStart.getTime() ? 1 : 0;
+  }
+
+  const overlap = Math.min(end, dayEnd.getTime()) - Math.max(start, dayStart.getTime());
+  return Math.max(0, overlap) / (end - start);
+}
+
+function betweenTrips(
+  places: PlaceCandidate[],
+  point: Point,
+  placeName: string | null,
+  from: Date | null,
+  to: Date | null
+): TimelineVisitEntry {
+  const place = toPlace(findContainingLocation(places, point));
+
+  return {
+    type: place ? 'visit' : 'gap',
+    startTime: from?.toISOString() ?? null,
+    endTime: to?.toISOString() ?? null,
+    durationSeconds: from && to ? Math.round((to.getTime() - from.getTime()) / 1000) : null,
+    place,
+    placeName: place?.name ?? placeName,
+  };
+}
+
+function toPlace(location: PlaceCandidate | null): TimelinePlace | null {
+  return location
+    ? { savedLocationId: location.id, name: location.name, locationType: location.locationType }
+    : null;
+}
+
+// Timed entries in order, then the untimed ones. An open-ended visit at the
+// start of the day sorts first; a trip sorts before the stops made during it.
+function sortEntries(entries: TimelineEntry[]): TimelineEntry[] {
+  const key = (entry: TimelineEntry): number => {
+    if (entry.startTime) return new Date(entry.startTime).getTime();
+    if (entry.type === 'visit' || entry.type === 'gap') {
+      return entry.endTime ? -Infinity : Infinity;
+    }
+    return Infinity;
+  };
+
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => key(a.entry) - key(b.entry) || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,214 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { distanceBetween } from '../utils/geo.js';
+import type { GpsFix } from './gps-filter.service.js';
+import type { Trip } from '@prisma/client';
+
+// Finds physically impossible stretches in a recorded track: teleports,
+// clocks running backwards, repeated timestamps and long silent gaps. Bad
+// fixes are dropped or repaired before statistics are computed, and the
+// trip is flagged so the user can review it. Flagged trips stay out of
+// reports until the user confirms them.
+
+export type TripAnomalyType = 'impossible_speed' | 'time_reversal' | 'duplicate_timestamp' | 'large_gap';
+
+export const TRIP_ANOMALY_TYPES: TripAnomalyType[] = [
+  'impossible_speed',
+  'time_reversal',
+  'duplicate_timestamp',
+  'large_gap',
+];
+
+export interface TripAnomaly {
+  type: TripAnomalyType;
+  // Position of the fix in recorded order
+  index: number;
+  timestamp: string;
+  // Fixes are excluded, implausible reported speeds are cleared, gaps are
+  // only flagged since nothing was recorded to repair them with
+  action: 'excluded' | 'speed_cleared' | 'flagged';
+  speedMps?: number;
+  gapSeconds?: number;
+  distanceMeters?: number;
+}
+
+export interface AnomalyDetectionOptions {
+  // Faster than any road vehicle; segments above this are GPS errors
+  maxSpeedMps: number;
+  // Silences longer than this while the vehicle moved are flagged
+  maxGapSeconds: number;
+  // Gaps covering less ground than this are parking, not lost signal
+  minGapDistanceMeters: number;
+}
+
+export interface AnomalyDetectionResult {
+  points: GpsFix[];
+  anomalies: TripAnomaly[];
+  flags: TripAnomalyType[];
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyDetectionOptions = {
+  maxSpeedMps: 90, // ~200 mph
+  maxGapSeconds: 600,
+  minGapDistanceMeters: 1000,
+};
+
+// Detail kept on the trip; counts cover everything found
+const MAX_STORED_ANOMALIES = 50;
+
+// Trips that may appear in reports: nothing flagged, or reviewed by the user
+export const REPORTABLE_TRIP_FILTER: Prisma.TripWhereInput = {
+  OR: [
+    { anomalyFlags: { isEmpty: true } },
+    { anomaliesConfirmedAt: { not: null } },
+  ],
+};
+
+export function detectTripAnomalies(
+  fixes: GpsFix[],
+  options: Partial<AnomalyDetectionOptions> = {}
+): AnomalyDetectionResult {
+  const opts = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const anomalies: TripAnomaly[] = [];
+  const accepted: Array<{ fix: GpsFix; index: number }> = [];
+
+  const plausible = (from: GpsFix, to: GpsFix | undefined): boolean => {
+    if (!to) return false;
+    const dtSeconds = (to.timestamp.getTime() - from.timestamp.getTime()) / 1000;
+    return dtSeconds > 0 && distanceBetween(from, to) / dtSeconds <= opts.maxSpeedMps;
+  };
+
+  for (let i = 0; i < fixes.length; i++) {
+    let fix = fixes[i]!;
+    const timestamp = fix.timestamp.toISOString();
+
+    if (fix.speedMps !== null && fix.speedMps > opts.maxSpeedMps) {
+      anomalies.push({ type: 'impossible_speed', index: i, timestamp, action: 'speed_cleared', speedMps: round(fix.speedMps) });
+      fix = { ...fix, speedMps: null };
+    }
+
+    const prev = accepted[accepted.length - 1];
+    if (!prev) {
+      accepted.push({ fix, index: i });
+      continue;
+    }
+
+    const dtSeconds = (fix.timestamp.getTime() - prev.fix.timestamp.getTime()) / 1000;
+
+    if (dtSeconds < 0) {
+      anomalies.push({ type: 'time_reversal', index: i, timestamp, action: 'excluded', gapSeconds: dtSeconds });
+      continue;
+    }
+
+    const distanceMeters = distanceBetween(prev.fix, fix);
+
+    if (dtSeconds === 0) {
+      // A resent fix is harmless; two positions at one instant are not
+      if (distanceMeters > 0) {
+        anomalies.push({ type: 'duplicate_timestamp', index: i, timestamp, action: 'excluded', distanceMeters: round(distanceMeters) });
+      }
+      continue;
+    }
+
+    const speedMps = distanceMeters / dtSeconds;
+
+    if (speedMps > opts.maxSpeedMps) {
+      // A bad first fix makes every later one look impossible; drop the
+      // first fix instead when the track carries on from this one
+      if (accepted.length === 1 && plausible(fix, fixes[i + 1])) {
+        anomalies.push({
+          type: 'impossible_speed',
+          index: prev.index,
+          timestamp: prev.fix.timestamp.toISOString(),
+          action: 'excluded',
+          speedMps: round(speedMps),
+        });
+        accepted[0] = { fix, index: i };
+        continue;
+      }
+
+      anomalies.push({ type: 'impossible_speed', index: i, timestamp, action: 'excluded', speedMps: round(speedMps) });
+      continue;
+    }
+
+    if (dtSeconds > opts.maxGapSeconds && distanceMeters > opts.minGapDistanceMeters) {
+      anomalies.push({
+        type: 'large_gap',
+        index: i,
+        timestamp,
+        action: 'flagged',
+        gapSeconds: Math.round(dtSeconds),
+        distanceMeters: Math.round(distanceMeters),
+      });
+    }
+
+    accepted.push({ fix, index: i });
+  }
+
+  // Too little left to stand for the trip; keep the recording as it was
+  if (accepted.length < 2 && fixes.length >= 2) {
+    return { points: fixes.map((f) => ({ ...f })), anomalies, flags: flagsOf(anomalies) };
+  }
+
+  return {
+    points: accepted.map((a) => a.fix),
+    anomalies,
+    flags: flagsOf(anomalies),
+  };
+}
+
+// Trip columns for a detection result. Recomputed statistics need a fresh
+// review, so any earlier confirmation is cleared.
+export function anomalyFields(result: AnomalyDetectionResult) {
+  const counts = Object.fromEntries(
+    result.flags.map((type) => [type, result.anomalies.filter((a) => a.type === type).length])
+  );
+
+  return {
+    anomalyFlags: result.flags,
+    anomalyDetails: result.anomalies.length > 0
+      ? ({ counts, anomalies: result.anomalies.slice(0, MAX_STORED_ANOMALIES) } as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull,
+    anomaliesConfirmedAt: null,
+  };
+}
+
+// The user has checked a flagged trip and accepts its figures
+export async function confirmTripAnomalies(userId: string, tripId: string): Promise<Trip> {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!trip) {
+    throw new NotFoundError('Trip');
+  }
+
+  if (trip.anomalyFlags.length === 0) {
+    throw new BadRequestError('Trip has no anomalies to confirm');
+  }
+
+  if (trip.anomaliesConfirmedAt) {
+    return trip;
+  }
+
+  tripLogger.info({ tripId, userId, flags: trip.anomalyFlags }, 'Trip anomalies confirmed');
+
+  return prisma.trip.update({
+    where: { id: tripId },
+    data: { anomaliesConfirmedAt: new Date() },
+  });
+}
+
+function flagsOf(anomalies: TripAnomaly[]): TripAnomalyType[] {
+  return TRIP_ANOMALY_TYPES.filter((type) => anomalies.some((a) => a.type === type));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,273 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { distanceBetween, findContainingLocation } from '../utils/geo.js';
+import type { LatLng } from '../utils/geo.js';
+import { getLocalTimeParts, timeColumnToMinutes } from '../utils/time.js';
+import { buildCommutePlaces, isHomeWorkCommute, COMMUTE_RULE_EXPLANATIONS } from './commute.service.js';
+import type { CommutePlace } from './commute.service.js';
+import type { Trip, TripCategory, UserSettings } from '@prisma/client';
+
+// Rule-based trip classifier. Each rule that fires casts a weighted vote for
+// a category; votes are summed per category and the winner's confidence is
+// discounted by how much the other rules disagree. Trips between home and
+// the regular workplace are commutes under IRS rules and override the vote.
+
+export type ClassificationRule =
+  | 'saved_location_end'
+  | 'saved_location_start'
+  | 'history'
+  | 'work_hours'
+  | 'outside_work_hours'
+  | 'default_category'
+  | 'commute';
+
+export interface ClassificationSignal {
+  rule: ClassificationRule;
+  category: TripCategory;
+  confidence: number;
+}
+
+export interface ClassificationInput {
+  startTime: Date;
+  start: LatLng;
+  end: LatLng | null;
+  timezone: string;
+  settings: Pick<
+    UserSettings,
+    'workHoursStart' | 'workHoursEnd' | 'workDays' | 'classifyWorkHoursBusiness' | 'defaultTripCategory'
+  > | null;
+  savedLocations: Array<LatLng & { radiusMeters: number; autoClassifyAs: TripCategory | null }>;
+  commutePlaces: CommutePlace[];
+  history: Array<{ category: TripCategory; start: LatLng; end: LatLng }>;
+}
+
+export interface ClassificationResult {
+  category: TripCategory;
+  confidence: number;
+  signals: ClassificationSignal[];
+  // Shown to the user when a rule rather than a vote decided the category
+  reason: string | null;
+}
+
+export const CLASSIFIER_CONFIDENCE = {
+  savedLocationEnd: 0.9,
+  savedLocationStart: 0.75,
+  historyBase: 0.6,
+  historyPerTrip: 0.1,
+  historyMax: 0.95,
+  workHours: 0.6,
+  outsideWorkHours: 0.5,
+  defaultCategory: 0.3,
+  commute: 0.95,
+} as const;
+
+// Two trips are "the same journey" when both ends are this close
+export const HISTORY_MATCH_RADIUS_METERS = 250;
+const HISTORY_LIMIT = 500;
+
+export function classifyTrip(input: ClassificationInput): ClassificationResult {
+  const signals: ClassificationSignal[] = [];
+
+  // Saved locations with an explicit category
+  if (input.end) {
+    const endLocation = findContainingLocation(input.savedLocations, input.end);
+    if (endLocation?.autoClassifyAs) {
+      signals.push({
+        rule: 'saved_location_end',
+        category: endLocation.autoClassifyAs,
+        confidence: CLASSIFIER_CONFIDENCE.savedLocationEnd,
+      });
+    }
+  }
+
+  const startLocation = findContainingLocation(input.savedLocations, input.start);
+  if (startLocation?.autoClassifyAs) {
+    signals.push({
+      rule: 'saved_location_start',
+      category: startLocation.autoClassifyAs,
+      confidence: CLASSIFIER_CONFIDENCE.savedLocationStart,
+    });
+  }
+
+  // How the user classified the same journey before
+  const historySignal = classifyFromHistory(input);
+  if (historySignal) signals.push(historySignal);
+
+  // Work hours
+  const settings = input.settings;
+  if (settings?.classifyWorkHoursBusiness && settings.workHoursStart && settings.workHoursEnd) {
+    const local = getLocalTimeParts(input.startTime, input.timezone);
+    const minute = local.hour * 60 + local.minute;
+    const isWorkDay = settings.workDays.includes(local.weekday) || (local.weekday === 0 && settings.workDays.includes(7));
+    const startMinute = timeColumnToMinutes(settings.workHoursStart);
+    const endMinute = timeColumnToMinutes(settings.workHoursEnd);
+    const withinHours = startMinute <= endMinute
+      ? minute >= startMinute && minute < endMinute
+      : minute >= startMinute || minute < endMinute; // overnight shift
+
+    if (isWorkDay && withinHours) {
+      signals.push({ rule: 'work_hours', category: 'business', confidence: CLASSIFIER_CONFIDENCE.workHours });
+    } else {
+      signals.push({ rule: 'outside_work_hours', category: 'personal', confidence: CLASSIFIER_CONFIDENCE.outsideWorkHours });
+    }
+  }
+
+  if (signals.length === 0) {
+    signals.push({
+      rule: 'default_category',
+      category: settings?.defaultTripCategory ?? 'business',
+      confidence: CLASSIFIER_CONFIDENCE.defaultCategory,
+    });
+  }
+
+  const votes = new Map<TripCategory, { total: number; best: number }>();
+  let totalWeight = 0;
+  for (const signal of signals) {
+    const vote = votes.get(signal.category) ?? { total: 0, best: 0 };
+    vote.total += signal.confidence;
+    vote.best = Math.max(vote.best, signal.confidence);
+    votes.set(signal.category, vote);
+    totalWeight += signal.confidence;
+  }
+
+  // Ties go to the category whose vote was cast first (strongest rule first)
+  let winner = signals[0]!.category;
+  for (const [category, vote] of votes) {
+    if (vote.total > votes.get(winner)!.total) winner = category;
+  }
+
+  if (input.end && isHomeWorkCommute(input.commutePlaces, input.start, input.end)) {
+    signals.push({ rule: 'commute', category: 'commute', confidence: CLASSIFIER_CONFIDENCE.commute });
+    return {
+      category: 'commute',
+      confidence: CLASSIFIER_CONFIDENCE.commute,
+      signals,
+      reason: COMMUTE_RULE_EXPLANATIONS.home_to_regular_work,
+    };
+  }
+
+  const winningVote = votes.get(winner)!;
+  const confidence = Math.round(winningVote.best * (winningVote.total / totalWeight) * 100) / 100;
+
+  return { category: winner, confidence, signals, reason: null };
+}
+
+// Classifies a just-completed trip in place. Trips the user has verified or
+// given a category, even while still recording, are never touched.
+export async function autoClassifyTrip(tripId: string): Promise<Trip | null> {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    include: {
+      user: {
+        select: { timezone: true, settings: true },
+      },
+    },
+  });
+
+  if (!trip || trip.userVerified || trip.categorySetByUser || trip.deletedAt) {
+    return null;
+  }
+
+  const [savedLocations, commuteLocations, history] = await Promise.all([
+    prisma.savedLocation.findMany({
+      where: { userId: trip.userId, autoClassifyAs: { not: null } },
+      select: { latitude: true, longitude: true, radiusMeters: true, autoClassifyAs: true },
+    }),
+    prisma.savedLocation.findMany({
+      where: { userId: trip.userId, locationType: { in: ['home', 'work'] } },
+      select: { latitude: true, longitude: true, radiusMeters: true, locationType: true, visitCount: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.trip.findMany({
+      where: {
+        userId: trip.userId,
+        id: { not: trip.id },
+        // Trips the user confirmed or recategorized
+        OR: [{ userVerified: true }, { categorySetByUser: true }],
+        deletedAt: null,
+        endLatitude: { not: null },
+        endLongitude: { not: null },
+      },
+      select: { category: true, startLatitude: true, startLongitude: true, endLatitude: true, endLongitude: true },
+      orderBy: { startTime: 'desc' },
+      take: HISTORY_LIMIT,
+    }),
+  ]);
+
+  const result = classifyTrip({
+    startTime: trip.startTime,
+    start: { latitude: Number(trip.startLatitude), longitude: Number(trip.startLongitude) },
+    end: trip.endLatitude !== null && trip.endLongitude !== null
+      ? { latitude: Number(trip.endLatitude), longitude: Number(trip.endLongitude) }
+      : null,
+    timezone: trip.user.timezone,
+    settings: trip.user.settings,
+    savedLocations: savedLocations.map((l) => ({
+      latitude: Number(l.latitude),
+      longitude: Number(l.longitude),
+      radiusMeters: l.radiusMeters,
+      autoClassifyAs: l.autoClassifyAs,
+    })),
+    commutePlaces: buildCommutePlaces(
+      commuteLocations.map((l) => ({ ...l, latitude: Number(l.latitude), longitude: Number(l.longitude) }))
+    ),
+    history: history.map((h) => ({
+      category: h.category,
+      start: { latitude: Number(h.startLatitude), longitude: Number(h.startLongitude) },
+      end: { latitude: Number(h.endLatitude), longitude: Number(h.endLongitude) },
+    })),
+  });
+
+  const updated = await prisma.trip.update({
+    where: { id: tripId },
+    data: {
+      category: result.category,
+      classificationConfidence: result.confidence,
+      classificationReason: result.reason,
+      autoClassified: true,
+    },
+  });
+
+  tripLogger.info({
+    tripId,
+    category: result.category,
+    confidence: result.confidence,
+    rules: result.signals.map((s) => s.rule),
+  }, 'Trip auto-classified');
+
+  return updated;
+}
+
+function classifyFromHistory(input: ClassificationInput): ClassificationSignal | null {
+  if (!input.end) return null;
+  const end = input.end;
+
+  // Same journey in either direction
+  const matches = input.history.filter(
+    (h) =>
+      (distanceBetween(h.start, input.start) <= HISTORY_MATCH_RADIUS_METERS &&
+        distanceBetween(h.end, end) <= HISTORY_MATCH_RADIUS_METERS) ||
+      (distanceBetween(h.start, end) <= HISTORY_MATCH_RADIUS_METERS &&
+        distanceBetween(h.end, input.start) <= HISTORY_MATCH_RADIUS_METERS)
+  );
+  if (matches.length === 0) return null;
+
+  const counts = new Map<TripCategory, number>();
+  for (const match of matches) {
+    counts.set(match.category, (counts.get(match.category) ?? 0) + 1);
+  }
+
+  let category = matches[0]!.category;
+  for (const [candidate, count] of counts) {
+    if (count > counts.get(category)!) category = candidate;
+  }
+
+  const count = counts.get(category)!;
+  const agreement = count / matches.length;
+  const confidence = Math.min(
+    CLASSIFIER_CONFIDENCE.historyMax,
+    CLASSIFIER_CONFIDENCE.historyBase + CLASSIFIER_CONFIDENCE.historyPerTrip * Math.min(count, 3)
+  ) * agreement;
+
+  return { rule: 'history', category, confidence: Math.round(confidence * 100) / 100 };
+}
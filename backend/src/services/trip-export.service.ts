@@ -0,0 +1,283 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
+import {
+  serializeTracks,
+  detectTrackFormat,
+  parseTrack,
+  TRACK_CONTENT_TYPES,
+} from '../utils/track-formats.js';
+import type { Track, TrackPoint } from '../utils/track-formats.js';
+import { addTripProcessingJob } from '../jobs/queues.js';
+import { buildTripFilter, summarizeWaypoints } from './trip.service.js';
+import { recordTripStops } from './stop-detection.service.js';
+import { autoClassifyTrip } from './trip-classifier.service.js';
+import { updateTripFuelEstimate } from './fuel-estimate.service.js';
+import { syncTripOdometer } from './odometer.service.js';
+import { refreshTripCompliance } from './irs-compliance.service.js';
+import { refreshTripVisits } from './location.service.js';
+import { loadTripWaypoints, loadWaypointsForTrips } from './waypoint-storage.service.js';
+import type { BulkTripExportInput, ImportTripInput, TripExportFormat } from '../types/index.js';
+import type { Trip, TripWaypoint } from '@prisma/client';
+
+export interface TripExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export interface TripImportFile {
+  filename: string;
+  content: Buffer;
+}
+
+export const MAX_BULK_EXPORT_TRIPS = 500;
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_POINTS = 20000;
+
+// Column ranges of trip_waypoints; values outside are dropped on import
+const MAX_IMPORT_SPEED_MPS = 200;
+const MIN_IMPORT_ALTITUDE_METERS = -1000;
+const MAX_IMPORT_ALTITUDE_METERS = 50000;
+
+type TripWithWaypoints = Trip & { waypoints: TripWaypoint[] };
+
+export async function exportTrip(
+  userId: string,
+  tripId: string,
+  format: TripExportFormat
+): Promise<TripExportFile> {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!trip) {
+    throw new NotFoundError('Trip');
+  }
+
+  const waypoints = await loadTripWaypoints(trip.id);
+
+  const date = trip.startTime.toISOString().slice(0, 10);
+
+  return {
+    filename: `trip-${date}-${trip.id.slice(0, 8)}.${format}`,
+    contentType: TRACK_CONTENT_TYPES[format],
+    body: serializeTracks([toTrack({ ...trip, waypoints })], format),
+  };
+}
+
+export async function exportTrips(userId: string, input: BulkTripExportInput): Promise<TripExportFile> {
+  const where = buildTripFilter(userId, input);
+
+  const total = await prisma.trip.count({ where });
+  if (total > MAX_BULK_EXPORT_TRIPS) {
+    throw new BadRequestError(
+      `Exports are limited to ${MAX_BULK_EXPORT_TRIPS} trips; narrow the date range or filters`,
+      { total }
+    );
+  }
+
+  const trips = await prisma.trip.findMany({
+    where,
+    orderBy: { startTime: 'asc' },
+  });
+  const waypoints = await loadWaypointsForTrips(trips.map((t) => t.id));
+
+  tripLogger.info({ userId, format: input.format, tripCount: trips.length }, 'Trips exported');
+
+  const from = input.startDate.slice(0, 10);
+  const to = input.endDate.slice(0, 10);
+
+  return {
+    filename: `trips-${from}-to-${to}.${input.format}`,
+    contentType: TRACK_CONTENT_TYPES[input.format],
+    body: serializeTracks(
+      trips.map((trip) => toTrack({ ...trip, waypoints: waypoints.get(trip.id) ?? [] })),
+      input.format
+    ),
+  };
+}
+
+export async function importTrip(
+  userId: string,
+  file: TripImportFile,
+  input: ImportTripInput
+): Promise<Trip> {
+  if (file.content.length > MAX_IMPORT_FILE_BYTES) {
+    throw new BadRequestError(`File exceeds the ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB import limit`);
+  }
+
+  const content = file.content.toString('utf8');
+  const format = detectTrackFormat(file.filename, content);
+  if (!format) {
+    throw new BadRequestError('Unsupported file format; upload a GPX or KML file');
+  }
+
+  const parsed = parseTrack(content, format);
+  if (parsed.points.length > MAX_IMPORT_POINTS) {
+    throw new BadRequestError(`Tracks are limited to ${MAX_IMPORT_POINTS} points`, {
+      pointCount: parsed.points.length,
+    });
+  }
+  if (parsed.points.length < 2) {
+    throw new BadRequestError('Track must contain at least two points with coordinates and timestamps');
+  }
+
+  if (input.vehicleId) {
+    const vehicle = await prisma.vehicle.findFirst({
+      where: {
+        id: input.vehicleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle');
+    }
+  }
+
+  const points = [...parsed.points].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+
+  // Re-importing the same file must not create a second copy
+  const existing = await prisma.trip.findFirst({
+    where: { userId, startTime: first.timestamp, deletedAt: null },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError('A trip starting at this time already exists', { tripId: existing.id });
+  }
+
+  const trip = await prisma.$transaction(async (tx) => {
+    const created = await tx.trip.create({
+      data: {
+        userId,
+        vehicleId: input.vehicleId,
+        status: 'completed',
+        detectionMethod: 'manual',
+        category: input.category,
+        categorySetByUser: input.category !== undefined,
+        purpose: input.purpose,
+        notes: parsed.name ? `Imported from ${format.toUpperCase()}: ${parsed.name}` : null,
+        startTime: first.timestamp,
+        startLatitude: first.latitude,
+        startLongitude: first.longitude,
+        endTime: last.timestamp,
+        endLatitude: last.latitude,
+        endLongitude: last.longitude,
+        durationSeconds: Math.floor((last.timestamp.getTime() - first.timestamp.getTime()) / 1000),
+      },
+    });
+
+    await tx.tripWaypoint.createMany({
+      data: points.map((point, index) => ({
+        tripId: created.id,
+        sequenceNumber: index + 1,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        timestamp: point.timestamp,
+        speedMps: point.speedMps !== null && point.speedMps <= MAX_IMPORT_SPEED_MPS ? point.speedMps : null,
+        altitudeMeters:
+          point.elevationMeters !== null &&
+          point.elevationMeters >= MIN_IMPORT_ALTITUDE_METERS &&
+          point.elevationMeters <= MAX_IMPORT_ALTITUDE_METERS
+            ? point.elevationMeters
+            : null,
+      })),
+    });
+
+    const waypoints = await tx.tripWaypoint.findMany({
+      where: { tripId: created.id },
+      orderBy: { sequenceNumber: 'asc' },
+    });
+
+    const updated = await tx.trip.update({
+      where: { id: created.id },
+      data: summarizeWaypoints(waypoints),
+    });
+
+    await recordTripStops(created.id, tx);
+
+    return updated;
+  }, { timeout: 30_000 });
+
+  // Only classify when the user did not choose a category
+  const classified = input.category ? null : await autoClassifyTrip(trip.id);
+  const estimated = await updateTripFuelEstimate(trip.id);
+  await syncTripOdometer(trip.id);
+  await refreshTripVisits(trip.id);
+  const checked = await refreshTripCompliance(trip.id);
+
+  tripLogger.info({
+    tripId: trip.id,
+    userId,
+    format,
+    pointCount: points.length,
+    distanceMeters: trip.distanceMeters,
+  }, 'Trip imported');
+
+  try {
+    await addTripProcessingJob({ tripId: trip.id, userId });
+  } catch (error) {
+    tripLogger.warn({ tripId: trip.id, error }, 'Failed to enqueue trip processing');
+  }
+
+  return checked ?? estimated ?? classified ?? trip;
+}
+
+function toTrack(trip: TripWithWaypoints): Track {
+  const points: TrackPoint[] = trip.waypoints.map((wp) => ({
+    latitude: Number(wp.latitude),
+    longitude: Number(wp.longitude),
+    timestamp: wp.timestamp,
+    elevationMeters: wp.altitudeMeters !== null ? Number(wp.altitudeMeters) : null,
+    speedMps: wp.speedMps !== null ? Number(wp.speedMps) : null,
+  }));
+
+  // Manually entered trips have no waypoints; export their endpoints
+  if (points.length === 0 && trip.endTime && trip.endLatitude !== null && trip.endLongitude !== null) {
+    points.push(
+      {
+        latitude: Number(trip.startLatitude),
+        longitude: Number(trip.startLongitude),
+        timestamp: trip.startTime,
+        elevationMeters: null,
+        speedMps: null,
+      },
+      {
+        latitude: Number(trip.endLatitude),
+        longitude: Number(trip.endLongitude),
+        timestamp: trip.endTime,
+        elevationMeters: null,
+        speedMps: null,
+      }
+    );
+  }
+
+  const from = trip.startPlaceName ?? trip.startAddress;
+  const to = trip.endPlaceName ?? trip.endAddress;
+
+  return {
+    id: trip.id,
+    name: trip.purpose ?? `Trip on ${trip.startTime.toISOString().slice(0, 10)}`,
+    description: from && to ? `${from} to ${to}` : null,
+    points,
+    properties: {
+      tripId: trip.id,
+      startTime: trip.startTime.toISOString(),
+      endTime: trip.endTime?.toISOString() ?? null,
+      distanceMeters: trip.distanceMeters,
+      durationSeconds: trip.durationSeconds,
+      category: trip.category,
+      purpose: trip.purpose,
+      clientName: trip.clientName,
+      projectName: trip.projectName,
+    },
+  };
+}
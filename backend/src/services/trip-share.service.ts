@@ -0,0 +1,217 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { NotFoundError, BadRequestError, QuotaExceededError } from '../utils/errors.js';
+import { generateSecureToken, hashToken } from '../utils/crypto.js';
+import { decodePolyline, encodePolyline, trimLineEnds } from '../utils/geometry.js';
+import { cityFromAddress } from './geocoding.service.js';
+import type { CreateTripShareInput, SharedTrips } from '../types/index.js';
+import type { Prisma, TripShare } from '@prisma/client';
+
+// Read-only links to a trip or a date range of trips, for handing mileage to
+// a client or accountant without an account. The raw token is returned once
+// at creation; only its hash is stored. The public view does not give away
+// where the user lives or works: routes lose their first and last stretch
+// and endpoints are named by city only.
+
+export const MAX_ACTIVE_SHARES = 100;
+
+// Trips shown by one range share, oldest first
+const MAX_SHARED_TRIPS = 200;
+
+const MAX_RANGE_DAYS = 366;
+
+// Route cut from each end of a shared trip
+const SHARED_ROUTE_TRIM_METERS = 300;
+
+export type TripShareView = Omit<TripShare, 'tokenHash'>;
+
+interface RequestInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export async function createTripShare(
+  userId: string,
+  input: CreateTripShareInput
+): Promise<{ share: TripShareView; token: string }> {
+  const now = new Date();
+
+  const active = await prisma.tripShare.count({
+    where: { userId, revokedAt: null, expiresAt: { gt: now } },
+  });
+  if (active >= MAX_ACTIVE_SHARES) {
+    throw new QuotaExceededError('Active share links', MAX_ACTIVE_SHARES);
+  }
+
+  if (input.tripId) {
+    const trip = await prisma.trip.findFirst({
+      where: { id: input.tripId, userId, deletedAt: null },
+      select: { status: true },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip');
+    }
+
+    if (trip.status === 'recording') {
+      throw new BadRequestError('Trip is still recording');
+    }
+  }
+
+  const rangeStart = input.startDate ? new Date(input.startDate) : null;
+  const rangeEnd = input.endDate ? new Date(input.endDate) : null;
+  if (rangeStart && rangeEnd && rangeEnd.getTime() - rangeStart.getTime() > MAX_RANGE_DAYS * 24 * 3600 * 1000) {
+    throw new BadRequestError(`Shared ranges cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+
+  const token = generateSecureToken();
+
+  const share = await prisma.tripShare.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      tripId: input.tripId,
+      rangeStart,
+      rangeEnd,
+      label: input.label,
+      expiresAt: new Date(now.getTime() + input.expiresInHours * 3600 * 1000),
+    },
+    omit: { tokenHash: true },
+  });
+
+  tripLogger.info({ shareId: share.id, userId, tripId: share.tripId, expiresAt: share.expiresAt }, 'Trip share created');
+
+  return { share, token };
+}
+
+export async function listTripShares(userId: string): Promise<TripShareView[]> {
+  return prisma.tripShare.findMany({
+    where: { userId },
+    omit: { tokenHash: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function revokeTripShare(userId: string, shareId: string): Promise<void> {
+  const share = await prisma.tripShare.findFirst({
+    where: { id: shareId, userId },
+    select: { id: true, revokedAt: true },
+  });
+
+  if (!share) {
+    throw new NotFoundError('Share link');
+  }
+
+  if (share.revokedAt) return;
+
+  await prisma.tripShare.update({
+    where: { id: share.id },
+    data: { revokedAt: new Date() },
+  });
+
+  tripLogger.info({ shareId, userId }, 'Trip share revoked');
+}
+
+// Public view behind a share link. Unknown, expired and revoked tokens all
+// look the same to the caller.
+export async function getSharedTrips(token: string, requestInfo: RequestInfo = {}): Promise<SharedTrips> {
+  const share = await prisma.tripShare.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  const now = new Date();
+  if (!share || share.revokedAt || share.expiresAt <= now) {
+    throw new NotFoundError('Share link');
+  }
+
+  const where: Prisma.TripWhereInput = {
+    userId: share.userId,
+    deletedAt: null,
+    status: { not: 'recording' },
+    ...(share.tripId
+      ? { id: share.tripId }
+      : { startTime: { gte: share.rangeStart!, lte: share.rangeEnd! } }),
+  };
+
+  const trips = await prisma.trip.findMany({
+    where,
+    select: {
+      startTime: true,
+      endTime: true,
+      startAddress: true,
+      endAddress: true,
+      distanceMeters: true,
+      durationSeconds: true,
+      category: true,
+      purpose: true,
+      routePolylineLow: true,
+    },
+    orderBy: { startTime: 'asc' },
+    take: MAX_SHARED_TRIPS,
+  });
+
+  // A single-trip share whose trip has since been deleted is dead
+  if (share.tripId && trips.length === 0) {
+    throw new NotFoundError('Share link');
+  }
+
+  await recordShareAccess(share, requestInfo, now);
+
+  return {
+    label: share.label,
+    expiresAt: share.expiresAt.toISOString(),
+    range: share.rangeStart && share.rangeEnd
+      ? { start: share.rangeStart.toISOString(), end: share.rangeEnd.toISOString() }
+      : null,
+    totals: {
+      tripCount: trips.length,
+      distanceMeters: trips.reduce((sum, t) => sum + t.distanceMeters, 0),
+      durationSeconds: trips.reduce((sum, t) => sum + t.durationSeconds, 0),
+    },
+    trips: trips.map((trip) => ({
+      startTime: trip.startTime.toISOString(),
+      endTime: trip.endTime?.toISOString() ?? null,
+      startPlace: cityFromAddress(trip.startAddress),
+      endPlace: cityFromAddress(trip.endAddress),
+      distanceMeters: trip.distanceMeters,
+      durationSeconds: trip.durationSeconds,
+      category: trip.category,
+      purpose: trip.purpose,
+      routePolyline: trimSharedRoute(trip.routePolylineLow),
+    })),
+  };
+}
+
+// Null when the trip is too short to show anything once both ends are cut
+function trimSharedRoute(polyline: string | null): string | null {
+  if (!polyline) return null;
+
+  const trimmed = trimLineEnds(decodePolyline(polyline), SHARED_ROUTE_TRIM_METERS);
+  return trimmed.length >= 2 ? encodePolyline(trimmed) : null;
+}
+
+// Access is counted on the share and audited for the owner; a failure here
+// should not stop the viewer from seeing the trips
+async function recordShareAccess(share: TripShare, requestInfo: RequestInfo, now: Date): Promise<void> {
+  try {
+    await prisma.$transaction([
+      prisma.tripShare.update({
+        where: { id: share.id },
+        data: { accessCount: { increment: 1 }, lastAccessedAt: now },
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: share.userId,
+          action: 'trip_share.accessed',
+          entityType: 'trip_share',
+          entityId: share.id,
+          ipAddress: requestInfo.ipAddress,
+          userAgent: requestInfo.userAgent,
+          metadata: { tripId: share.tripId },
+        },
+      }),
+    ]);
+  } catch (error) {
+    tripLogger.warn({ shareId: share.id, error }, 'Failed to record share access');
+  }
+}
@@ -1,23 +1,84 @@
 import { prisma } from '../config/database.js';
 import { tripLogger } from '../utils/logger.js';
-import { NotFoundError, ForbiddenError, BadRequestError } from '../utils/errors.js';
+import { NotFoundError, ForbiddenError, BadRequestError, ConflictError, QuotaExceededError } from '../utils/errors.js';
 import type {
   CreateTripInput,
   UpdateTripInput,
   AddWaypointsInput,
   CompleteTripInput,
   TripFilterInput,
+  TripFilters,
+  MergeTripsInput,
+  SplitTripInput,
+  BulkUpdateTripsInput,
+  BulkTripChanges,
+  BulkTripResult,
+  BulkUpdateTripsResult,
+  TripSearchInput,
+  TripSearchMatch,
+  TripDetailLevel,
   PaginatedResponse,
 } from '../types/index.js';
-import type { Trip, TripWaypoint, TripStatus, TripCategory, Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import type { Trip, TripWaypoint, TripStatus, TripCategory, SubscriptionTier } from '@prisma/client';
+import { METERS_TO_MILES, calculateDistance } from '../utils/geo.js';
+import { addTripProcessingJob } from '../jobs/queues.js';
+import { filterGpsFixes, computeTripStatistics, toGpsFix } from './gps-filter.service.js';
+import { recordTripStops } from './stop-detection.service.js';
+import { autoClassifyTrip } from './trip-classifier.service.js';
+import { updateTripFuelEstimate } from './fuel-estimate.service.js';
+import { syncTripOdometer } from './odometer.service.js';
+import { refreshTripCompliance } from './irs-compliance.service.js';
+import { detectTripAnomalies, anomalyFields, REPORTABLE_TRIP_FILTER } from './trip-anomaly.service.js';
+import { loadTripWaypoints, unpackTripWaypoints } from './waypoint-storage.service.js';
+import { buildSpatialTripCondition } from './spatial.service.js';
+import { refreshTripVisits } from './location.service.js';
 
-// Meters to miles conversion
-const METERS_TO_MILES = 0.000621371;
-
-interface TripWithWaypoints extends Trip {
+interface TripWithWaypoints extends Partial<Trip> {
   waypoints?: TripWaypoint[];
 }
 
+// listTrips sort parameter values: the trip field and its column
+const TRIP_SORT_FIELDS = {
+  startTime: { field: 'startTime', column: 'start_time' },
+  distance: { field: 'distanceMeters', column: 'distance_meters' },
+  duration: { field: 'durationSeconds', column: 'duration_seconds' },
+} as const;
+
+// Route fields left out of responses at each detail level. Waypoints are only
+// returned by getTrip at "full".
+const ROUTE_DETAIL_OMIT: Record<TripDetailLevel, Prisma.TripOmit> = {
+  none: { routePolyline: true, routePolylineHigh: true, routePolylineLow: true, routeGeojson: true },
+  low: { routePolyline: true, routePolylineHigh: true, routeGeojson: true },
+  high: { routePolyline: true, routePolylineLow: true },
+  full: {},
+};
+
+// ts_headline options for search snippets
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "';
+
+// Trips one bulk edit may touch
+const BULK_EDIT_LIMITS: Record<SubscriptionTier, number> = {
+  free: 25,
+  pro: 250,
+  business: 1000,
+  enterprise: 5000,
+};
+
+// Merging and splitting move many waypoint rows in one transaction
+const TRIP_EDIT_TIMEOUT_MS = 30_000;
+const MIN_SPLIT_WAYPOINTS = 2;
+
+// Route geometry derived from the old waypoints; the worker rebuilds it
+const CLEARED_ROUTE_FIELDS = {
+  routePolyline: null,
+  routePolylineHigh: null,
+  routePolylineLow: null,
+  routeGeojson: Prisma.DbNull,
+  matchedDistanceMeters: null,
+  mapMatchConfidence: null,
+} as const;
+
 export async function createTrip(
   userId: string,
   input: CreateTripInput
@@ -37,34 +98,67 @@ export async function createTrip(
     }
   }
 
-  const trip = await prisma.trip.create({
-    data: {
-      userId,
-      vehicleId: input.vehicleId,
-      startLatitude: input.startLatitude,
-      startLongitude: input.startLongitude,
-      startTime: new Date(input.startTime),
-      detectionMethod: input.detectionMethod ?? 'manual',
-      status: 'recording',
-    },
-  });
+  // A client-generated id makes retries of the same upload return the trip
+  // created by the first attempt
+  if (input.id) {
+    const existing = await findRetriedTrip(userId, input.id);
+    if (existing) return existing;
+  }
+
+  let trip: Trip;
+  try {
+    trip = await prisma.trip.create({
+      data: {
+        id: input.id,
+        userId,
+        vehicleId: input.vehicleId,
+        startLatitude: input.startLatitude,
+        startLongitude: input.startLongitude,
+        startTime: new Date(input.startTime),
+        detectionMethod: input.detectionMethod ?? 'manual',
+        status: 'recording',
+      },
+    });
+  } catch (error) {
+    // A concurrent retry created it first
+    if (input.id && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await findRetriedTrip(userId, input.id);
+      if (existing) return existing;
+    }
+    throw error;
+  }
 
   tripLogger.info({ tripId: trip.id, userId, detectionMethod: input.detectionMethod }, 'Trip created');
 
   return trip;
 }
 
-export async function getTrip(userId: string, tripId: string): Promise<TripWithWaypoints> {
+// A trip already created under a client-generated id, or null when the id is new
+export async function findRetriedTrip(userId: string, tripId: string): Promise<Trip | null> {
+  const existing = await prisma.trip.findUnique({ where: { id: tripId } });
+  if (!existing) return null;
+
+  if (existing.userId !== userId || existing.deletedAt) {
+    throw new ConflictError('Trip id is already in use');
+  }
+
+  tripLogger.debug({ tripId, userId }, 'Trip create retried');
+  return existing;
+}
+
+export async function getTrip(
+  userId: string,
+  tripId: string,
+  detail: TripDetailLevel = 'full'
+): Promise<TripWithWaypoints> {
   const trip = await prisma.trip.findFirst({
     where: {
       id: tripId,
       userId,
       deletedAt: null,
     },
+    omit: ROUTE_DETAIL_OMIT[detail],
     include: {
-      waypoints: {
-        orderBy: { sequenceNumber: 'asc' },
-      },
       vehicle: {
         select: {
           id: true,
@@ -81,6 +175,10 @@ export async function getTrip(userId: string, tripId: string): Promise<TripWithW
     throw new NotFoundError('Trip');
   }
 
+  if (detail === 'full') {
+    return { ...trip, waypoints: await loadTripWaypoints(tripId) };
+  }
+
   return trip;
 }
 
@@ -118,7 +216,12 @@ export async function updateTrip(
 
   const updateData: Prisma.TripUpdateInput = {};
 
-  if (input.category !== undefined) updateData.category = input.category as TripCategory;
+  // A category the user picked needs no explanation
+  if (input.category !== undefined) {
+    updateData.category = input.category as TripCategory;
+    updateData.categorySetByUser = true;
+    updateData.classificationReason = null;
+  }
   if (input.purpose !== undefined) updateData.purpose = input.purpose;
   if (input.clientName !== undefined) updateData.clientName = input.clientName;
   if (input.projectName !== undefined) updateData.projectName = input.projectName;
@@ -138,19 +241,32 @@ export async function updateTrip(
 
   tripLogger.info({ tripId, userId, fields: Object.keys(input) }, 'Trip updated');
 
-  return updated;
+  // The odometer estimate depends on the vehicle and when the trip ended
+  if (input.vehicleId !== undefined || input.endTime !== undefined) {
+    await syncTripOdometer(tripId);
+  }
+
+  // Fuel use depends on the vehicle
+  const estimated = input.vehicleId !== undefined && updated.status !== 'recording'
+    ? await updateTripFuelEstimate(tripId)
+    : null;
+
+  return (await refreshTripCompliance(tripId)) ?? estimated ?? updated;
 }
 
+// Uploads are retried after connectivity drops, so batches are deduplicated.
+// Waypoints carrying a client sequenceNumber are keyed by it; otherwise the
+// timestamp is the key and the trip is renumbered in time order, which also
+// places batches that arrive out of order.
 export async function addWaypoints(
   userId: string,
   tripId: string,
   input: AddWaypointsInput
-): Promise<{ count: number }> {
+): Promise<{ count: number; duplicates: number }> {
   const trip = await prisma.trip.findFirst({
     where: {
       id: tripId,
       userId,
-      status: 'recording',
       deletedAt: null,
     },
   });
@@ -159,35 +275,99 @@ export async function addWaypoints(
     throw new NotFoundError('Trip');
   }
 
-  // Get the current max sequence number
-  const lastWaypoint = await prisma.tripWaypoint.findFirst({
-    where: { tripId },
-    orderBy: { sequenceNumber: 'desc' },
-    select: { sequenceNumber: true },
-  });
+  const clientSequenced = input.waypoints.every((wp) => wp.sequenceNumber !== undefined);
 
-  let nextSequence = (lastWaypoint?.sequenceNumber ?? 0) + 1;
+  const result = await prisma.$transaction(async (tx) => {
+    // Serializes concurrent retries of the same trip's uploads
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${tripId}))`;
 
-  const waypointData = input.waypoints.map((wp) => ({
-    tripId,
-    sequenceNumber: nextSequence++,
-    latitude: wp.latitude,
-    longitude: wp.longitude,
-    timestamp: new Date(wp.timestamp),
-    speedMps: wp.speedMps,
-    heading: wp.heading,
-    altitudeMeters: wp.altitudeMeters,
-    horizontalAccuracy: wp.horizontalAccuracy,
-    verticalAccuracy: wp.verticalAccuracy,
-  }));
-
-  const result = await prisma.tripWaypoint.createMany({
-    data: waypointData,
-  });
+    // A finished trip may be packed; retried uploads still have to match it
+    const existing = trip.status === 'recording'
+      ? await tx.tripWaypoint.findMany({
+          where: { tripId },
+          select: { sequenceNumber: true, timestamp: true },
+        })
+      : await loadTripWaypoints(tripId, tx);
+
+    // One key for every batch of a trip, whether or not it was sequenced:
+    // sequence numbers the server assigned to an earlier unsequenced batch
+    // mean nothing to the client and must not swallow its points
+    const seen = new Set(existing.map((wp) => wp.timestamp.toISOString()));
 
-  tripLogger.debug({ tripId, count: result.count }, 'Waypoints added');
+    const fresh = input.waypoints.filter((wp) => {
+      const key = new Date(wp.timestamp).toISOString();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
 
-  return { count: result.count };
+    const duplicates = input.waypoints.length - fresh.length;
+
+    if (fresh.length === 0) {
+      return { count: 0, duplicates };
+    }
+
+    // Late batches for a finished trip would change its statistics
+    if (trip.status !== 'recording') {
+      throw new ConflictError('Trip is no longer recording', { newWaypoints: fresh.length });
+    }
+
+    let nextSequence = existing.reduce((max, wp) => Math.max(max, wp.sequenceNumber), 0) + 1;
+
+    // Client numbers are kept as given unless they clash with numbers already
+    // taken, as when the trip started with unsequenced batches; the trip is
+    // then renumbered in time order like an unsequenced one
+    const taken = new Set(existing.map((wp) => wp.sequenceNumber));
+    const keepClientSequence = clientSequenced && fresh.every((wp) => {
+      if (taken.has(wp.sequenceNumber!)) return false;
+      taken.add(wp.sequenceNumber!);
+      return true;
+    });
+
+    const created = await tx.tripWaypoint.createMany({
+      data: fresh.map((wp) => ({
+        tripId,
+        sequenceNumber: keepClientSequence ? wp.sequenceNumber! : nextSequence++,
+        latitude: wp.latitude,
+        longitude: wp.longitude,
+        timestamp: new Date(wp.timestamp),
+        speedMps: wp.speedMps,
+        heading: wp.heading,
+        altitudeMeters: wp.altitudeMeters,
+        horizontalAccuracy: wp.horizontalAccuracy,
+        verticalAccuracy: wp.verticalAccuracy,
+      })),
+    });
+
+    // Points older than ones already stored, or unsorted within the batch,
+    // mean the trip has to be renumbered in time order
+    let latest = existing.reduce((max, wp) => Math.max(max, wp.timestamp.getTime()), 0);
+    let outOfOrder = false;
+    for (const wp of fresh) {
+      const time = new Date(wp.timestamp).getTime();
+      if (time < latest) outOfOrder = true;
+      latest = Math.max(latest, time);
+    }
+
+    if (!keepClientSequence && outOfOrder) {
+      await tx.$executeRaw`
+        UPDATE trip_waypoints AS w
+        SET sequence_number = ordered.position
+        FROM (
+          SELECT id, row_number() OVER (ORDER BY timestamp, sequence_number)::int AS position
+          FROM trip_waypoints
+          WHERE trip_id = ${tripId}::uuid
+        ) AS ordered
+        WHERE w.id = ordered.id AND w.sequence_number <> ordered.position
+      `;
+    }
+
+    return { count: created.count, duplicates };
+  }, { timeout: TRIP_EDIT_TIMEOUT_MS });
+
+  tripLogger.debug({ tripId, ...result }, 'Waypoints added');
+
+  return result;
 }
 
 export async function completeTrip(
@@ -199,7 +379,6 @@ export async function completeTrip(
     where: {
       id: tripId,
       userId,
-      status: 'recording',
       deletedAt: null,
     },
   });
@@ -208,6 +387,16 @@ export async function completeTrip(
     throw new NotFoundError('Trip');
   }
 
+  // A retried completion returns the result of the first one. A trip still in
+  // completed may have lost its enrichment to an error after the claim, so it
+  // runs again; every step recomputes from the stored trip.
+  if (trip.status === 'completed') {
+    return enrichCompletedTrip(trip);
+  }
+  if (trip.status !== 'recording') {
+    return trip;
+  }
+
   // Add final waypoints if provided
   if (input.finalWaypoints && input.finalWaypoints.length > 0) {
     await addWaypoints(userId, tripId, { waypoints: input.finalWaypoints });
@@ -219,78 +408,252 @@ export async function completeTrip(
     orderBy: { sequenceNumber: 'asc' },
   });
 
-  let distanceMeters = 0;
-  let maxSpeedMph = 0;
-  let totalSpeed = 0;
-  let speedCount = 0;
-  let idleTimeSeconds = 0;
-
-  for (let i = 1; i < waypoints.length; i++) {
-    const prev = waypoints[i - 1]!;
-    const curr = waypoints[i]!;
-
-    // Calculate distance using Haversine formula
-    distanceMeters += calculateDistance(
-      Number(prev.latitude),
-      Number(prev.longitude),
-      Number(curr.latitude),
-      Number(curr.longitude)
-    );
-
-    // Track speed stats
-    if (curr.speedMps !== null) {
-      const speedMph = Number(curr.speedMps) * 2.23694;
-      maxSpeedMph = Math.max(maxSpeedMph, speedMph);
-      totalSpeed += speedMph;
-      speedCount++;
-
-      // Detect idle time (speed < 2 mph for extended period)
-      if (speedMph < 2) {
-        const timeDiff = (curr.timestamp.getTime() - prev.timestamp.getTime()) / 1000;
-        idleTimeSeconds += timeDiff;
-      }
-    }
-  }
+  const statistics = summarizeWaypoints(waypoints);
 
-  const avgSpeedMph = speedCount > 0 ? totalSpeed / speedCount : null;
   const startTime = trip.startTime;
   const endTime = new Date(input.endTime);
   const durationSeconds = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
 
-  // Update trip with calculated values
-  const completedTrip = await prisma.trip.update({
-    where: { id: tripId },
+  // Update trip with calculated values. Only one of several concurrent
+  // completions gets to move the trip out of recording.
+  const claimed = await prisma.trip.updateMany({
+    where: { id: tripId, status: 'recording' },
     data: {
       status: 'completed',
       endLatitude: input.endLatitude,
       endLongitude: input.endLongitude,
       endTime,
-      distanceMeters: Math.round(distanceMeters),
+      ...statistics,
       durationSeconds,
-      idleTimeSeconds: Math.round(idleTimeSeconds),
-      maxSpeedMph: maxSpeedMph > 0 ? maxSpeedMph : null,
-      avgSpeedMph,
-      irsCompliant: true, // Basic trip data is IRS compliant
     },
   });
 
+  if (claimed.count === 0) {
+    return prisma.trip.findUniqueOrThrow({ where: { id: tripId } });
+  }
+
   tripLogger.info({
     tripId,
     userId,
-    distanceMiles: distanceMeters * METERS_TO_MILES,
+    distanceMiles: statistics.distanceMeters * METERS_TO_MILES,
     durationMinutes: durationSeconds / 60,
+    rejectedWaypoints: statistics.rejectedWaypointCount,
   }, 'Trip completed');
 
-  return completedTrip;
+  const completedTrip = await prisma.trip.findUniqueOrThrow({ where: { id: tripId } });
+  return enrichCompletedTrip(completedTrip);
+}
+
+// Everything a completed trip gets before the worker takes over. Each step is
+// idempotent, so a retried completion can run the whole chain again.
+async function enrichCompletedTrip(completedTrip: Trip): Promise<Trip> {
+  const { id: tripId, userId } = completedTrip;
+
+  const stops = await recordTripStops(tripId);
+  const classifiedTrip = await autoClassifyTrip(tripId);
+  const estimatedTrip = await updateTripFuelEstimate(tripId);
+  await syncTripOdometer(tripId);
+  await refreshTripVisits(tripId);
+  // Checked again by the worker once the end address is geocoded
+  const checkedTrip = await refreshTripCompliance(tripId);
+
+  tripLogger.debug({ tripId, userId, stopCount: stops.length }, 'Completed trip enriched');
+
+  // Geocoding, map matching and other enrichment happen in the worker
+  try {
+    await addTripProcessingJob({ tripId, userId });
+  } catch (error) {
+    tripLogger.warn({ tripId, error }, 'Failed to enqueue trip processing');
+  }
+
+  return checkedTrip ?? estimatedTrip ?? classifiedTrip ?? completedTrip;
 }
 
 export async function listTrips(
   userId: string,
   filters: TripFilterInput
 ): Promise<PaginatedResponse<Trip>> {
-  const { page, perPage, vehicleId, category, startDate, endDate, minDistance, status, sort } = filters;
+  const { page, perPage, sort, detail = 'low' } = filters;
+  const offset = (page - 1) * perPage;
+
+  // Parse sort parameter; unknown fields fall back to newest first
+  const sortField = sort.startsWith('-') ? sort.slice(1) : sort;
+  const known = Object.hasOwn(TRIP_SORT_FIELDS, sortField);
+  const { field, column } = TRIP_SORT_FIELDS[known ? (sortField as keyof typeof TRIP_SORT_FIELDS) : 'startTime'];
+  const sortOrder: Prisma.SortOrder = !known || sort.startsWith('-') ? 'desc' : 'asc';
+
+  const orderBy: Prisma.TripOrderByWithRelationInput = { [field]: sortOrder };
+
+  const include = {
+    vehicle: {
+      select: {
+        id: true,
+        nickname: true,
+        make: true,
+        model: true,
+      },
+    },
+  } satisfies Prisma.TripInclude;
+
+  let trips: Trip[];
+  let total: number;
+
+  // Spatial filters are PostGIS conditions Prisma cannot express, so the page
+  // is picked in SQL and then loaded by id
+  const spatialCondition = buildSpatialTripCondition(filters);
+  if (spatialCondition) {
+    const where = Prisma.join([...buildTripFilterSql(userId, filters), spatialCondition], ' AND ');
+    const order = Prisma.raw(`t.${column} ${sortOrder === 'asc' ? 'ASC' : 'DESC'}`);
+
+    const [rows, counts] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string }>>`
+        SELECT t.id FROM trips t
+        WHERE ${where}
+        ORDER BY ${order}, t.id
+        LIMIT ${perPage} OFFSET ${offset}
+      `,
+      prisma.$queryRaw<Array<{ count: bigint }>>`
+        SELECT count(*) AS count FROM trips t WHERE ${where}
+      `,
+    ]);
+
+    const pageTrips = await prisma.trip.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      omit: ROUTE_DETAIL_OMIT[detail],
+      include,
+    });
+
+    const byId = new Map(pageTrips.map((trip) => [trip.id, trip]));
+    trips = rows.flatMap((row) => byId.get(row.id) ?? []);
+    total = Number(counts[0]?.count ?? 0);
+  } else {
+    const where = buildTripFilter(userId, filters);
+
+    [trips, total] = await Promise.all([
+      prisma.trip.findMany({
+        where,
+        orderBy,
+        skip: offset,
+        take: perPage,
+        omit: ROUTE_DETAIL_OMIT[detail],
+        include,
+      }),
+      prisma.trip.count({ where }),
+    ]);
+  }
+
+  const totalPages = Math.ceil(total / perPage);
+
+  return {
+    data: trips,
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+// Ranked full-text search over the generated trips.search_vector column.
+// Purpose, client and project weigh most, then tags, places and notes.
+export async function searchTrips(
+  userId: string,
+  input: TripSearchInput
+): Promise<PaginatedResponse<Trip & { search: TripSearchMatch }>> {
+  const { q, page, perPage, vehicleId, category, status, startDate, endDate } = input;
   const offset = (page - 1) * perPage;
 
+  const query = Prisma.sql`websearch_to_tsquery('english', ${q})`;
+
+  const conditions = [
+    Prisma.sql`t.user_id = ${userId}::uuid`,
+    Prisma.sql`t.deleted_at IS NULL`,
+    Prisma.sql`t.search_vector @@ ${query}`,
+  ];
+  if (vehicleId) conditions.push(Prisma.sql`t.vehicle_id = ${vehicleId}::uuid`);
+  if (category) conditions.push(Prisma.sql`t.category = ${category}::"TripCategory"`);
+  if (status) conditions.push(Prisma.sql`t.status = ${status}::"TripStatus"`);
+  if (startDate) conditions.push(Prisma.sql`t.start_time >= ${new Date(startDate)}`);
+  if (endDate) conditions.push(Prisma.sql`t.start_time <= ${new Date(endDate)}`);
+
+  const where = Prisma.join(conditions, ' AND ');
+
+  const [matches, counts] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string; rank: number; snippet: string }>>`
+      SELECT
+        t.id,
+        ts_rank_cd(t.search_vector, ${query})::float8 AS rank,
+        ts_headline(
+          'english',
+          concat_ws(' · ', t.purpose, t.client_name, t.project_name, array_to_string(t.tags, ' '),
+            t.start_place_name, t.end_place_name, t.start_address, t.end_address, t.notes),
+          ${query},
+          ${SEARCH_HEADLINE_OPTIONS}
+        ) AS snippet
+      FROM trips t
+      WHERE ${where}
+      ORDER BY rank DESC, t.start_time DESC
+      LIMIT ${perPage} OFFSET ${offset}
+    `,
+    prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT count(*) AS count FROM trips t WHERE ${where}
+    `,
+  ]);
+
+  const trips = await prisma.trip.findMany({
+    where: { id: { in: matches.map((match) => match.id) } },
+    omit: ROUTE_DETAIL_OMIT.low,
+    include: {
+      vehicle: {
+        select: {
+          id: true,
+          nickname: true,
+          make: true,
+          model: true,
+        },
+      },
+    },
+  });
+
+  const byId = new Map(trips.map((trip) => [trip.id, trip]));
+  const data = matches.flatMap((match) => {
+    const trip = byId.get(match.id);
+    return trip ? [{ ...trip, search: { rank: match.rank, snippet: match.snippet } }] : [];
+  });
+
+  const total = Number(counts[0]?.count ?? 0);
+  const totalPages = Math.ceil(total / perPage);
+
+  return {
+    data,
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+export function buildTripFilter(userId: string, filters: TripFilters): Prisma.TripWhereInput {
+  const {
+    vehicleId,
+    category,
+    startDate,
+    endDate,
+    minDistance,
+    status,
+    weather,
+    adverseWeather,
+    anomaly,
+    flagged,
+  } = filters;
+
   const where: Prisma.TripWhereInput = {
     userId,
     deletedAt: null,
@@ -307,48 +670,204 @@ export async function listTrips(
     if (endDate) where.startTime.lte = new Date(endDate);
   }
 
-  // Parse sort parameter
-  const sortField = sort.startsWith('-') ? sort.slice(1) : sort;
-  const sortOrder = sort.startsWith('-') ? 'desc' : 'asc';
+  const conditions: Prisma.TripWhereInput[] = [];
+
+  // Weather is stored as JSON by the trip worker
+  if (weather) conditions.push({ weatherConditions: { path: ['condition'], equals: weather } });
+  if (adverseWeather !== undefined) {
+    conditions.push({ weatherConditions: { path: ['adverse'], equals: adverseWeather } });
+  }
 
-  const orderBy: Prisma.TripOrderByWithRelationInput = {};
-  if (sortField === 'startTime') orderBy.startTime = sortOrder;
-  else if (sortField === 'distance') orderBy.distanceMeters = sortOrder;
-  else if (sortField === 'duration') orderBy.durationSeconds = sortOrder;
-  else orderBy.startTime = 'desc';
+  // Flagged trips are the ones still waiting for the user's review
+  if (anomaly) conditions.push({ anomalyFlags: { has: anomaly } });
+  if (flagged === true) {
+    conditions.push({ anomalyFlags: { isEmpty: false }, anomaliesConfirmedAt: null });
+  } else if (flagged === false) {
+    conditions.push(REPORTABLE_TRIP_FILTER);
+  }
+
+  if (conditions.length > 0) where.AND = conditions;
+
+  return where;
+}
+
+// buildTripFilter as SQL conditions on trips t, for queries Prisma cannot
+// express. The two must select the same trips.
+function buildTripFilterSql(userId: string, filters: TripFilters): Prisma.Sql[] {
+  const {
+    vehicleId,
+    category,
+    startDate,
+    endDate,
+    minDistance,
+    status,
+    weather,
+    adverseWeather,
+    anomaly,
+    flagged,
+  } = filters;
+
+  const conditions = [Prisma.sql`t.user_id = ${userId}::uuid`, Prisma.sql`t.deleted_at IS NULL`];
+
+  if (vehicleId) conditions.push(Prisma.sql`t.vehicle_id = ${vehicleId}::uuid`);
+  if (category) conditions.push(Prisma.sql`t.category = ${category}::"TripCategory"`);
+  if (status) conditions.push(Prisma.sql`t.status = ${status}::"TripStatus"`);
+  if (minDistance) conditions.push(Prisma.sql`t.distance_meters >= ${minDistance}`);
+  if (startDate) conditions.push(Prisma.sql`t.start_time >= ${new Date(startDate)}`);
+  if (endDate) conditions.push(Prisma.sql`t.start_time <= ${new Date(endDate)}`);
+
+  if (weather) {
+    conditions.push(Prisma.sql`t.weather_conditions @> jsonb_build_object('condition', ${weather}::text)`);
+  }
+  if (adverseWeather !== undefined) {
+    conditions.push(Prisma.sql`t.weather_conditions @> jsonb_build_object('adverse', ${adverseWeather}::boolean)`);
+  }
+
+  if (anomaly) conditions.push(Prisma.sql`${anomaly} = ANY(t.anomaly_flags)`);
+  if (flagged === true) {
+    conditions.push(Prisma.sql`cardinality(t.anomaly_flags) > 0 AND t.anomalies_confirmed_at IS NULL`);
+  } else if (flagged === false) {
+    conditions.push(Prisma.sql`(cardinality(t.anomaly_flags) = 0 OR t.anomalies_confirmed_at IS NOT NULL)`);
+  }
+
+  return conditions;
+}
+
+// Applies the same classification changes to many trips. Only trips where a
+// field actually changes are written, each with its own audit log entry.
+export async function bulkUpdateTrips(
+  userId: string,
+  subscriptionTier: SubscriptionTier,
+  input: BulkUpdateTripsInput,
+  requestInfo: { ipAddress?: string; userAgent?: string } = {}
+): Promise<BulkUpdateTripsResult> {
+  const limit = BULK_EDIT_LIMITS[subscriptionTier];
+  const { changes } = input;
+
+  const where: Prisma.TripWhereInput = input.tripIds
+    ? { id: { in: input.tripIds }, userId, deletedAt: null }
+    : buildTripFilter(userId, input.filter ?? {});
+
+  const matched = input.tripIds ? input.tripIds.length : await prisma.trip.count({ where });
+  if (matched > limit) {
+    throw new QuotaExceededError('Bulk trip edit', limit);
+  }
 
-  const [trips, total] = await Promise.all([
-    prisma.trip.findMany({
+  if (changes.vehicleId) {
+    const vehicle = await prisma.vehicle.findFirst({
+      where: {
+        id: changes.vehicleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle');
+    }
+  }
+
+  const { results, changedTrips } = await prisma.$transaction(async (tx) => {
+    const trips = await tx.trip.findMany({
       where,
-      orderBy,
-      skip: offset,
-      take: perPage,
-      include: {
-        vehicle: {
-          select: {
-            id: true,
-            nickname: true,
-            make: true,
-            model: true,
-          },
-        },
+      orderBy: { startTime: 'asc' },
+      select: {
+        id: true,
+        status: true,
+        category: true,
+        purpose: true,
+        clientName: true,
+        projectName: true,
+        tags: true,
+        vehicleId: true,
+        userVerified: true,
       },
-    }),
-    prisma.trip.count({ where }),
-  ]);
+    });
 
-  const totalPages = Math.ceil(total / perPage);
+    const byId = new Map(trips.map((trip) => [trip.id, trip]));
+    const ids = input.tripIds ?? trips.map((trip) => trip.id);
+
+    const results: BulkTripResult[] = [];
+    const changedTrips: typeof trips = [];
+    const auditEntries: Prisma.AuditLogCreateManyInput[] = [];
+
+    for (const tripId of ids) {
+      const trip = byId.get(tripId);
+      if (!trip) {
+        results.push({ tripId, status: 'not_found' });
+        continue;
+      }
+
+      const changedFields = diffTripChanges(trip, changes);
+      if (changedFields.length === 0) {
+        results.push({ tripId, status: 'unchanged' });
+        continue;
+      }
+
+      results.push({ tripId, status: 'updated', changedFields });
+      changedTrips.push(trip);
+      auditEntries.push({
+        userId,
+        action: 'trip.bulk_update',
+        entityType: 'trip',
+        entityId: tripId,
+        oldValue: pickFields(trip, changedFields),
+        newValue: pickFields(changes, changedFields),
+        ipAddress: requestInfo.ipAddress,
+        userAgent: requestInfo.userAgent,
+        metadata: { matched },
+      });
+    }
+
+    if (changedTrips.length > 0) {
+      // Every changed trip gets the same values, so one statement covers them
+      await tx.trip.updateMany({
+        where: { id: { in: changedTrips.map((trip) => trip.id) } },
+        data: {
+          category: changes.category as TripCategory | undefined,
+          categorySetByUser: changes.category !== undefined ? true : undefined,
+          classificationReason: changes.category !== undefined ? null : undefined,
+          purpose: changes.purpose,
+          clientName: changes.clientName,
+          projectName: changes.projectName,
+          tags: changes.tags,
+          vehicleId: changes.vehicleId,
+          userVerified: changes.userVerified,
+        },
+      });
+
+      await tx.auditLog.createMany({ data: auditEntries });
+    }
+
+    return { results, changedTrips };
+  }, { timeout: TRIP_EDIT_TIMEOUT_MS });
+
+  tripLogger.info({
+    userId,
+    matched,
+    updated: changedTrips.length,
+    fields: Object.keys(changes),
+  }, 'Trips bulk updated');
+
+  for (const trip of changedTrips) {
+    await refreshTripCompliance(trip.id);
+  }
+
+  // Fuel use depends on the vehicle
+  if (changes.vehicleId !== undefined) {
+    for (const trip of changedTrips) {
+      if (trip.vehicleId === changes.vehicleId) continue;
+      await syncTripOdometer(trip.id);
+      if (trip.status !== 'recording') {
+        await updateTripFuelEstimate(trip.id);
+      }
+    }
+  }
 
   return {
-    data: trips,
-    pagination: {
-      page,
-      perPage,
-      total,
-      totalPages,
-      hasNext: page < totalPages,
-      hasPrev: page > 1,
-    },
+    matched,
+    updated: changedTrips.length,
+    results,
   };
 }
 
@@ -370,32 +889,334 @@ export async function deleteTrip(userId: string, tripId: string): Promise<void>
     data: { deletedAt: new Date() },
   });
 
+  await syncTripOdometer(tripId);
+  await refreshTripVisits(tripId);
+
   tripLogger.info({ tripId, userId }, 'Trip deleted');
 }
 
-// Haversine formula to calculate distance between two coordinates
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371000; // Earth's radius in meters
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
+export async function mergeTrips(userId: string, input: MergeTripsInput): Promise<Trip> {
+  const trips = await prisma.trip.findMany({
+    where: {
+      id: { in: input.tripIds },
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (trips.length !== input.tripIds.length) {
+    throw new NotFoundError('Trip');
+  }
+
+  const ordered = input.tripIds.map((id) => trips.find((t) => t.id === id)!);
+
+  if (ordered.some((t) => t.status === 'recording')) {
+    throw new BadRequestError('Trips that are still recording cannot be merged');
+  }
+
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1]!;
+    if (ordered[i]!.startTime < (previous.endTime ?? previous.startTime)) {
+      throw new BadRequestError('Trips must be listed in chronological order and must not overlap', {
+        tripId: ordered[i]!.id,
+      });
+    }
+  }
+
+  const vehicleIds = [...new Set(ordered.map((t) => t.vehicleId).filter((id): id is string => id !== null))];
+  if (vehicleIds.length > 1) {
+    throw new BadRequestError('Trips recorded with different vehicles cannot be merged');
+  }
+
+  const [target, ...sources] = ordered as [Trip, ...Trip[]];
+  const last = ordered[ordered.length - 1]!;
+  const sourceIds = sources.map((t) => t.id);
+
+  const merged = await prisma.$transaction(async (tx) => {
+    for (const trip of ordered) {
+      await unpackTripWaypoints(trip.id, tx);
+    }
+
+    // Append each trip's waypoints after the ones already on the target
+    let offset = await maxSequenceNumber(tx, target.id);
+    for (const source of sources) {
+      const sourceMax = await maxSequenceNumber(tx, source.id);
+      await tx.tripWaypoint.updateMany({
+        where: { tripId: source.id },
+        data: {
+          tripId: target.id,
+          sequenceNumber: { increment: offset },
+        },
+      });
+      offset += sourceMax;
+    }
+
+    const relinked = await tx.expense.updateMany({
+      where: { tripId: { in: sourceIds } },
+      data: { tripId: target.id },
+    });
+
+    await tx.trip.updateMany({
+      where: { id: { in: sourceIds } },
+      data: { deletedAt: new Date() },
+    });
+
+    const waypoints = await tx.tripWaypoint.findMany({
+      where: { tripId: target.id },
+      orderBy: { sequenceNumber: 'asc' },
+    });
+
+    const endTime = last.endTime ?? waypoints[waypoints.length - 1]?.timestamp ?? target.startTime;
+    const notes = ordered.map((t) => t.notes).filter((n): n is string => !!n);
+
+    const updated = await tx.trip.update({
+      where: { id: target.id },
+      data: {
+        ...summarizeWaypoints(waypoints),
+        ...CLEARED_ROUTE_FIELDS,
+        status: 'completed',
+        vehicleId: vehicleIds[0] ?? null,
+        endLatitude: last.endLatitude,
+        endLongitude: last.endLongitude,
+        endAddress: last.endAddress,
+        endPlaceName: last.endPlaceName,
+        endTime,
+        durationSeconds: Math.floor((endTime.getTime() - target.startTime.getTime()) / 1000),
+        purpose: target.purpose ?? sources.find((t) => t.purpose)?.purpose ?? null,
+        clientName: target.clientName ?? sources.find((t) => t.clientName)?.clientName ?? null,
+        projectName: target.projectName ?? sources.find((t) => t.projectName)?.projectName ?? null,
+        tags: [...new Set(ordered.flatMap((t) => t.tags))],
+        notes: notes.length > 0 ? notes.join('\n\n') : null,
+      },
+    });
+
+    await recordTripStops(target.id, tx);
+
+    tripLogger.info({
+      tripId: target.id,
+      userId,
+      mergedTripIds: sourceIds,
+      waypointCount: waypoints.length,
+      relinkedExpenses: relinked.count,
+    }, 'Trips merged');
+
+    return updated;
+  }, { timeout: TRIP_EDIT_TIMEOUT_MS });
+
+  await enqueueReprocessing([merged]);
+  for (const sourceId of sourceIds) {
+    await syncTripOdometer(sourceId);
+    await refreshTripVisits(sourceId);
+  }
+  await syncTripOdometer(merged.id);
+  await refreshTripVisits(merged.id);
+
+  const estimated = await updateTripFuelEstimate(merged.id);
+  return (await refreshTripCompliance(merged.id)) ?? estimated ?? merged;
+}
+
+export async function splitTrip(
+  userId: string,
+  tripId: string,
+  input: SplitTripInput
+): Promise<{ original: Trip; created: Trip }> {
+  const trip = await prisma.trip.findFirst({
+    where: {
+      id: tripId,
+      userId,
+      deletedAt: null,
+    },
+  });
+
+  if (!trip) {
+    throw new NotFoundError('Trip');
+  }
+
+  if (trip.status === 'recording') {
+    throw new BadRequestError('Trips that are still recording cannot be split');
+  }
+
+  const waypoints = await loadTripWaypoints(tripId);
+
+  const splitAt = input.timestamp ? new Date(input.timestamp) : null;
+  const splitIndex = waypoints.findIndex((wp) =>
+    splitAt ? wp.timestamp >= splitAt : wp.sequenceNumber >= input.sequenceNumber!
+  );
+
+  if (splitIndex < MIN_SPLIT_WAYPOINTS || waypoints.length - splitIndex < MIN_SPLIT_WAYPOINTS) {
+    throw new BadRequestError(`Split point must leave at least ${MIN_SPLIT_WAYPOINTS} waypoints in each trip`);
+  }
+
+  const head = waypoints.slice(0, splitIndex);
+  const tail = waypoints.slice(splitIndex);
+  const lastKept = head[head.length - 1]!;
+  const firstMoved = tail[0]!;
+  const endTime = trip.endTime ?? tail[tail.length - 1]!.timestamp;
+
+  // Expenses with a known vendor location follow the half they were bought on
+  const expenses = await prisma.expense.findMany({
+    where: {
+      tripId,
+      deletedAt: null,
+      vendorLatitude: { not: null },
+      vendorLongitude: { not: null },
+    },
+    select: { id: true, vendorLatitude: true, vendorLongitude: true },
+  });
+  const movedExpenseIds = expenses
+    .filter((e) => {
+      const lat = Number(e.vendorLatitude);
+      const lng = Number(e.vendorLongitude);
+      return nearestWaypointDistance(tail, lat, lng) < nearestWaypointDistance(head, lat, lng);
+    })
+    .map((e) => e.id);
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Rows are moved by sequence number, which unpacking preserves
+    await unpackTripWaypoints(tripId, tx);
+
+    const created = await tx.trip.create({
+      data: {
+        userId,
+        vehicleId: trip.vehicleId,
+        status: 'completed',
+        category: trip.category,
+        categorySetByUser: trip.categorySetByUser,
+        purpose: trip.purpose,
+        clientName: trip.clientName,
+        projectName: trip.projectName,
+        tags: trip.tags,
+        detectionMethod: trip.detectionMethod,
+        startTime: firstMoved.timestamp,
+        startLatitude: firstMoved.latitude,
+        startLongitude: firstMoved.longitude,
+        endTime,
+        endLatitude: trip.endLatitude,
+        endLongitude: trip.endLongitude,
+        endAddress: trip.endAddress,
+        endPlaceName: trip.endPlaceName,
+        durationSeconds: Math.floor((endTime.getTime() - firstMoved.timestamp.getTime()) / 1000),
+        ...summarizeWaypoints(tail),
+      },
+    });
+
+    await tx.tripWaypoint.updateMany({
+      where: { tripId, sequenceNumber: { gte: firstMoved.sequenceNumber } },
+      data: {
+        tripId: created.id,
+        sequenceNumber: { decrement: firstMoved.sequenceNumber - 1 },
+      },
+    });
+
+    if (movedExpenseIds.length > 0) {
+      await tx.expense.updateMany({
+        where: { id: { in: movedExpenseIds } },
+        data: { tripId: created.id },
+      });
+    }
+
+    const original = await tx.trip.update({
+      where: { id: tripId },
+      data: {
+        ...summarizeWaypoints(head),
+        ...CLEARED_ROUTE_FIELDS,
+        status: 'completed',
+        endLatitude: lastKept.latitude,
+        endLongitude: lastKept.longitude,
+        endAddress: null,
+        endPlaceName: null,
+        endTime: lastKept.timestamp,
+        durationSeconds: Math.floor((lastKept.timestamp.getTime() - trip.startTime.getTime()) / 1000),
+      },
+    });
+
+    await recordTripStops(tripId, tx);
+    await recordTripStops(created.id, tx);
+
+    return { original, created };
+  }, { timeout: TRIP_EDIT_TIMEOUT_MS });
+
+  tripLogger.info({
+    tripId,
+    userId,
+    newTripId: result.created.id,
+    splitSequence: firstMoved.sequenceNumber,
+    movedWaypoints: tail.length,
+    movedExpenses: movedExpenseIds.length,
+  }, 'Trip split');
+
+  await enqueueReprocessing([result.original, result.created]);
+
+  await updateTripFuelEstimate(result.original.id);
+  await updateTripFuelEstimate(result.created.id);
+  await syncTripOdometer(result.original.id);
+  await syncTripOdometer(result.created.id);
+  await refreshTripVisits(result.original.id);
+  await refreshTripVisits(result.created.id);
+
+  return {
+    original: (await refreshTripCompliance(result.original.id)) ?? result.original,
+    created: (await refreshTripCompliance(result.created.id)) ?? result.created,
+  };
+}
+
+// Clean GPS noise before computing statistics; raw rows stay untouched
+export function summarizeWaypoints(waypoints: TripWaypoint[]) {
+  const detected = detectTripAnomalies(waypoints.map(toGpsFix));
+  const filtered = filterGpsFixes(detected.points);
+  const stats = computeTripStatistics(filtered.points);
+
+  return {
+    distanceMeters: Math.round(stats.distanceMeters),
+    idleTimeSeconds: Math.round(stats.idleTimeSeconds),
+    maxSpeedMph: stats.maxSpeedMph,
+    avgSpeedMph: stats.avgSpeedMph,
+    rejectedWaypointCount: filtered.rejectedCount,
+    ...anomalyFields(detected),
+  };
+}
+
+async function maxSequenceNumber(tx: Prisma.TransactionClient, tripId: string): Promise<number> {
+  const result = await tx.tripWaypoint.aggregate({
+    where: { tripId },
+    _max: { sequenceNumber: true },
+  });
+  return result._max.sequenceNumber ?? 0;
+}
+
+function nearestWaypointDistance(waypoints: TripWaypoint[], latitude: number, longitude: number): number {
+  let nearest = Infinity;
+  for (const wp of waypoints) {
+    nearest = Math.min(nearest, calculateDistance(latitude, longitude, Number(wp.latitude), Number(wp.longitude)));
+  }
+  return nearest;
+}
+
+async function enqueueReprocessing(trips: Trip[]): Promise<void> {
+  for (const trip of trips) {
+    try {
+      await addTripProcessingJob({ tripId: trip.id, userId: trip.userId, reprocess: true });
+    } catch (error) {
+      tripLogger.warn({ tripId: trip.id, error }, 'Failed to enqueue trip processing');
+    }
+  }
+}
+
+// Fields in changes whose value differs from the trip's
+function diffTripChanges(trip: Record<string, unknown>, changes: BulkTripChanges): string[] {
+  return Object.entries(changes)
+    .filter(([field, value]) => {
+      if (value === undefined) return false;
+      const current = trip[field];
+      if (Array.isArray(value) && Array.isArray(current)) {
+        return value.length !== current.length || value.some((tag, i) => tag !== current[i]);
+      }
+      return value !== current;
+    })
+    .map(([field]) => field);
 }
 
-function toRad(deg: number): number {
-  return deg * (Math.PI / 180);
+function pickFields(source: object, fields: string[]): Prisma.InputJsonObject {
+  const values = source as Record<string, Prisma.InputJsonValue | null>;
+  return Object.fromEntries(fields.map((field) => [field, values[field] ?? null]));
 }
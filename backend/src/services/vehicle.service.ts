@@ -8,6 +8,7 @@ import type {
   VehicleFilterInput,
   PaginatedResponse,
 } from '../types/index.js';
+import { recordOdometerReading } from './odometer.service.js';
 import type { Vehicle, VehicleMaintenanceRecord, SubscriptionTier, Prisma, FuelType } from '@prisma/client';
 
 const VEHICLE_LIMITS: Record<SubscriptionTier, number> = {
@@ -70,6 +71,17 @@ export async function createVehicle(
 
   vehicleLogger.info({ vehicleId: vehicle.id, userId }, 'Vehicle created');
 
+  // The starting odometer is the first entry in the reading history
+  if (vehicle.odometerReading > 0) {
+    await recordOdometerReading({
+      vehicleId: vehicle.id,
+      reading: vehicle.odometerReading,
+      recordedAt: vehicle.createdAt,
+      source: 'manual',
+    });
+    return prisma.vehicle.findUniqueOrThrow({ where: { id: vehicle.id } });
+  }
+
   return vehicle;
 }
 
@@ -157,6 +169,16 @@ export async function updateVehicle(
 
   vehicleLogger.info({ vehicleId, userId }, 'Vehicle updated');
 
+  if (input.odometerReading !== undefined) {
+    await recordOdometerReading({
+      vehicleId,
+      reading: input.odometerReading,
+      recordedAt: input.odometerUpdatedAt ? new Date(input.odometerUpdatedAt) : new Date(),
+      source: 'manual',
+    });
+    return prisma.vehicle.findUniqueOrThrow({ where: { id: vehicleId } });
+  }
+
   return updated;
 }
 
@@ -280,16 +302,14 @@ export async function addMaintenanceRecord(
     },
   });
 
-  // Update vehicle odometer if service odometer is higher
-  if (input.odometerAtService > vehicle.odometerReading) {
-    await prisma.vehicle.update({
-      where: { id: vehicleId },
-      data: {
-        odometerReading: input.odometerAtService,
-        odometerUpdatedAt: new Date(),
-      },
-    });
-  }
+  // Raises the vehicle odometer if the service odometer is higher
+  await recordOdometerReading({
+    vehicleId,
+    reading: input.odometerAtService,
+    recordedAt: new Date(input.performedAt),
+    source: 'maintenance',
+    maintenanceRecordId: record.id,
+  });
 
   vehicleLogger.info({ vehicleId, recordId: record.id, type: input.maintenanceType }, 'Maintenance record added');
 
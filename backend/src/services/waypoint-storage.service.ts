@@ -0,0 +1,150 @@
+import { prisma } from '../config/database.js';
+import { tripLogger } from '../utils/logger.js';
+import { encodeWaypoints, decodeWaypoints } from '../utils/waypoint-codec.js';
+import type { Prisma, TripWaypoint } from '@prisma/client';
+
+// Where a trip's waypoints live. Recording trips append rows to
+// trip_waypoints; once a trip has been processed its rows are packed into a
+// single trip_tracks blob. Readers go through loadTripWaypoints and never
+// need to know which form a trip is in. Code that rewrites waypoint rows
+// (merge, split) unpacks the trip first and the next processing run packs
+// it again.
+
+// Trips packed per batch by the backfill
+export const PACK_BATCH_SIZE = 100;
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+// Rows are read first: packing writes the track before deleting rows in one
+// transaction, so an empty read always finds the committed track
+export async function loadTripWaypoints(tripId: string, client: Client = prisma): Promise<TripWaypoint[]> {
+  const rows = await client.tripWaypoint.findMany({
+    where: { tripId },
+    orderBy: { sequenceNumber: 'asc' },
+  });
+  if (rows.length > 0) return rows;
+
+  const track = await client.tripTrack.findUnique({ where: { tripId } });
+  return track ? decodeWaypoints(tripId, track.data, track.packedAt) : [];
+}
+
+export async function loadWaypointsForTrips(
+  tripIds: string[],
+  client: Client = prisma
+): Promise<Map<string, TripWaypoint[]>> {
+  const byTrip = new Map<string, TripWaypoint[]>(tripIds.map((id) => [id, []]));
+  if (tripIds.length === 0) return byTrip;
+
+  const rows = await client.tripWaypoint.findMany({
+    where: { tripId: { in: tripIds } },
+    orderBy: [{ tripId: 'asc' }, { sequenceNumber: 'asc' }],
+  });
+  for (const row of rows) {
+    byTrip.get(row.tripId)!.push(row);
+  }
+
+  const packedIds = tripIds.filter((id) => byTrip.get(id)!.length === 0);
+  if (packedIds.length > 0) {
+    const tracks = await client.tripTrack.findMany({ where: { tripId: { in: packedIds } } });
+    for (const track of tracks) {
+      byTrip.set(track.tripId, decodeWaypoints(track.tripId, track.data, track.packedAt));
+    }
+  }
+
+  return byTrip;
+}
+
+// Moves a finished trip's rows into its track. Returns the number of points
+// packed; recording trips and trips without rows are left alone.
+export async function packTripWaypoints(tripId: string): Promise<number> {
+  const packed = await prisma.$transaction(async (tx) => {
+    // Same lock as waypoint uploads and unpacking
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${tripId}))`;
+
+    const trip = await tx.trip.findUnique({ where: { id: tripId }, select: { status: true } });
+    if (!trip || trip.status === 'recording') return 0;
+
+    const rows = await tx.tripWaypoint.findMany({
+      where: { tripId },
+      orderBy: { sequenceNumber: 'asc' },
+    });
+    if (rows.length === 0) return 0;
+
+    const data = encodeWaypoints(rows);
+
+    await tx.tripTrack.upsert({
+      where: { tripId },
+      create: { tripId, pointCount: rows.length, data },
+      update: { pointCount: rows.length, data, packedAt: new Date() },
+    });
+
+    await tx.tripWaypoint.deleteMany({ where: { tripId } });
+
+    return rows.length;
+  });
+
+  if (packed > 0) {
+    tripLogger.debug({ tripId, pointCount: packed }, 'Trip waypoints packed');
+  }
+
+  return packed;
+}
+
+// Restores rows from a packed track so they can be edited. Must run inside
+// the transaction doing the edit; the lock keeps the trip from being packed
+// again until it commits.
+export async function unpackTripWaypoints(tripId: string, tx: Prisma.TransactionClient): Promise<number> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${tripId}))`;
+
+  const track = await tx.tripTrack.findUnique({ where: { tripId } });
+  if (!track) return 0;
+
+  const waypoints = decodeWaypoints(tripId, track.data, track.packedAt);
+
+  await tx.tripWaypoint.createMany({ data: waypoints });
+  await tx.tripTrack.delete({ where: { tripId } });
+
+  tripLogger.debug({ tripId, pointCount: waypoints.length }, 'Trip waypoints unpacked');
+
+  return waypoints.length;
+}
+
+// Packs one batch of finished trips that still have rows, in id order after
+// the cursor. Used by the cleanup sweep to backfill trips stored before
+// packing existed and to catch trips whose processing failed. A trip that
+// fails to pack is logged and passed over, so callers keep paging with the
+// returned cursor; it is null once there is nothing left to look at.
+export async function packFinishedTrips(
+  batchSize: number = PACK_BATCH_SIZE,
+  afterId: string | null = null
+): Promise<{ trips: number; points: number; cursor: string | null }> {
+  const candidates = await prisma.trip.findMany({
+    where: {
+      status: { not: 'recording' },
+      waypoints: { some: {} },
+      ...(afterId && { id: { gt: afterId } }),
+    },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+    take: batchSize,
+  });
+
+  let trips = 0;
+  let points = 0;
+
+  for (const candidate of candidates) {
+    try {
+      const packed = await packTripWaypoints(candidate.id);
+      if (packed > 0) {
+        trips++;
+        points += packed;
+      }
+    } catch (error) {
+      tripLogger.error({ tripId: candidate.id, error }, 'Failed to pack trip waypoints');
+    }
+  }
+
+  const cursor = candidates.length < batchSize ? null : candidates.at(-1)!.id;
+
+  return { trips, points, cursor };
+}
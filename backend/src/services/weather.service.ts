@@ -0,0 +1,258 @@
+import { readFile } from 'fs/promises';
+import type { Prisma } from '@prisma/client';
+import { config } from '../config/env.js';
+import { cache } from '../config/redis.js';
+import { jobLogger } from '../utils/logger.js';
+import { encodeGeohash } from '../utils/geo.js';
+
+// Weather at the start of a trip, stored in Trip.weatherConditions. Lookups
+// are cached per ~5 km geohash cell and hour, so trips from the same area
+// share one provider call.
+
+export type WeatherCondition = 'clear' | 'clouds' | 'rain' | 'snow' | 'fog' | 'storm';
+
+export const WEATHER_CONDITIONS: WeatherCondition[] = ['clear', 'clouds', 'rain', 'snow', 'fog', 'storm'];
+
+export interface WeatherObservation {
+  condition: WeatherCondition;
+  description: string | null;
+  temperatureC: number | null;
+  precipitationMmPerHour: number;
+  visibilityMeters: number | null;
+  windSpeedMps: number | null;
+}
+
+export interface WeatherConditions extends WeatherObservation {
+  // Rain, snow, fog, storms or poor visibility
+  adverse: boolean;
+  // Start of the hour the observation applies to
+  observedAt: string;
+  provider: string;
+}
+
+export interface WeatherProvider {
+  name: string;
+  getConditions(latitude: number, longitude: number, at: Date): Promise<WeatherObservation | null>;
+}
+
+const GEOHASH_PRECISION = 5;
+const CACHE_TTL_SECONDS = 7 * 24 * 3600;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const ADVERSE_CONDITIONS = new Set<WeatherCondition>(['rain', 'snow', 'fog', 'storm']);
+const ADVERSE_VISIBILITY_METERS = 1000;
+const ADVERSE_PRECIPITATION_MM = 0.5;
+
+const OPENWEATHER_API_URL = 'https://api.openweathermap.org/data/3.0/onecall/timemachine';
+
+let cachedProvider: WeatherProvider | null | undefined;
+
+export function getWeatherProvider(): WeatherProvider | null {
+  if (cachedProvider !== undefined) return cachedProvider;
+
+  const { provider, fixturePath } = config.weather;
+  const apiKey = config.externalApis.openWeatherApiKey;
+
+  if (provider === 'openweather' && apiKey) {
+    cachedProvider = createOpenWeatherProvider({ apiKey });
+  } else if (provider === 'fixture') {
+    cachedProvider = createFixtureWeatherProvider({ path: fixturePath });
+  } else {
+    if (provider !== 'none') {
+      jobLogger.warn({ provider }, 'Weather provider is not fully configured; weather enrichment disabled');
+    }
+    cachedProvider = null;
+  }
+
+  return cachedProvider;
+}
+
+export async function getWeatherConditions(
+  latitude: number,
+  longitude: number,
+  at: Date
+): Promise<WeatherConditions | null> {
+  const provider = getWeatherProvider();
+  if (!provider) return null;
+
+  const hour = new Date(at);
+  hour.setUTCMinutes(0, 0, 0);
+  const observedAt = hour.toISOString();
+
+  const cacheKey = `weather:${provider.name}:${encodeGeohash(latitude, longitude, GEOHASH_PRECISION)}:${observedAt}`;
+
+  try {
+    const cached = await cache.get<WeatherConditions>(cacheKey);
+    if (cached) return cached;
+  } catch (error) {
+    jobLogger.warn({ cacheKey, error }, 'Weather cache read failed');
+  }
+
+  const observation = await provider.getConditions(latitude, longitude, at);
+  if (!observation) return null;
+
+  const conditions: WeatherConditions = {
+    ...observation,
+    adverse: isAdverse(observation),
+    observedAt,
+    provider: provider.name,
+  };
+
+  try {
+    await cache.set(cacheKey, conditions, CACHE_TTL_SECONDS);
+  } catch (error) {
+    jobLogger.warn({ cacheKey, error }, 'Weather cache write failed');
+  }
+
+  return conditions;
+}
+
+export function isAdverse(observation: WeatherObservation): boolean {
+  return (
+    ADVERSE_CONDITIONS.has(observation.condition) ||
+    observation.precipitationMmPerHour >= ADVERSE_PRECIPITATION_MM ||
+    (observation.visibilityMeters !== null && observation.visibilityMeters < ADVERSE_VISIBILITY_METERS)
+  );
+}
+
+// The snapshot as stored in Trip.weatherConditions. Fields are copied one by
+// one so anything extra on a cached entry is not persisted with it.
+export function toWeatherJson(conditions: WeatherConditions): Prisma.InputJsonObject {
+  return {
+    condition: conditions.condition,
+    description: conditions.description,
+    temperatureC: conditions.temperatureC,
+    precipitationMmPerHour: conditions.precipitationMmPerHour,
+    visibilityMeters: conditions.visibilityMeters,
+    windSpeedMps: conditions.windSpeedMps,
+    adverse: conditions.adverse,
+    observedAt: conditions.observedAt,
+    provider: conditions.provider,
+  };
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+// OpenWeather One Call 3.0 "timemachine": conditions at a given timestamp,
+// which also covers trips processed well after they ended
+export function createOpenWeatherProvider(options: { apiKey: string }): WeatherProvider {
+  return {
+    name: 'openweather',
+
+    async getConditions(latitude, longitude, at) {
+      const params = new URLSearchParams({
+        lat: String(latitude),
+        lon: String(longitude),
+        dt: String(Math.floor(at.getTime() / 1000)),
+        units: 'metric',
+        appid: options.apiKey,
+      });
+
+      const response = await fetch(`${OPENWEATHER_API_URL}?${params}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenWeather request failed with ${response.status}`);
+      }
+
+      const data = await response.json() as {
+        data?: Array<{
+          temp?: number;
+          visibility?: number;
+          wind_speed?: number;
+          rain?: { '1h'?: number };
+          snow?: { '1h'?: number };
+          weather?: Array<{ id: number; main: string; description: string }>;
+        }>;
+      };
+
+      const current = data.data?.[0];
+      if (!current) return null;
+
+      const weather = current.weather?.[0];
+
+      return {
+        condition: weather ? mapOpenWeatherCondition(weather.main) : 'clear',
+        description: weather?.description ?? null,
+        temperatureC: current.temp ?? null,
+        precipitationMmPerHour: (current.rain?.['1h'] ?? 0) + (current.snow?.['1h'] ?? 0),
+        visibilityMeters: current.visibility ?? null,
+        windSpeedMps: current.wind_speed ?? null,
+      };
+    },
+  };
+}
+
+interface WeatherFixtureFile {
+  default?: WeatherObservation;
+  // Keyed by geohash prefix; the longest matching prefix wins
+  cells?: Record<string, WeatherObservation>;
+}
+
+const DEFAULT_FIXTURE: WeatherObservation = {
+  condition: 'clear',
+  description: 'clear sky',
+  temperatureC: 20,
+  precipitationMmPerHour: 0,
+  visibilityMeters: 10000,
+  windSpeedMps: 2,
+};
+
+// Deterministic weather from a local JSON file, for development and tests.
+// Without a file every location reports a clear day.
+export function createFixtureWeatherProvider(options: { path?: string }): WeatherProvider {
+  let fixtures: Promise<WeatherFixtureFile> | null = null;
+
+  const load = (): Promise<WeatherFixtureFile> => {
+    if (!fixtures) {
+      fixtures = options.path
+        ? readFile(options.path, 'utf8').then((content) => JSON.parse(content) as WeatherFixtureFile)
+        : Promise.resolve({});
+    }
+    return fixtures;
+  };
+
+  return {
+    name: 'fixture',
+
+    async getConditions(latitude, longitude) {
+      const file = await load();
+      const geohash = encodeGeohash(latitude, longitude, 12);
+
+      let match: WeatherObservation | null = null;
+      let matchLength = 0;
+      for (const [prefix, observation] of Object.entries(file.cells ?? {})) {
+        if (geohash.startsWith(prefix) && prefix.length > matchLength) {
+          match = observation;
+          matchLength = prefix.length;
+        }
+      }
+
+      return match ?? file.default ?? DEFAULT_FIXTURE;
+    },
+  };
+}
+
+function mapOpenWeatherCondition(main: string): WeatherCondition {
+  switch (main) {
+    case 'Clear':
+      return 'clear';
+    case 'Clouds':
+      return 'clouds';
+    case 'Rain':
+    case 'Drizzle':
+      return 'rain';
+    case 'Snow':
+      return 'snow';
+    case 'Thunderstorm':
+    case 'Squall':
+    case 'Tornado':
+      return 'storm';
+    default:
+      // Mist, Fog, Haze, Smoke, Dust, Sand, Ash
+      return 'fog';
+  }
+}
@@ -138,6 +138,7 @@ export interface ApiError {
 // ============================================================================
 
 export interface CreateTripRequest {
+  id?: string;
   vehicleId?: string;
   startLatitude: number;
   startLongitude: number;
@@ -175,6 +176,41 @@ export interface WaypointInput {
   altitudeMeters?: number;
   horizontalAccuracy?: number;
   verticalAccuracy?: number;
+  // Client-assigned order, used as the idempotency key when present
+  sequenceNumber?: number;
+}
+
+export interface MergeTripsRequest {
+  tripIds: string[];
+}
+
+export interface SplitTripRequest {
+  sequenceNumber?: number;
+  timestamp?: string;
+}
+
+export type BulkTripChanges = Pick<
+  UpdateTripRequest,
+  'category' | 'purpose' | 'clientName' | 'projectName' | 'tags' | 'vehicleId' | 'userVerified'
+>;
+
+// Either explicit ids or a filter selects the trips to change
+export interface BulkUpdateTripsRequest {
+  tripIds?: string[];
+  filter?: TripFilters;
+  changes: BulkTripChanges;
+}
+
+export interface BulkTripResult {
+  tripId: string;
+  status: 'updated' | 'unchanged' | 'not_found';
+  changedFields?: string[];
+}
+
+export interface BulkUpdateTripsResult {
+  matched: number;
+  updated: number;
+  results: BulkTripResult[];
 }
 
 export interface TripFilters {
@@ -184,6 +220,148 @@ export interface TripFilters {
   endDate?: string;
   minDistance?: number;
   status?: string;
+  weather?: string;
+  adverseWeather?: boolean;
+  anomaly?: string;
+  // true: anomalies awaiting review; false: nothing left to review
+  flagged?: boolean;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLongitude: number;
+  minLatitude: number;
+  maxLongitude: number;
+  maxLatitude: number;
+}
+
+// Spatial filters for listing trips
+export interface TripSpatialFilters {
+  // Trips starting and/or ending within `radius` meters of this point
+  near?: GeoPoint;
+  radius?: number;
+  nearEndpoint?: 'start' | 'end' | 'any';
+  // Trips whose route passes through the area
+  bbox?: BoundingBox;
+  // [longitude, latitude] vertices
+  polygon?: Array<[number, number]>;
+}
+
+export interface TripSearchRequest {
+  q: string;
+  page: number;
+  perPage: number;
+  vehicleId?: string;
+  category?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface TripSearchMatch {
+  rank: number;
+  // Matching text with terms wrapped in <mark></mark>
+  snippet: string;
+}
+
+export interface NonCompliantTripsQuery {
+  taxYear: number;
+  page: number;
+  perPage: number;
+  category?: string;
+  issue?: 'missing_date' | 'missing_purpose' | 'missing_destination' | 'missing_mileage' | 'missing_vehicle';
+}
+
+// How much route geometry a trip response carries
+export type TripDetailLevel = 'none' | 'low' | 'high' | 'full';
+
+export type TripExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface BulkTripExportRequest extends TripFilters {
+  format: TripExportFormat;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ImportTripRequest {
+  vehicleId?: string;
+  category?: 'business' | 'personal' | 'medical' | 'charity' | 'moving' | 'commute';
+  purpose?: string;
+}
+
+// Exactly one of the two is set
+export interface TripEndpointRequest {
+  savedLocationId?: string;
+  address?: string;
+}
+
+export interface TripTemplateFields {
+  vehicleId?: string;
+  category?: 'business' | 'personal' | 'medical' | 'charity' | 'moving' | 'commute';
+  purpose?: string;
+  clientName?: string;
+  projectName?: string;
+  tags?: string[];
+}
+
+// Start and end are required unless a template supplies them; explicit
+// fields override the template's
+export interface CreateManualTripRequest extends TripTemplateFields {
+  // Client-generated id; resubmitting it returns the trip already created
+  id?: string;
+  start?: TripEndpointRequest;
+  end?: TripEndpointRequest;
+  templateId?: string;
+  // ISO timestamp, or YYYY-MM-DD in the user's time zone
+  date: string;
+  notes?: string;
+}
+
+export interface CreateTripTemplateRequest extends TripTemplateFields {
+  name: string;
+  start: TripEndpointRequest;
+  end: TripEndpointRequest;
+}
+
+// One trip, or every trip between startDate and endDate
+export interface CreateTripShareRequest {
+  tripId?: string;
+  startDate?: string;
+  endDate?: string;
+  expiresInHours: number;
+  label?: string;
+}
+
+// What a share link shows: no user, vehicle or internal identifiers
+export interface SharedTripSummary {
+  startTime: string;
+  endTime: string | null;
+  // City and region only, never the street address
+  startPlace: string | null;
+  endPlace: string | null;
+  distanceMeters: number;
+  durationSeconds: number;
+  category: string;
+  purpose: string | null;
+  // Simplified route as a Google encoded polyline, without its first and
+  // last few hundred meters
+  routePolyline: string | null;
+}
+
+export interface SharedTrips {
+  label: string | null;
+  expiresAt: string;
+  range: { start: string; end: string } | null;
+  totals: {
+    tripCount: number;
+    distanceMeters: number;
+    durationSeconds: number;
+  };
+  trips: SharedTripSummary[];
 }
 
 // ============================================================================
@@ -214,6 +392,7 @@ export interface CreateVehicleRequest {
 
 export interface UpdateVehicleRequest extends Partial<CreateVehicleRequest> {
   isActive?: boolean;
+  odometerUpdatedAt?: string;
 }
 
 export interface MaintenanceRecordRequest {
@@ -231,6 +410,56 @@ export interface MaintenanceRecordRequest {
   notes?: string;
 }
 
+export interface OdometerReadingRequest {
+  reading: number;
+  recordedAt?: string;
+  notes?: string;
+}
+
+export interface OdometerReadingFilters {
+  page: number;
+  perPage: number;
+  source?: 'trip' | 'fuel_purchase' | 'maintenance' | 'manual';
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface OdometerReconciliationQuery {
+  startDate?: string;
+  endDate?: string;
+}
+
+// Two consecutive actual readings and the trip distance logged between them,
+// in the vehicle's odometer unit
+export interface OdometerReconciliationPeriod {
+  from: { reading: number; recordedAt: Date; source: string };
+  to: { reading: number; recordedAt: Date; source: string };
+  odometerDistance: number;
+  loggedDistance: number;
+  untrackedDistance: number;
+  tripCount: number;
+  flagged: boolean;
+}
+
+export interface OdometerReconciliation {
+  vehicleId: string;
+  unit: 'miles' | 'kilometers';
+  periods: OdometerReconciliationPeriod[];
+  totals: {
+    odometerDistance: number;
+    loggedDistance: number;
+    untrackedDistance: number;
+    trackedPercent: number | null;
+  };
+}
+
+export interface OdometerAtDate {
+  reading: number;
+  // False when trip distance was added to or subtracted from the nearest reading
+  isActual: boolean;
+  basedOn: { reading: number; recordedAt: Date; source: string } | null;
+}
+
 // ============================================================================
 // Route Types
 // ============================================================================
@@ -269,6 +498,52 @@ export interface UpdateStopRequest {
   failureNotes?: string;
 }
 
+// ============================================================================
+// Location Types
+// ============================================================================
+
+export type LocationTypeValue =
+  | 'home'
+  | 'work'
+  | 'client'
+  | 'warehouse'
+  | 'restaurant'
+  | 'store'
+  | 'gas_station'
+  | 'other';
+
+export interface CreateLocationRequest {
+  name: string;
+  locationType?: LocationTypeValue;
+  address: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  autoClassifyAs?: 'business' | 'personal' | 'medical' | 'charity' | 'moving' | 'commute' | null;
+  isFavorite?: boolean;
+  notes?: string | null;
+}
+
+export type UpdateLocationRequest = Partial<CreateLocationRequest>;
+
+// A place suggestion is saved under the user's name; the type and radius
+// default to the suggestion's
+export interface AcceptPlaceSuggestionRequest {
+  name: string;
+  locationType?: LocationTypeValue;
+  radiusMeters?: number;
+  autoClassifyAs?: CreateLocationRequest['autoClassifyAs'];
+  isFavorite?: boolean;
+  notes?: string | null;
+}
+
+export interface NearestLocationQuery {
+  latitude: number;
+  longitude: number;
+  // Meters; unlimited when omitted
+  maxDistance?: number;
+}
+
 // ============================================================================
 // Expense Types
 // ============================================================================
@@ -363,6 +638,10 @@ export interface DashboardData {
   personalMiles: number;
   totalExpenses: number;
   fuelCosts: number;
+  // Estimated from trips; fuelCosts above is what was actually spent
+  estimatedFuelGallons: number;
+  estimatedFuelCost: number;
+  carbonEmissionsKg: number;
   estimatedDeduction: number;
   avgDailyMiles: number;
   mostUsedVehicle: {
@@ -378,6 +657,23 @@ export interface DashboardData {
   }>;
 }
 
+export interface WeatherDrivingStats {
+  trips: number;
+  miles: number;
+  avgSpeedMph: number | null;
+  avgDurationMinutes: number;
+  idlePercent: number;
+}
+
+export interface WeatherAnalytics {
+  period: string;
+  tripsWithWeather: number;
+  tripsWithoutWeather: number;
+  byCondition: Record<string, WeatherDrivingStats>;
+  adverse: WeatherDrivingStats;
+  normal: WeatherDrivingStats;
+}
+
 export interface TaxSummary {
   taxYear: number;
   businessMiles: number;
@@ -390,6 +686,124 @@ export interface TaxSummary {
   actualExpenses: number;
   recommendedMethod: 'standard' | 'actual';
   savingsAmount: number;
+  // Trips with GPS anomalies the user has not confirmed; not counted above
+  tripsPendingReview: number;
+  // Business trips counted as commuting instead, with the rule that applied
+  commuteAdjustments: Array<{
+    tripId: string;
+    startTime: string;
+    miles: number;
+    rule: string;
+    explanation: string;
+  }>;
+  odometerReadings: Array<{
+    vehicleId: string;
+    nickname: string;
+    unit: 'miles' | 'kilometers';
+    startOfYear: OdometerAtDate | null;
+    endOfYear: OdometerAtDate | null;
+  }>;
+}
+
+// ============================================================================
+// Timeline Types
+// ============================================================================
+
+export interface TimelinePlace {
+  savedLocationId: string | null;
+  name: string | null;
+  locationType: string | null;
+}
+
+export interface TimelineTripEntry {
+  type: 'trip';
+  startTime: string;
+  endTime: string | null;
+  tripId: string;
+  status: string;
+  category: string;
+  // False until the user has reviewed the category
+  classified: boolean;
+  distanceMeters: number;
+  durationSeconds: number;
+  startPlace: string | null;
+  endPlace: string | null;
+  vehicleId: string | null;
+  purpose: string | null;
+}
+
+// A stop detected inside a trip
+export interface TimelineStopEntry {
+  type: 'stop';
+  startTime: string;
+  endTime: string;
+  tripId: string;
+  durationSeconds: number;
+  latitude: number;
+  longitude: number;
+  place: TimelinePlace | null;
+}
+
+// Time between trips. A visit is spent at a saved location; a gap anywhere
+// else. Null times run past the edge of the day.
+export interface TimelineVisitEntry {
+  type: 'visit' | 'gap';
+  startTime: string | null;
+  endTime: string | null;
+  durationSeconds: number | null;
+  place: TimelinePlace | null;
+  placeName: string | null;
+}
+
+// Expenses and earnings are recorded per day; expenses linked to a trip are
+// placed at the end of that trip, the rest close the day with a null time
+export interface TimelineExpenseEntry {
+  type: 'expense';
+  startTime: string | null;
+  expenseId: string;
+  tripId: string | null;
+  category: string;
+  amount: number;
+  currency: string;
+  vendorName: string | null;
+  description: string | null;
+}
+
+export interface TimelineEarningEntry {
+  type: 'earning';
+  startTime: null;
+  earningId: string;
+  platform: string;
+  grossEarnings: number;
+  tips: number;
+  netEarnings: number;
+  tripsCompleted: number;
+}
+
+export type TimelineEntry =
+  | TimelineTripEntry
+  | TimelineStopEntry
+  | TimelineVisitEntry
+  | TimelineExpenseEntry
+  | TimelineEarningEntry;
+
+export interface DailyTimeline {
+  date: string;
+  timezone: string;
+  dayStart: string;
+  dayEnd: string;
+  entries: TimelineEntry[];
+  totals: {
+    trips: number;
+    miles: number;
+    drivingSeconds: number;
+    milesByCategory: Record<string, number>;
+    stops: number;
+    visits: number;
+    expenses: number;
+    netEarnings: number;
+  };
+  unclassifiedTrips: number;
 }
 
 // ============================================================================
@@ -491,16 +905,30 @@ export type CompleteTripInput = CompleteTripRequest;
 export interface AddWaypointsInput {
   waypoints: WaypointInput[];
 }
-export interface TripFilterInput extends TripFilters {
+export interface TripFilterInput extends TripFilters, TripSpatialFilters {
   page: number;
   perPage: number;
   sort: string;
-}
+  detail?: TripDetailLevel;
+}
+export type MergeTripsInput = MergeTripsRequest;
+export type SplitTripInput = SplitTripRequest;
+export type BulkUpdateTripsInput = BulkUpdateTripsRequest;
+export type TripSearchInput = TripSearchRequest;
+export type NonCompliantTripsQueryInput = NonCompliantTripsQuery;
+export type BulkTripExportInput = BulkTripExportRequest;
+export type ImportTripInput = ImportTripRequest;
+export type CreateManualTripInput = CreateManualTripRequest;
+export type CreateTripTemplateInput = CreateTripTemplateRequest;
+export type CreateTripShareInput = CreateTripShareRequest;
 
 // Vehicle service input types
 export type CreateVehicleInput = CreateVehicleRequest;
 export type UpdateVehicleInput = UpdateVehicleRequest;
 export type CreateMaintenanceRecordInput = MaintenanceRecordRequest;
+export type CreateOdometerReadingInput = OdometerReadingRequest;
+export type OdometerReadingFilterInput = OdometerReadingFilters;
+export type OdometerReconciliationQueryInput = OdometerReconciliationQuery;
 export interface VehicleFilterInput {
   isActive?: boolean;
   isPrimary?: boolean;
@@ -533,6 +961,20 @@ export interface RouteFilterInput {
   sort: string;
 }
 
+// Location service input types
+export type CreateLocationInput = CreateLocationRequest;
+export type UpdateLocationInput = UpdateLocationRequest;
+export type NearestLocationQueryInput = NearestLocationQuery;
+export type AcceptPlaceSuggestionInput = AcceptPlaceSuggestionRequest;
+export interface LocationFilterInput {
+  q?: string;
+  locationType?: LocationTypeValue;
+  favorite?: boolean;
+  page: number;
+  perPage: number;
+  sort: string;
+}
+
 // Expense service input types
 export type CreateExpenseInput = CreateExpenseRequest;
 export interface UpdateExpenseInput extends Partial<CreateExpenseRequest> {
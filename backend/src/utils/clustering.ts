@@ -0,0 +1,91 @@
+import { distanceBetween } from './geo.js';
+import type { LatLng } from './geo.js';
+
+// DBSCAN over geographic points. Neighbors are found through a grid of cells
+// at least epsMeters wide, so each point only compares against the 3x3 block
+// of cells around it instead of every other point.
+
+export interface DbscanOptions {
+  epsMeters: number;
+  // Neighbors (including the point itself) a core point needs
+  minPoints: number;
+}
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// Points grouped by cluster, largest first; noise is left out
+export function dbscan<T extends LatLng>(points: T[], options: DbscanOptions): T[][] {
+  const { epsMeters, minPoints } = options;
+  if (points.length === 0) return [];
+
+  // Longitude cells are sized for the highest latitude in the set, where a
+  // degree is shortest, so they are wide enough everywhere
+  const maxLatitude = Math.min(85, Math.max(...points.map((p) => Math.abs(p.latitude))));
+  const latStep = epsMeters / METERS_PER_DEGREE_LATITUDE;
+  const lngStep = epsMeters / (METERS_PER_DEGREE_LATITUDE * Math.cos((maxLatitude * Math.PI) / 180));
+
+  const cellOf = (p: LatLng): [number, number] => [Math.floor(p.latitude / latStep), Math.floor(p.longitude / lngStep)];
+
+  const grid = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const [row, col] = cellOf(point);
+    const key = `${row}:${col}`;
+    const cell = grid.get(key);
+    if (cell) cell.push(index);
+    else grid.set(key, [index]);
+  });
+
+  const neighbors = (index: number): number[] => {
+    const point = points[index]!;
+    const [row, col] = cellOf(point);
+    const found: number[] = [];
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -1; dCol <= 1; dCol++) {
+        for (const other of grid.get(`${row + dRow}:${col + dCol}`) ?? []) {
+          if (distanceBetween(point, points[other]!) <= epsMeters) found.push(other);
+        }
+      }
+    }
+    return found;
+  };
+
+  const NOISE = -1;
+  const labels = new Array<number | undefined>(points.length);
+  let clusterCount = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== undefined) continue;
+
+    const seeds = neighbors(i);
+    if (seeds.length < minPoints) {
+      labels[i] = NOISE;
+      continue;
+    }
+
+    const cluster = clusterCount++;
+    labels[i] = cluster;
+
+    // Expand through core points; border points join but do not spread
+    const queue = seeds.filter((j) => j !== i);
+    while (queue.length > 0) {
+      const j = queue.pop()!;
+      if (labels[j] === NOISE) labels[j] = cluster;
+      if (labels[j] !== undefined) continue;
+
+      labels[j] = cluster;
+      const reachable = neighbors(j);
+      if (reachable.length < minPoints) continue;
+      for (const k of reachable) {
+        if (labels[k] === undefined || labels[k] === NOISE) queue.push(k);
+      }
+    }
+  }
+
+  const clusters: T[][] = Array.from({ length: clusterCount }, () => []);
+  points.forEach((point, index) => {
+    const label = labels[index]!;
+    if (label !== NOISE) clusters[label]!.push(point);
+  });
+
+  return clusters.sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,126 @@
+// Shared geodesy helpers for trip processing
+
+export const EARTH_RADIUS_METERS = 6371000;
+export const METERS_TO_MILES = 0.000621371;
+export const MPS_TO_MPH = 2.23694;
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Haversine formula to calculate distance between two coordinates
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) *
+      Math.cos(toRad(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+export function distanceBetween(a: LatLng, b: LatLng): number {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+// Initial bearing from a to b in degrees (0-360)
+export function bearingBetween(a: LatLng, b: LatLng): number {
+  const lat1 = toRad(a.latitude);
+  const lat2 = toRad(b.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Smallest absolute difference between two headings in degrees (0-180)
+export function headingDelta(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+// The location whose radius contains the point; the nearest when several do
+export function findContainingLocation<T extends LatLng & { radiusMeters: number }>(
+  locations: T[],
+  point: LatLng
+): T | null {
+  let best: T | null = null;
+  let bestDistance = Infinity;
+
+  for (const location of locations) {
+    const distance = distanceBetween(location, point);
+    if (distance <= location.radiusMeters && distance < bestDistance) {
+      best = location;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+export function toRad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+export function toDeg(rad: number): number {
+  return rad * (180 / Math.PI);
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Standard base32 geohash; 5 characters is a cell of roughly 5 km x 5 km
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (longitude >= mid) {
+        value = (value << 1) | 1;
+        lngMin = mid;
+      } else {
+        value <<= 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (latitude >= mid) {
+        value = (value << 1) | 1;
+        latMin = mid;
+      } else {
+        value <<= 1;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
@@ -0,0 +1,204 @@
+import { EARTH_RADIUS_METERS, calculateDistance, toRad } from './geo.js';
+
+// Route geometry helpers: Google encoded polylines, Douglas-Peucker
+// simplification, trimming and the per-trip multi-resolution route.
+
+// [longitude, latitude], GeoJSON order
+export type Coordinate = [number, number];
+
+export type RouteResolution = 'low' | 'high';
+
+// Simplification tolerance per stored resolution. "low" is a list thumbnail,
+// "high" is indistinguishable from the full route at street zoom.
+export const ROUTE_TOLERANCES_METERS: Record<RouteResolution, number> = {
+  low: 50,
+  high: 5,
+};
+
+export interface RouteGeometry {
+  routePolyline: string;
+  routePolylineHigh: string;
+  routePolylineLow: string;
+  routeGeojson: Record<string, unknown>;
+}
+
+export function encodePolyline(coordinates: Coordinate[], precision = 5): string {
+  const factor = 10 ** precision;
+  let encoded = '';
+  let prevLat = 0;
+  let prevLng = 0;
+
+  for (const [longitude, latitude] of coordinates) {
+    const lat = Math.round(latitude * factor);
+    const lng = Math.round(longitude * factor);
+
+    encoded += encodeSignedNumber(lat - prevLat);
+    encoded += encodeSignedNumber(lng - prevLng);
+
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return encoded;
+}
+
+export function decodePolyline(encoded: string, precision = 5): Coordinate[] {
+  const factor = 10 ** precision;
+  const coordinates: Coordinate[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readNumber = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readNumber();
+    lng += readNumber();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+
+  return coordinates;
+}
+
+// Douglas-Peucker with the tolerance in meters. Iterative so long trips
+// cannot overflow the stack; endpoints are always kept.
+export function simplifyLine(coordinates: Coordinate[], toleranceMeters: number): Coordinate[] {
+  if (coordinates.length <= 2) return coordinates;
+
+  const keep = new Uint8Array(coordinates.length);
+  keep[0] = 1;
+  keep[coordinates.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, coordinates.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(coordinates[i]!, coordinates[first]!, coordinates[last]!);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > toleranceMeters) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return coordinates.filter((_, i) => keep[i] === 1);
+}
+
+// The line with the first and last `meters` of its length cut off, ending
+// exactly at the cut points. Empty when the line is not longer than both cuts.
+export function trimLineEnds(coordinates: Coordinate[], meters: number): Coordinate[] {
+  const head = cutLineStart(coordinates, meters);
+  const trimmed = cutLineStart(head.reverse(), meters);
+  return trimmed.reverse();
+}
+
+export function lineStringFeature(
+  coordinates: Coordinate[],
+  properties: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates,
+    },
+    properties,
+  };
+}
+
+// Everything stored on a trip for its route: the full polyline, one per
+// resolution, and a GeoJSON feature of the high-resolution line
+export function buildRouteGeometry(
+  coordinates: Coordinate[],
+  properties: Record<string, unknown> = {}
+): RouteGeometry {
+  const high = simplifyLine(coordinates, ROUTE_TOLERANCES_METERS.high);
+  const low = simplifyLine(high, ROUTE_TOLERANCES_METERS.low);
+
+  return {
+    routePolyline: encodePolyline(coordinates),
+    routePolylineHigh: encodePolyline(high),
+    routePolylineLow: encodePolyline(low),
+    routeGeojson: lineStringFeature(high, {
+      ...properties,
+      pointCount: coordinates.length,
+      simplifiedPointCount: high.length,
+      toleranceMeters: ROUTE_TOLERANCES_METERS.high,
+    }),
+  };
+}
+
+// What is left of the line past `meters` from its start, or nothing
+function cutLineStart(coordinates: Coordinate[], meters: number): Coordinate[] {
+  let travelled = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = coordinates[i - 1]!;
+    const b = coordinates[i]!;
+    const length = calculateDistance(a[1], a[0], b[1], b[0]);
+
+    if (travelled + length > meters) {
+      const t = (meters - travelled) / length;
+      const cut: Coordinate = [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+      return [cut, ...coordinates.slice(i)];
+    }
+
+    travelled += length;
+  }
+
+  return [];
+}
+
+// Distance from point to segment ab on a local equirectangular plane
+function perpendicularDistance(point: Coordinate, a: Coordinate, b: Coordinate): number {
+  const cosLat = Math.cos(toRad(a[1]));
+  const toPlane = (c: Coordinate): [number, number] => [
+    toRad(c[0] - a[0]) * cosLat * EARTH_RADIUS_METERS,
+    toRad(c[1] - a[1]) * EARTH_RADIUS_METERS,
+  ];
+
+  const [px, py] = toPlane(point);
+  const [bx, by] = toPlane(b);
+  const lengthSquared = bx * bx + by * by;
+
+  if (lengthSquared === 0) return Math.hypot(px, py);
+
+  const t = Math.min(1, Math.max(0, (px * bx + py * by) / lengthSquared));
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+function encodeSignedNumber(num: number): string {
+  let sgn = num << 1;
+  if (num < 0) {
+    sgn = ~sgn;
+  }
+  return encodeNumber(sgn);
+}
+
+function encodeNumber(num: number): string {
+  let encoded = '';
+  while (num >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (num & 0x1f)) + 63);
+    num >>= 5;
+  }
+  encoded += String.fromCharCode(num + 63);
+  return encoded;
+}
@@ -61,6 +61,7 @@ export const authLogger = logger.child({ module: 'auth' });
 export const tripLogger = logger.child({ module: 'trip' });
 export const vehicleLogger = logger.child({ module: 'vehicle' });
 export const routeLogger = logger.child({ module: 'route' });
+export const locationLogger = logger.child({ module: 'location' });
 export const expenseLogger = logger.child({ module: 'expense' });
 export const reportLogger = logger.child({ module: 'report' });
 export const jobLogger = logger.child({ module: 'job' });
@@ -0,0 +1,100 @@
+// Time zone helpers built on Intl; user times are stored in UTC and
+// interpreted in the user's IANA time zone.
+
+export interface LocalTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday ... 6 = Saturday
+  weekday: number;
+  // YYYY-MM-DD in the local zone
+  dateKey: string;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getLocalTimeParts(date: Date, timeZone: string): LocalTimeParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+
+  return {
+    year,
+    month,
+    day,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS[parts.weekday ?? 'Sun'] ?? 0,
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+}
+
+// Minutes since local midnight
+export function getLocalMinuteOfDay(date: Date, timeZone: string): number {
+  const { hour, minute } = getLocalTimeParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+// Minutes since midnight for a Postgres TIME column (stored as 1970-01-01 UTC)
+export function timeColumnToMinutes(value: Date): number {
+  return value.getUTCHours() * 60 + value.getUTCMinutes();
+}
+
+// UTC instant of local midnight at the start of `dateKey` (YYYY-MM-DD)
+export function startOfLocalDay(dateKey: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number) as [number, number, number];
+  const guess = Date.UTC(year, month - 1, day);
+
+  // Offset of the zone at the guessed instant, applied twice to settle DST edges
+  let instant = guess;
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalTimeParts(new Date(instant), timeZone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    instant = guess - (localAsUtc - instant);
+  }
+
+  return new Date(instant);
+}
+
+// Calendar arithmetic on YYYY-MM-DD keys, independent of any zone
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number) as [number, number, number];
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
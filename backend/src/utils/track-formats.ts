@@ -0,0 +1,271 @@
+// Serializers and parsers for the GPS track formats used to move trips in and
+// out of other tools: GPX 1.1, KML 2.2 (gx:Track) and GeoJSON.
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  elevationMeters: number | null;
+  speedMps: number | null;
+}
+
+export interface Track {
+  id: string;
+  name: string;
+  description: string | null;
+  points: TrackPoint[];
+  properties: Record<string, unknown>;
+}
+
+export interface ParsedTrack {
+  name: string | null;
+  points: TrackPoint[];
+}
+
+export const TRACK_CONTENT_TYPES: Record<TrackFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+const CREATOR = 'MileageMax Pro';
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export function serializeTracks(tracks: Track[], format: TrackFormat): string {
+  switch (format) {
+    case 'gpx':
+      return toGpx(tracks);
+    case 'kml':
+      return toKml(tracks);
+    case 'geojson':
+      return JSON.stringify(toGeoJson(tracks));
+  }
+}
+
+export function toGpx(tracks: Track[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1"` +
+      ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">',
+  ];
+
+  for (const track of tracks) {
+    lines.push('  <trk>');
+    lines.push(`    <name>${escapeXml(track.name)}</name>`);
+    if (track.description) lines.push(`    <desc>${escapeXml(track.description)}</desc>`);
+    lines.push('    <trkseg>');
+    for (const point of track.points) {
+      lines.push(`      <trkpt lat="${point.latitude}" lon="${point.longitude}">`);
+      if (point.elevationMeters !== null) lines.push(`        <ele>${point.elevationMeters}</ele>`);
+      lines.push(`        <time>${point.timestamp.toISOString()}</time>`);
+      if (point.speedMps !== null) {
+        lines.push(
+          '        <extensions><gpxtpx:TrackPointExtension>' +
+            `<gpxtpx:speed>${point.speedMps}</gpxtpx:speed>` +
+            '</gpxtpx:TrackPointExtension></extensions>'
+        );
+      }
+      lines.push('      </trkpt>');
+    }
+    lines.push('    </trkseg>');
+    lines.push('  </trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+}
+
+export function toKml(tracks: Track[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${CREATOR} trips</name>`,
+    '    <Schema id="trackSchema">',
+    '      <gx:SimpleArrayField name="speed" type="float"><displayName>Speed (m/s)</displayName></gx:SimpleArrayField>',
+    '    </Schema>',
+  ];
+
+  for (const track of tracks) {
+    lines.push('    <Placemark>');
+    lines.push(`      <name>${escapeXml(track.name)}</name>`);
+    if (track.description) lines.push(`      <description>${escapeXml(track.description)}</description>`);
+    lines.push('      <gx:Track>');
+    lines.push('        <altitudeMode>clampToGround</altitudeMode>');
+    for (const point of track.points) {
+      lines.push(`        <when>${point.timestamp.toISOString()}</when>`);
+    }
+    for (const point of track.points) {
+      lines.push(`        <gx:coord>${point.longitude} ${point.latitude} ${point.elevationMeters ?? 0}</gx:coord>`);
+    }
+    lines.push('        <ExtendedData><SchemaData schemaUrl="#trackSchema"><gx:SimpleArrayData name="speed">');
+    for (const point of track.points) {
+      lines.push(`          <gx:value>${point.speedMps ?? ''}</gx:value>`);
+    }
+    lines.push('        </gx:SimpleArrayData></SchemaData></ExtendedData>');
+    lines.push('      </gx:Track>');
+    lines.push('    </Placemark>');
+  }
+
+  lines.push('  </Document>');
+  lines.push('</kml>');
+  return lines.join('\n');
+}
+
+// Per-point times and speeds go in `coordTimes` / `speeds` properties, the
+// convention used by togeojson and most GeoJSON track tooling
+export function toGeoJson(tracks: Track[]): Record<string, unknown> {
+  return {
+    type: 'FeatureCollection',
+    features: tracks.map((track) => ({
+      type: 'Feature',
+      id: track.id,
+      geometry: {
+        type: 'LineString',
+        coordinates: track.points.map((p) =>
+          p.elevationMeters !== null ? [p.longitude, p.latitude, p.elevationMeters] : [p.longitude, p.latitude]
+        ),
+      },
+      properties: {
+        name: track.name,
+        description: track.description,
+        ...track.properties,
+        coordTimes: track.points.map((p) => p.timestamp.toISOString()),
+        speeds: track.points.map((p) => p.speedMps),
+      },
+    })),
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export function detectTrackFormat(filename: string, content: string): 'gpx' | 'kml' | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.gpx')) return 'gpx';
+  if (lower.endsWith('.kml')) return 'kml';
+
+  const head = content.slice(0, 1000);
+  if (/<gpx\b/.test(head)) return 'gpx';
+  if (/<kml\b/.test(head)) return 'kml';
+  return null;
+}
+
+export function parseTrack(content: string, format: 'gpx' | 'kml'): ParsedTrack {
+  return format === 'gpx' ? parseGpx(content) : parseKml(content);
+}
+
+export function parseGpx(xml: string): ParsedTrack {
+  const trk = /<trk\b[^>]*>([\s\S]*?)<\/trk>/.exec(xml);
+  const body = trk?.[1] ?? xml;
+  const points: TrackPoint[] = [];
+
+  for (const match of body.matchAll(/<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g)) {
+    const attrs = match[1] ?? '';
+    const inner = match[2] ?? '';
+    const time = readElement(inner, 'time');
+
+    const point = toTrackPoint(
+      readAttribute(attrs, 'lat'),
+      readAttribute(attrs, 'lon'),
+      time,
+      readElement(inner, 'ele'),
+      readElement(inner, 'speed')
+    );
+    if (point) points.push(point);
+  }
+
+  const name = trk ? readElement(trk[1] ?? '', 'name') : null;
+  return { name: name ? decodeXmlEntities(name) : null, points };
+}
+
+export function parseKml(xml: string): ParsedTrack {
+  const track = /<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/.exec(xml);
+  if (!track) {
+    return { name: null, points: [] };
+  }
+
+  const body = track[1] ?? '';
+  const whens = [...body.matchAll(/<when>([^<]*)<\/when>/g)].map((m) => m[1]!.trim());
+  const coords = [...body.matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map((m) => m[1]!.trim().split(/\s+/));
+  const speedArray = /<gx:SimpleArrayData\b[^>]*name="speed"[^>]*>([\s\S]*?)<\/gx:SimpleArrayData>/.exec(body);
+  const speeds = speedArray
+    ? [...(speedArray[1] ?? '').matchAll(/<gx:value>([^<]*)<\/gx:value>/g)].map((m) => m[1]!.trim())
+    : [];
+
+  const points: TrackPoint[] = [];
+  for (let i = 0; i < Math.min(whens.length, coords.length); i++) {
+    const [lon, lat, alt] = coords[i]!;
+    const point = toTrackPoint(lat ?? null, lon ?? null, whens[i]!, alt ?? null, speeds[i] || null);
+    if (point) points.push(point);
+  }
+
+  const placemark = xml.slice(0, track.index);
+  const names = [...placemark.matchAll(/<name>([^<]*)<\/name>/g)];
+  const name = names.length > 0 ? names[names.length - 1]![1]!.trim() : null;
+
+  return { name: name ? decodeXmlEntities(name) : null, points };
+}
+
+// Builds a point from raw strings; null when position or time is unusable
+function toTrackPoint(
+  lat: string | null,
+  lon: string | null,
+  time: string | null,
+  ele: string | null,
+  speed: string | null
+): TrackPoint | null {
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  const timestamp = time ? new Date(time) : null;
+
+  if (lat === null || lon === null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  if (!timestamp || Number.isNaN(timestamp.getTime())) return null;
+
+  const elevation = ele !== null ? Number(ele) : NaN;
+  const speedMps = speed !== null ? Number(speed) : NaN;
+
+  return {
+    latitude,
+    longitude,
+    timestamp,
+    elevationMeters: Number.isFinite(elevation) ? elevation : null,
+    speedMps: Number.isFinite(speedMps) && speedMps >= 0 ? speedMps : null,
+  };
+}
+
+function readAttribute(attrs: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attrs);
+  return match ? match[1]! : null;
+}
+
+// Matches the element with or without a namespace prefix (e.g. gpxtpx:speed)
+function readElement(xml: string, name: string): string | null {
+  const match = new RegExp(`<(?:\\w+:)?${name}>([^<]*)</(?:\\w+:)?${name}>`).exec(xml);
+  return match ? match[1]!.trim() : null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,251 @@
+import { createHash } from 'crypto';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { Prisma } from '@prisma/client';
+import type { TripWaypoint } from '@prisma/client';
+
+// Binary encoding of a finished trip's waypoints.
+//
+// Layout: "WP", a version byte and a reserved byte, then the deflated body.
+// The body is a varint point count followed by one column per field in
+// sequence order. Numbers are stored as integers at the precision of their
+// trip_waypoints column, delta-encoded against the previous point and written
+// as zigzag varints; nullable columns shift values up by one so 0 means null.
+// Round trips are exact for anything the database could hold.
+
+export const WAYPOINT_CODEC_VERSION = 1;
+
+const MAGIC = [0x57, 0x50];
+const HEADER_BYTES = 4;
+
+// Scale of each Decimal column (10^scale)
+const LATLNG_SCALE = 1e7;
+const CENTI_SCALE = 1e2;
+
+type NullableColumn = 'altitudeMeters' | 'horizontalAccuracy' | 'verticalAccuracy' | 'speedMps' | 'heading';
+
+const NULLABLE_COLUMNS: NullableColumn[] = [
+  'altitudeMeters',
+  'horizontalAccuracy',
+  'verticalAccuracy',
+  'speedMps',
+  'heading',
+];
+
+type EncodableWaypoint = Pick<
+  TripWaypoint,
+  | 'sequenceNumber'
+  | 'latitude'
+  | 'longitude'
+  | 'timestamp'
+  | 'isStop'
+  | 'stopDurationSeconds'
+  | NullableColumn
+>;
+
+export function encodeWaypoints(waypoints: EncodableWaypoint[]): Uint8Array<ArrayBuffer> {
+  const body = new ByteWriter();
+  body.varint(waypoints.length);
+
+  writeDeltas(body, waypoints.map((wp) => wp.sequenceNumber));
+  writeDeltas(body, waypoints.map((wp) => Math.round(Number(wp.latitude) * LATLNG_SCALE)));
+  writeDeltas(body, waypoints.map((wp) => Math.round(Number(wp.longitude) * LATLNG_SCALE)));
+  writeDeltas(body, waypoints.map((wp) => wp.timestamp.getTime()));
+
+  for (const column of NULLABLE_COLUMNS) {
+    writeNullableDeltas(body, waypoints.map((wp) => {
+      const value = wp[column];
+      return value === null ? null : Math.round(Number(value) * CENTI_SCALE);
+    }));
+  }
+
+  writeNullableDeltas(body, waypoints.map((wp) => wp.stopDurationSeconds));
+
+  // isStop as a bitmap, eight points to a byte
+  for (let i = 0; i < waypoints.length; i += 8) {
+    let byte = 0;
+    for (let bit = 0; bit < 8 && i + bit < waypoints.length; bit++) {
+      if (waypoints[i + bit]!.isStop) byte |= 1 << bit;
+    }
+    body.byte(byte);
+  }
+
+  const header = Buffer.from([...MAGIC, WAYPOINT_CODEC_VERSION, 0]);
+  // Copied into a plain Uint8Array, the type Prisma takes for Bytes columns
+  return new Uint8Array(Buffer.concat([header, deflateRawSync(body.toBuffer())]));
+}
+
+// Rebuilds waypoint rows. Ids are derived from the trip and sequence number so
+// they stay stable across reads; createdAt is when the track was packed.
+export function decodeWaypoints(tripId: string, data: Uint8Array, packedAt: Date): TripWaypoint[] {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  if (buffer.length < HEADER_BYTES || buffer[0] !== MAGIC[0] || buffer[1] !== MAGIC[1]) {
+    throw new Error('Not a packed waypoint track');
+  }
+
+  const version = buffer[2];
+  if (version !== WAYPOINT_CODEC_VERSION) {
+    throw new Error(`Unsupported waypoint track version ${version}`);
+  }
+
+  const body = new ByteReader(inflateRawSync(buffer.subarray(HEADER_BYTES)));
+  const count = body.varint();
+
+  const sequenceNumbers = readDeltas(body, count);
+  const latitudes = readDeltas(body, count);
+  const longitudes = readDeltas(body, count);
+  const timestamps = readDeltas(body, count);
+
+  const nullable = {} as Record<NullableColumn, Array<number | null>>;
+  for (const column of NULLABLE_COLUMNS) {
+    nullable[column] = readNullableDeltas(body, count);
+  }
+
+  const stopDurations = readNullableDeltas(body, count);
+
+  const stopFlags: boolean[] = [];
+  for (let i = 0; i < count; i += 8) {
+    const byte = body.byte();
+    for (let bit = 0; bit < 8 && i + bit < count; bit++) {
+      stopFlags.push((byte & (1 << bit)) !== 0);
+    }
+  }
+
+  const waypoints: TripWaypoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const centi = (column: NullableColumn) => {
+      const value = nullable[column][i]!;
+      return value === null ? null : toDecimal(value, 2);
+    };
+
+    waypoints.push({
+      id: waypointId(tripId, sequenceNumbers[i]!),
+      tripId,
+      sequenceNumber: sequenceNumbers[i]!,
+      latitude: toDecimal(latitudes[i]!, 7),
+      longitude: toDecimal(longitudes[i]!, 7),
+      altitudeMeters: centi('altitudeMeters'),
+      horizontalAccuracy: centi('horizontalAccuracy'),
+      verticalAccuracy: centi('verticalAccuracy'),
+      speedMps: centi('speedMps'),
+      heading: centi('heading'),
+      timestamp: new Date(timestamps[i]!),
+      isStop: stopFlags[i]!,
+      stopDurationSeconds: stopDurations[i]!,
+      createdAt: packedAt,
+    });
+  }
+
+  return waypoints;
+}
+
+// Name-based UUID (version 5 layout) for a decoded waypoint
+function waypointId(tripId: string, sequenceNumber: number): string {
+  const hex = createHash('sha1').update(`${tripId}:${sequenceNumber}`).digest('hex');
+  const variant = ((parseInt(hex.slice(16, 18), 16) & 0x3f) | 0x80).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(18, 20)}-${hex.slice(20, 32)}`;
+}
+
+function toDecimal(scaled: number, scale: number): Prisma.Decimal {
+  return new Prisma.Decimal(scaled).dividedBy(10 ** scale);
+}
+
+function writeDeltas(writer: ByteWriter, values: number[]): void {
+  let previous = 0;
+  for (const value of values) {
+    writer.varint(zigzag(value - previous));
+    previous = value;
+  }
+}
+
+function readDeltas(reader: ByteReader, count: number): number[] {
+  const values: number[] = [];
+  let previous = 0;
+  for (let i = 0; i < count; i++) {
+    previous += unzigzag(reader.varint());
+    values.push(previous);
+  }
+  return values;
+}
+
+// Deltas run between non-null values; nulls do not reset them
+function writeNullableDeltas(writer: ByteWriter, values: Array<number | null>): void {
+  let previous = 0;
+  for (const value of values) {
+    if (value === null) {
+      writer.varint(0);
+      continue;
+    }
+    writer.varint(zigzag(value - previous) + 1);
+    previous = value;
+  }
+}
+
+function readNullableDeltas(reader: ByteReader, count: number): Array<number | null> {
+  const values: Array<number | null> = [];
+  let previous = 0;
+  for (let i = 0; i < count; i++) {
+    const raw = reader.varint();
+    if (raw === 0) {
+      values.push(null);
+      continue;
+    }
+    previous += unzigzag(raw - 1);
+    values.push(previous);
+  }
+  return values;
+}
+
+// Arithmetic rather than bitwise so millisecond timestamps (> 2^32) survive
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value);
+  }
+
+  varint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) + 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  byte(): number {
+    if (this.offset >= this.buffer.length) {
+      throw new Error('Packed waypoint track is truncated');
+    }
+    return this.buffer[this.offset++]!;
+  }
+
+  varint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+  }
+}
@@ -2,5 +2,6 @@ export * from './auth.validators.js';
 export * from './trip.validators.js';
 export * from './vehicle.validators.js';
 export * from './route.validators.js';
+export * from './location.validators.js';
 export * from './expense.validators.js';
 export * from './report.validators.js';
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+const locationTypeSchema = z.enum([
+  'home',
+  'work',
+  'client',
+  'warehouse',
+  'restaurant',
+  'store',
+  'gas_station',
+  'other',
+]);
+
+const tripCategorySchema = z.enum([
+  'business',
+  'personal',
+  'medical',
+  'charity',
+  'moving',
+  'commute',
+]);
+
+export const createLocationSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  locationType: locationTypeSchema.optional().default('other'),
+  address: z.string().min(1).max(500),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusMeters: z.number().int().min(25).max(5000).optional().default(100),
+  autoClassifyAs: tripCategorySchema.optional().nullable(),
+  isFavorite: z.boolean().optional().default(false),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+export const updateLocationSchema = createLocationSchema.partial();
+
+export const locationIdParamSchema = z.object({
+  locationId: z.string().uuid(),
+});
+
+export const locationFilterSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce.number().int().min(1).max(100).default(20),
+  // Case-insensitive match anywhere in the name
+  q: z.string().trim().min(1).max(100).optional(),
+  locationType: locationTypeSchema.optional(),
+  favorite: z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean()).optional(),
+  sort: z.string().optional().default('name'),
+});
+
+// Fields left out are taken from the suggestion
+export const acceptPlaceSuggestionSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  locationType: locationTypeSchema.optional(),
+  radiusMeters: z.number().int().min(25).max(5000).optional(),
+  autoClassifyAs: tripCategorySchema.optional().nullable(),
+  isFavorite: z.boolean().optional(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+export const placeSuggestionIdParamSchema = z.object({
+  suggestionId: z.string().uuid(),
+});
+
+export const nearestLocationQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  maxDistance: z.coerce.number().int().min(1).max(100000).optional(),
+});
+
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+export type LocationFilterInput = z.infer<typeof locationFilterSchema>;
+export type NearestLocationQueryInput = z.infer<typeof nearestLocationQuerySchema>;
+export type AcceptPlaceSuggestionInput = z.infer<typeof acceptPlaceSuggestionSchema>;
@@ -45,6 +45,16 @@ export const taxSummaryQuerySchema = z.object({
   year: z.coerce.number().int().min(2000).max(2100).optional(),
 });
 
+export const timelineDateParamSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').refine(
+    (value) => {
+      const parsed = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+    },
+    { message: 'Invalid date' }
+  ),
+});
+
 export type CreateReportInput = z.infer<typeof createReportSchema>;
 export type ReportFilterInput = z.infer<typeof reportFilterSchema>;
 export type AnalyticsQueryInput = z.infer<typeof analyticsQuerySchema>;
@@ -12,8 +12,64 @@ const tripCategorySchema = z.enum([
 const detectionMethodSchema = z.enum(['automatic', 'manual', 'widget', 'shortcut']);
 
 const tripStatusSchema = z.enum(['recording', 'completed', 'processing', 'verified']);
+const tripAnomalySchema = z.enum(['impossible_speed', 'time_reversal', 'duplicate_timestamp', 'large_gap']);
+
+const tripDetailSchema = z.enum(['none', 'low', 'high', 'full']);
+
+const weatherConditionSchema = z.enum(['clear', 'clouds', 'rain', 'snow', 'fog', 'storm']);
+
+// All coordinate parameters use the GeoJSON "longitude,latitude" order.
+// Empty parts are rejected rather than read as 0, which Number('') would give.
+const parseNumberList = (value: string) =>
+  value.split(',').map((part) => (part.trim() === '' ? NaN : Number(part)));
+
+// Comma-separated numbers in a query string, e.g. "-74.00,40.71"
+const numberListSchema = (count: number) =>
+  z
+    .string()
+    .transform(parseNumberList)
+    .refine((values) => values.length === count && values.every(Number.isFinite), `Expected ${count} comma-separated numbers`);
+
+const isLatitude = (value: number) => value >= -90 && value <= 90;
+const isLongitude = (value: number) => value >= -180 && value <= 180;
+
+// "longitude,latitude"
+const nearSchema = numberListSchema(2)
+  .refine(([longitude, latitude]) => isLongitude(longitude!) && isLatitude(latitude!), 'Invalid coordinates')
+  .transform(([longitude, latitude]) => ({ latitude: latitude!, longitude: longitude! }));
+
+// "minLongitude,minLatitude,maxLongitude,maxLatitude", the GeoJSON bbox order
+const bboxSchema = numberListSchema(4)
+  .refine(
+    ([minLng, minLat, maxLng, maxLat]) =>
+      isLongitude(minLng!) && isLongitude(maxLng!) && isLatitude(minLat!) && isLatitude(maxLat!) &&
+      minLng! < maxLng! && minLat! < maxLat!,
+    'Invalid bounding box'
+  )
+  .transform(([minLongitude, minLatitude, maxLongitude, maxLatitude]) => ({
+    minLongitude: minLongitude!,
+    minLatitude: minLatitude!,
+    maxLongitude: maxLongitude!,
+    maxLatitude: maxLatitude!,
+  }));
+
+// "lng,lat;lng,lat;..." with at least three distinct vertices; the ring is
+// closed automatically
+const polygonSchema = z
+  .string()
+  .transform((value) => value.split(';').map(parseNumberList))
+  .refine(
+    (vertices) =>
+      vertices.length <= 100 &&
+      vertices.every((v) => v.length === 2 && v.every(Number.isFinite) && isLongitude(v[0]!) && isLatitude(v[1]!)) &&
+      new Set(vertices.map((v) => v.join(','))).size >= 3,
+    'Polygon needs 3 to 100 distinct "longitude,latitude" vertices separated by ";"'
+  )
+  .transform((vertices) => vertices.map(([lng, lat]) => [lng!, lat!] as [number, number]));
 
 export const createTripSchema = z.object({
+  // Client-generated, so retried uploads are recognized
+  id: z.string().uuid().optional(),
   vehicleId: z.string().uuid().optional(),
   startLatitude: z.number().min(-90).max(90),
   startLongitude: z.number().min(-180).max(180),
@@ -44,17 +100,30 @@ const waypointSchema = z.object({
   altitudeMeters: z.number().min(-1000).max(50000).optional(),
   horizontalAccuracy: z.number().min(0).max(10000).optional(),
   verticalAccuracy: z.number().min(0).max(10000).optional(),
+  sequenceNumber: z.number().int().min(1).optional(),
 });
 
+const waypointBatchSchema = (max: number) =>
+  z
+    .array(waypointSchema)
+    .max(max)
+    .refine(
+      (waypoints) => {
+        const sequenced = waypoints.filter((wp) => wp.sequenceNumber !== undefined);
+        return sequenced.length === 0 || sequenced.length === waypoints.length;
+      },
+      'Provide sequenceNumber on every waypoint in a batch or on none'
+    );
+
 export const addWaypointsSchema = z.object({
-  waypoints: z.array(waypointSchema).min(1).max(1000),
+  waypoints: waypointBatchSchema(1000).refine((waypoints) => waypoints.length > 0, 'Provide at least one waypoint'),
 });
 
 export const completeTripSchema = z.object({
   endLatitude: z.number().min(-90).max(90),
   endLongitude: z.number().min(-180).max(180),
   endTime: z.string().datetime(),
-  finalWaypoints: z.array(waypointSchema).max(100).optional(),
+  finalWaypoints: waypointBatchSchema(100).optional(),
 });
 
 export const tripFilterSchema = z.object({
@@ -66,7 +135,201 @@ export const tripFilterSchema = z.object({
   endDate: z.string().datetime().optional(),
   minDistance: z.coerce.number().int().min(0).optional(),
   status: tripStatusSchema.optional(),
+  weather: weatherConditionSchema.optional(),
+  adverseWeather: z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean()).optional(),
+  anomaly: tripAnomalySchema.optional(),
+  flagged: z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean()).optional(),
+  near: nearSchema.optional(),
+  radius: z.coerce.number().int().min(10).max(50000).default(500),
+  nearEndpoint: z.enum(['start', 'end', 'any']).default('any'),
+  bbox: bboxSchema.optional(),
+  polygon: polygonSchema.optional(),
   sort: z.string().optional().default('-startTime'),
+  detail: tripDetailSchema.default('low'),
+});
+
+export const tripSearchSchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce.number().int().min(1).max(100).default(20),
+  vehicleId: z.string().uuid().optional(),
+  category: tripCategorySchema.optional(),
+  status: tripStatusSchema.optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const nonCompliantTripsQuerySchema = z.object({
+  taxYear: z.coerce.number().int().min(2000).max(2100).default(() => new Date().getFullYear()),
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce.number().int().min(1).max(100).default(20),
+  category: tripCategorySchema.optional(),
+  issue: z.enum(['missing_date', 'missing_purpose', 'missing_destination', 'missing_mileage', 'missing_vehicle']).optional(),
+});
+
+export const tripDetailQuerySchema = z.object({
+  detail: tripDetailSchema.default('full'),
+});
+
+export const mergeTripsSchema = z.object({
+  tripIds: z
+    .array(z.string().uuid())
+    .min(2)
+    .max(20)
+    .refine((ids) => new Set(ids).size === ids.length, 'Trip ids must be unique'),
+});
+
+export const splitTripSchema = z
+  .object({
+    sequenceNumber: z.number().int().min(1).optional(),
+    timestamp: z.string().datetime().optional(),
+  })
+  .refine((data) => (data.sequenceNumber === undefined) !== (data.timestamp === undefined), {
+    message: 'Provide either sequenceNumber or timestamp',
+  });
+
+// Body filters are JSON, so unlike tripFilterSchema nothing needs coercing
+const bulkTripFilterSchema = z.object({
+  vehicleId: z.string().uuid().optional(),
+  category: tripCategorySchema.optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  minDistance: z.number().int().min(0).optional(),
+  status: tripStatusSchema.optional(),
+  weather: weatherConditionSchema.optional(),
+  adverseWeather: z.boolean().optional(),
+  anomaly: tripAnomalySchema.optional(),
+  flagged: z.boolean().optional(),
+});
+
+export const bulkUpdateTripsSchema = z
+  .object({
+    tripIds: z
+      .array(z.string().uuid())
+      .min(1)
+      .refine((ids) => new Set(ids).size === ids.length, 'Trip ids must be unique')
+      .optional(),
+    filter: bulkTripFilterSchema.optional(),
+    changes: updateTripSchema
+      .pick({
+        category: true,
+        purpose: true,
+        clientName: true,
+        projectName: true,
+        tags: true,
+        vehicleId: true,
+        userVerified: true,
+      })
+      .refine((changes) => Object.keys(changes).length > 0, 'Provide at least one field to change'),
+  })
+  .refine((data) => (data.tripIds === undefined) !== (data.filter === undefined), {
+    message: 'Provide either tripIds or filter',
+  });
+
+const exportFormatSchema = z.enum(['gpx', 'kml', 'geojson']);
+
+export const tripExportQuerySchema = z.object({
+  format: exportFormatSchema.default('gpx'),
+});
+
+export const bulkTripExportSchema = z
+  .object({
+    format: exportFormatSchema.default('gpx'),
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+    vehicleId: z.string().uuid().optional(),
+    category: tripCategorySchema.optional(),
+    minDistance: z.coerce.number().int().min(0).optional(),
+    status: tripStatusSchema.optional(),
+    weather: weatherConditionSchema.optional(),
+    adverseWeather: z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean()).optional(),
+    anomaly: tripAnomalySchema.optional(),
+    flagged: z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean()).optional(),
+  })
+  .refine((data) => new Date(data.startDate) <= new Date(data.endDate), {
+    message: 'startDate must be before endDate',
+    path: ['endDate'],
+  });
+
+// Multipart form fields arrive as strings
+export const importTripSchema = z.object({
+  vehicleId: z.string().uuid().optional(),
+  category: tripCategorySchema.optional(),
+  purpose: z.string().max(255).optional(),
+});
+
+// A saved location or a typed address
+const tripEndpointSchema = z
+  .object({
+    savedLocationId: z.string().uuid().optional(),
+    address: z.string().trim().min(3).max(500).optional(),
+  })
+  .refine((endpoint) => (endpoint.savedLocationId === undefined) !== (endpoint.address === undefined), {
+    message: 'Provide either savedLocationId or address',
+  });
+
+const tripTemplateFieldsSchema = z.object({
+  vehicleId: z.string().uuid().optional(),
+  category: tripCategorySchema.optional(),
+  purpose: z.string().max(255).optional(),
+  clientName: z.string().max(255).optional(),
+  projectName: z.string().max(255).optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
+});
+
+export const createManualTripSchema = tripTemplateFieldsSchema
+  .extend({
+    // Client-generated, so a resubmitted form returns the first trip
+    id: z.string().uuid().optional(),
+    start: tripEndpointSchema.optional(),
+    end: tripEndpointSchema.optional(),
+    templateId: z.string().uuid().optional(),
+    // A full timestamp, or a calendar date in the user's time zone
+    date: z.union([z.string().datetime(), z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')]),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((data) => data.templateId !== undefined || (data.start !== undefined && data.end !== undefined), {
+    message: 'Provide start and end, or a templateId',
+    path: ['start'],
+  });
+
+export const createTripTemplateSchema = tripTemplateFieldsSchema.extend({
+  name: z.string().trim().min(1).max(100),
+  start: tripEndpointSchema,
+  end: tripEndpointSchema,
+});
+
+export const tripTemplateIdParamSchema = z.object({
+  templateId: z.string().uuid(),
+});
+
+export const createTripShareSchema = z
+  .object({
+    tripId: z.string().uuid().optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+    expiresInHours: z.number().int().min(1).max(720).default(72),
+    label: z.string().trim().max(100).optional(),
+  })
+  .refine((data) => (data.tripId !== undefined) !== (data.startDate !== undefined || data.endDate !== undefined), {
+    message: 'Share either a tripId or a startDate/endDate range',
+    path: ['tripId'],
+  })
+  .refine((data) => (data.startDate === undefined) === (data.endDate === undefined), {
+    message: 'A range needs both startDate and endDate',
+    path: ['endDate'],
+  })
+  .refine((data) => !data.startDate || !data.endDate || new Date(data.startDate) <= new Date(data.endDate), {
+    message: 'startDate must be before endDate',
+    path: ['endDate'],
+  });
+
+export const tripShareIdParamSchema = z.object({
+  shareId: z.string().uuid(),
+});
+
+export const shareTokenParamSchema = z.object({
+  token: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid share link'),
 });
 
 export const tripIdParamSchema = z.object({
@@ -78,3 +341,15 @@ export type UpdateTripInput = z.infer<typeof updateTripSchema>;
 export type AddWaypointsInput = z.infer<typeof addWaypointsSchema>;
 export type CompleteTripInput = z.infer<typeof completeTripSchema>;
 export type TripFilterInput = z.infer<typeof tripFilterSchema>;
+export type TripSearchInput = z.infer<typeof tripSearchSchema>;
+export type NonCompliantTripsQueryInput = z.infer<typeof nonCompliantTripsQuerySchema>;
+export type TripDetailQueryInput = z.infer<typeof tripDetailQuerySchema>;
+export type MergeTripsInput = z.infer<typeof mergeTripsSchema>;
+export type SplitTripInput = z.infer<typeof splitTripSchema>;
+export type BulkUpdateTripsInput = z.infer<typeof bulkUpdateTripsSchema>;
+export type TripExportQueryInput = z.infer<typeof tripExportQuerySchema>;
+export type BulkTripExportInput = z.infer<typeof bulkTripExportSchema>;
+export type ImportTripInput = z.infer<typeof importTripSchema>;
+export type CreateManualTripInput = z.infer<typeof createManualTripSchema>;
+export type CreateTripTemplateInput = z.infer<typeof createTripTemplateSchema>;
+export type CreateTripShareInput = z.infer<typeof createTripShareSchema>;
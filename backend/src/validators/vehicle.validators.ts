@@ -74,6 +74,25 @@ export const createMaintenanceRecordSchema = z.object({
   notes: z.string().max(2000).optional().nullable(),
 });
 
+export const createOdometerReadingSchema = z.object({
+  reading: z.number().int().min(0).max(10000000),
+  recordedAt: z.string().datetime().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const odometerReadingFilterSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce.number().int().min(1).max(100).default(20),
+  source: z.enum(['trip', 'fuel_purchase', 'maintenance', 'manual']).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export const odometerReconciliationQuerySchema = z.object({
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
 export const vehicleIdParamSchema = z.object({
   vehicleId: z.string().uuid(),
 });
@@ -90,3 +109,6 @@ export type CreateVehicleInput = z.infer<typeof createVehicleSchema>;
 export type UpdateVehicleInput = z.infer<typeof updateVehicleSchema>;
 export type CreateMaintenanceRecordInput = z.infer<typeof createMaintenanceRecordSchema>;
 export type VehicleFilterInput = z.infer<typeof vehicleFilterSchema>;
+export type CreateOdometerReadingInput = z.infer<typeof createOdometerReadingSchema>;
+export type OdometerReadingFilterInput = z.infer<typeof odometerReadingFilterSchema>;
+export type OdometerReconciliationQueryInput = z.infer<typeof odometerReconciliationQuerySchema>;
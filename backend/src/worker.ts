@@ -8,7 +8,10 @@ import {
   processRouteOptimizationJob,
   processNotificationJob,
   processSyncJob,
+  processCleanupJob,
+  processPlaceDiscoveryJob,
 } from './jobs/processors.js';
+import { scheduleCleanupJobs, schedulePlaceDiscoveryJobs } from './jobs/queues.js';
 
 const workerOptions = {
   connection: redis,
@@ -27,9 +30,17 @@ const notificationWorker = new Worker('notifications', processNotificationJob, {
   concurrency: 10,
 });
 const syncWorker = new Worker('sync', processSyncJob, workerOptions);
+const cleanupWorker = new Worker('cleanup', processCleanupJob, {
+  ...workerOptions,
+  concurrency: 1,
+});
+const placeDiscoveryWorker = new Worker('place-discovery', processPlaceDiscoveryJob, {
+  ...workerOptions,
+  concurrency: 1,
+});
 
 // Event handlers for all workers
-const workers = [tripWorker, reportWorker, routeWorker, notificationWorker, syncWorker];
+const workers = [tripWorker, reportWorker, routeWorker, notificationWorker, syncWorker, cleanupWorker, placeDiscoveryWorker];
 
 workers.forEach((worker) => {
   worker.on('completed', (job: Job) => {
@@ -74,6 +85,8 @@ process.on('SIGINT', shutdown);
 // Start workers
 async function start(): Promise<void> {
   await connectDatabase();
+  await scheduleCleanupJobs();
+  await schedulePlaceDiscoveryJobs();
 
   jobLogger.info({
     queues: workers.map((w) => w.name),
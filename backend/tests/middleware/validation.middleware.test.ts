@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { validateAll, validateBody, validateParams, validateQuery } from '../../src/middleware/validation.middleware.js';
+import { tripFilterSchema, tripIdParamSchema } from '../../src/validators/trip.validators.js';
+
+const TRIP_ID = '7d0f3c1e-8a52-4b8e-9f0a-2c6d1e5b4a93';
+
+// Echoes what the handler sees after validation
+function buildApp(...middleware: express.RequestHandler[]) {
+  const app = express();
+  app.use(express.json());
+  app.all('/trips/:tripId', ...middleware, (req: Request, res: Response) => {
+    res.json({ query: req.query, params: req.params, body: req.body ?? null });
+  });
+  app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(error instanceof z.ZodError ? 400 : 500).json({ name: error.name, message: error.message });
+  });
+  return app;
+}
+
+describe('validateQuery', () => {
+  it('hands the parsed query, with defaults and transforms, to the handler', async () => {
+    const app = buildApp(validateQuery(tripFilterSchema));
+
+    const response = await request(app)
+      .get(`/trips/${TRIP_ID}`)
+      .query({ perPage: '50', near: '-122.4194,37.7749', bbox: '-122.5,37.7,-122.3,37.8', flagged: 'true' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.query).toMatchObject({
+      page: 1,
+      perPage: 50,
+      near: { longitude: -122.4194, latitude: 37.7749 },
+      radius: 500,
+      nearEndpoint: 'any',
+      flagged: true,
+      sort: '-startTime',
+      detail: 'low',
+      bbox: { minLongitude: -122.5, minLatitude: 37.7, maxLongitude: -122.3, maxLatitude: 37.8 },
+    });
+  });
+
+  it('rejects an invalid query before the handler', async () => {
+    const app = buildApp(validateQuery(tripFilterSchema));
+
+    const response = await request(app).get(`/trips/${TRIP_ID}?perPage=500`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.name).toBe('ZodError');
+  });
+
+  it('runs alongside params validation on the same route', async () => {
+    const app = buildApp(validateParams(tripIdParamSchema), validateQuery(z.object({ detail: z.string().default('full') })));
+
+    const response = await request(app).get(`/trips/${TRIP_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ query: { detail: 'full' }, params: { tripId: TRIP_ID } });
+  });
+});
+
+describe('validateBody', () => {
+  it('replaces the body with the parsed one', async () => {
+    const app = buildApp(validateBody(z.object({ miles: z.coerce.number(), note: z.string().default('') })));
+
+    const response = await request(app).post(`/trips/${TRIP_ID}`).send({ miles: '12.5' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.body).toEqual({ miles: 12.5, note: '' });
+  });
+});
+
+describe('validateAll', () => {
+  it('parses the body, query and params of one request', async () => {
+    const app = buildApp(validateAll({
+      body: z.object({ purpose: z.string() }),
+      query: z.object({ page: z.coerce.number().default(1) }),
+      params: tripIdParamSchema,
+    }));
+
+    const response = await request(app).put(`/trips/${TRIP_ID}?page=3`).send({ purpose: 'Client visit' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      query: { page: 3 },
+      params: { tripId: TRIP_ID },
+      body: { purpose: 'Client visit' },
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+
+const getTrip = vi.hoisted(() => vi.fn());
+
+vi.mock('../../src/config/env.js', () => ({ config: { isDevelopment: false, isProduction: false } }));
+vi.mock('../../src/utils/logger.js', () => ({ logger: { error: vi.fn(), warn: vi.fn() } }));
+vi.mock('../../src/middleware/auth.middleware.js', () => ({
+  authenticate: (req: Request, _res: Response, next: NextFunction) => {
+    (req as Request & { user: { id: string } }).user = { id: 'user-1' };
+    next();
+  },
+}));
+vi.mock('../../src/services/trip.service.js', () => ({ getTrip }));
+vi.mock('../../src/services/stop-detection.service.js', () => ({}));
+vi.mock('../../src/services/irs-compliance.service.js', () => ({}));
+vi.mock('../../src/services/trip-anomaly.service.js', () => ({}));
+vi.mock('../../src/services/manual-trip.service.js', () => ({}));
+vi.mock('../../src/services/trip-share.service.js', () => ({}));
+vi.mock('../../src/services/trip-export.service.js', () => ({ MAX_IMPORT_FILE_BYTES: 1024 }));
+
+const { default: tripRoutes } = await import('../../src/routes/trip.routes.js');
+const { errorHandler } = await import('../../src/middleware/error.middleware.js');
+
+const TRIP_ID = '7d0f3c1e-8a52-4b8e-9f0a-2c6d1e5b4a93';
+
+const app = express();
+app.use('/api/v1/trips', tripRoutes);
+app.use(errorHandler);
+
+describe('GET /api/v1/trips/:tripId', () => {
+  beforeEach(() => {
+    getTrip.mockReset();
+    getTrip.mockImplementation(async (_userId: string, tripId: string, detail: string) => ({ id: tripId, detail }));
+  });
+
+  it('passes the requested detail level to the service', async () => {
+    const response = await request(app).get(`/api/v1/trips/${TRIP_ID}?detail=low`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, data: { id: TRIP_ID, detail: 'low' } });
+    expect(getTrip).toHaveBeenCalledWith('user-1', TRIP_ID, 'low');
+  });
+
+  it('defaults to the full detail level', async () => {
+    const response = await request(app).get(`/api/v1/trips/${TRIP_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(getTrip).toHaveBeenCalledWith('user-1', TRIP_ID, 'full');
+  });
+
+  it('rejects an unknown detail level', async () => {
+    const response = await request(app).get(`/api/v1/trips/${TRIP_ID}?detail=everything`);
+
+    expect(response.status).toBe(422);
+    expect(getTrip).not.toHaveBeenCalled();
+  });
+});
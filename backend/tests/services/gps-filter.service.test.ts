@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { filterGpsFixes, computeTripStatistics } from '../../src/services/gps-filter.service.js';
+import type { GpsFix } from '../../src/services/gps-filter.service.js';
+import { distanceBetween } from '../../src/utils/geo.js';
+import noisyCityDrive from '../fixtures/noisy-city-drive.json';
+
+// noisy-city-drive.json: 40 one-second fixes driving due east along latitude
+// 37.7749 at ~13.4 m/s with up to 5 m of jitter, then 12 fixes parked. It
+// carries one fix of each kind the filter rejects:
+//   #8  reported accuracy 120 m, 150 m off the road
+//   #15 same timestamp as #14
+//   #22 900 m north of the road (multipath)
+//   #30 behind the smoothed position, inside its own error circle, while
+//       still reporting an eastward heading
+const ROAD_LATITUDE = 37.7749;
+const DRIVE_FIXES = 40;
+
+function loadTrack(): GpsFix[] {
+  return noisyCityDrive.map((fix) => ({ ...fix, timestamp: new Date(fix.timestamp) }));
+}
+
+function metersOffRoad(fix: GpsFix): number {
+  return distanceBetween(fix, { latitude: ROAD_LATITUDE, longitude: fix.longitude });
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+describe('filterGpsFixes', () => {
+  it('rejects one fix for each failed check', () => {
+    const track = loadTrack();
+    const result = filterGpsFixes(track);
+
+    expect(result.rejections).toEqual({
+      low_accuracy: 1,
+      duplicate_timestamp: 1,
+      implied_speed: 1,
+      heading_reversal: 1,
+    });
+    expect(result.rejectedCount).toBe(4);
+    expect(result.points).toHaveLength(track.length - 4);
+  });
+
+  it('drops fixes less accurate than the gate before they reach the filter', () => {
+    const result = filterGpsFixes(loadTrack());
+
+    for (const point of result.points) {
+      expect(metersOffRoad(point)).toBeLessThan(50);
+    }
+  });
+
+  it('lets a wider accuracy gate through the inaccurate fix', () => {
+    const result = filterGpsFixes(loadTrack(), { maxHorizontalAccuracyMeters: 150 });
+
+    expect(result.rejections.low_accuracy).toBe(0);
+  });
+
+  it('smooths jitter towards the road', () => {
+    const track = loadTrack().slice(0, DRIVE_FIXES);
+    const result = filterGpsFixes(track);
+
+    const raw = track.filter((_, index) => ![8, 15, 22, 30].includes(index));
+    expect(mean(result.points.map(metersOffRoad))).toBeLessThan(mean(raw.map(metersOffRoad)));
+  });
+
+  it('keeps distance close to the driven length', () => {
+    const track = loadTrack().slice(0, DRIVE_FIXES);
+    const drivenMeters = (DRIVE_FIXES - 1) * 13.4;
+
+    const raw = computeTripStatistics(track);
+    const filtered = computeTripStatistics(filterGpsFixes(track).points);
+
+    // The raw track zigzags through the outliers
+    expect(raw.distanceMeters).toBeGreaterThan(drivenMeters * 2);
+    expect(Math.abs(filtered.distanceMeters - drivenMeters)).toBeLessThan(drivenMeters * 0.05);
+  });
+
+  it('pins parked drift so it adds idle time but no distance', () => {
+    const result = filterGpsFixes(loadTrack());
+    const parked = result.points.filter((point) => point.speedMps === 0);
+
+    // The first parked fix still moves the estimate onto the parking spot
+    const pinned = parked.slice(1);
+    expect(pinned.length).toBeGreaterThan(5);
+    for (const point of pinned) {
+      expect(point.latitude).toBe(pinned[0]!.latitude);
+      expect(point.longitude).toBe(pinned[0]!.longitude);
+    }
+
+    const statistics = computeTripStatistics(parked);
+    expect(statistics.distanceMeters).toBeLessThan(15);
+    expect(statistics.idleTimeSeconds).toBeGreaterThanOrEqual(55);
+  });
+
+  it('returns the raw fixes when fewer than two survive', () => {
+    // Urban canyon: every fix is outside the accuracy gate
+    const track = loadTrack()
+      .slice(0, 5)
+      .map((fix) => ({ ...fix, horizontalAccuracy: 200 }));
+
+    const result = filterGpsFixes(track);
+
+    expect(result.points).toEqual(track);
+    expect(result.points[0]).not.toBe(track[0]);
+    expect(result.rejectedCount).toBe(0);
+    expect(result.rejections.low_accuracy).toBe(0);
+  });
+
+  it('falls back when only one fix survives', () => {
+    const track = loadTrack().slice(0, 3);
+    track[1] = { ...track[1]!, horizontalAccuracy: 200 };
+    track[2] = { ...track[2]!, horizontalAccuracy: 200 };
+
+    expect(filterGpsFixes(track).points).toHaveLength(3);
+  });
+
+  it('keeps a single fix as it is', () => {
+    const [fix] = loadTrack();
+
+    const result = filterGpsFixes([fix!]);
+
+    expect(result.points).toEqual([fix]);
+    expect(result.rejectedCount).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/utils/logger.js', () => ({ jobLogger: { info: vi.fn() } }));
+
+const { parseOsmXml } = await import('../../src/services/road-graph.service.js');
+const { matchToRoads, isConfidentMatch, MIN_MATCH_CONFIDENCE } = await import(
+  '../../src/services/map-matching.service.js'
+);
+type MapMatchPoint = import('../../src/services/map-matching.service.js').MapMatchPoint;
+type MapMatchResult = import('../../src/services/map-matching.service.js').MapMatchResult;
+
+const ORIGIN = { latitude: 37.77, longitude: -122.42 };
+const METERS_PER_DEGREE_LATITUDE = 111195;
+const METERS_PER_DEGREE_LONGITUDE = METERS_PER_DEGREE_LATITUDE * Math.cos((ORIGIN.latitude * Math.PI) / 180);
+
+// Streets every 200 m: three running east-west and three north-south, plus
+// a stretch of road 3 km east that does not connect to them
+const BLOCK_METERS = 200;
+
+function toLatLng(eastMeters: number, northMeters: number) {
+  return {
+    latitude: ORIGIN.latitude + northMeters / METERS_PER_DEGREE_LATITUDE,
+    longitude: ORIGIN.longitude + eastMeters / METERS_PER_DEGREE_LONGITUDE,
+  };
+}
+
+function buildGrid() {
+  const nodes: string[] = [];
+  const ways: string[] = [];
+  const node = (id: number, east: number, north: number) => {
+    const { latitude, longitude } = toLatLng(east, north);
+    nodes.push(`<node id="${id}" lat="${latitude.toFixed(7)}" lon="${longitude.toFixed(7)}"/>`);
+  };
+  const way = (id: number, refs: number[]) => {
+    ways.push(`<way id="${id}">${refs.map((ref) => `<nd ref="${ref}"/>`).join('')}<tag k="highway" v="residential"/></way>`);
+  };
+
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 3; column++) {
+      node(row * 3 + column + 1, column * BLOCK_METERS, row * BLOCK_METERS);
+    }
+  }
+  for (let i = 0; i < 3; i++) {
+    way(100 + i, [i * 3 + 1, i * 3 + 2, i * 3 + 3]);
+    way(200 + i, [i + 1, i + 4, i + 7]);
+  }
+
+  node(50, 3000, 0);
+  node(51, 3400, 0);
+  way(300, [50, 51]);
+
+  return parseOsmXml(`<osm>${nodes.join('')}${ways.join('')}</osm>`);
+}
+
+const graph = buildGrid();
+
+// One fix every `spacing` meters along straight legs between the given
+// corners, alternating `noise` meters either side of the line
+function drive(corners: Array<[number, number]>, spacing = 25, noise = 0): MapMatchPoint[] {
+  const points: MapMatchPoint[] = [];
+  for (let leg = 1; leg < corners.length; leg++) {
+    const [fromEast, fromNorth] = corners[leg - 1]!;
+    const [toEast, toNorth] = corners[leg]!;
+    const length = Math.hypot(toEast - fromEast, toNorth - fromNorth);
+    const [alongEast, alongNorth] = [(toEast - fromEast) / length, (toNorth - fromNorth) / length];
+
+    for (let d = leg === 1 ? 0 : spacing; d <= length; d += spacing) {
+      const side = points.length % 2 === 0 ? noise : -noise;
+      points.push({
+        ...toLatLng(fromEast + alongEast * d - alongNorth * side, fromNorth + alongNorth * d + alongEast * side),
+        horizontalAccuracy: 5,
+      });
+    }
+  }
+  return points;
+}
+
+function matchWith(confidence: number): MapMatchResult {
+  return { matchedDistanceMeters: 1000, coordinates: [], confidence, sampledPoints: 10, matchedPoints: 10, breaks: 0 };
+}
+
+describe('matchToRoads', () => {
+  it('follows the streets round a corner', () => {
+    const points = drive([[25, 0], [400, 0], [400, 375]], 25, 4);
+
+    const match = matchToRoads(graph, points);
+
+    expect(match.breaks).toBe(0);
+    expect(match.matchedPoints).toBe(match.sampledPoints);
+    expect(match.matchedDistanceMeters).toBeGreaterThan(740);
+    expect(match.matchedDistanceMeters).toBeLessThan(760);
+
+    // Passes through the intersection rather than cutting the corner
+    const corner = toLatLng(400, 0);
+    expect(match.coordinates.some(([lng, lat]) =>
+      Math.abs(lat - corner.latitude) < 1e-6 && Math.abs(lng - corner.longitude) < 1e-6
+    )).toBe(true);
+
+    expect(match.confidence).toBeGreaterThan(0.85);
+    expect(isConfidentMatch(match)).toBe(true);
+  });
+
+  it('snaps jittery fixes onto the road, shortening the zigzag', () => {
+    const points = drive([[10, 0], [390, 0]], 20, 8);
+
+    const match = matchToRoads(graph, points);
+
+    expect(match.matchedDistanceMeters).toBeCloseTo(380, -1);
+    for (const [, lat] of match.coordinates) {
+      expect(lat).toBeCloseTo(ORIGIN.latitude, 6);
+    }
+  });
+
+  it('skips fixes closer together than the spacing', () => {
+    const points = drive([[0, 0], [180, 0]], 7);
+
+    const match = matchToRoads(graph, points);
+
+    // Every third fix, 21 m apart, and the last one
+    expect(points).toHaveLength(26);
+    expect(match.sampledPoints).toBe(10);
+  });
+
+  it('scores a track running beside the road too low to use', () => {
+    // 35 m north of the first street, out of reach of the cross streets
+    const points = drive([[60, 35], [140, 35]], 20);
+
+    const match = matchToRoads(graph, points);
+
+    expect(match.matchedPoints).toBe(match.sampledPoints);
+    // Mean offset of 35 m against the 50 m search radius
+    expect(match.confidence).toBeCloseTo(0.3, 2);
+    expect(isConfidentMatch(match)).toBe(false);
+  });
+
+  it('starts a new chain across a gap with no road between, halving confidence', () => {
+    const points = [...drive([[10, 0], [190, 0]]), ...drive([[3050, 0], [3350, 0]])];
+
+    const match = matchToRoads(graph, points);
+
+    expect(match.breaks).toBe(1);
+    expect(match.confidence).toBeLessThanOrEqual(0.5);
+    expect(isConfidentMatch(match)).toBe(false);
+  });
+
+  it('counts only fixes with a road in reach', () => {
+    // First half on the street, second half 100 m north of it in a block
+    const points = [...drive([[20, 0], [180, 0]]), ...drive([[20, 100], [180, 100]]).slice(1)];
+
+    const match = matchToRoads(graph, points);
+
+    expect(match.matchedPoints).toBeLessThan(match.sampledPoints);
+    expect(isConfidentMatch(match)).toBe(false);
+  });
+
+  it('matches nothing away from every road', () => {
+    const points = drive([[1000, 1000], [1200, 1000]]);
+
+    const match = matchToRoads(graph, points);
+
+    expect(match).toMatchObject({ matchedDistanceMeters: 0, coordinates: [], confidence: 0, matchedPoints: 0 });
+    expect(isConfidentMatch(match)).toBe(false);
+  });
+});
+
+describe('isConfidentMatch', () => {
+  it('accepts a match from the minimum confidence up', () => {
+    expect(MIN_MATCH_CONFIDENCE).toBe(0.6);
+    expect(isConfidentMatch(matchWith(0.6))).toBe(true);
+    expect(isConfidentMatch(matchWith(0.95))).toBe(true);
+    expect(isConfidentMatch(matchWith(0.59))).toBe(false);
+  });
+});
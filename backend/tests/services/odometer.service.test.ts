@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+interface StoredTrip {
+  id: string;
+  vehicleId: string | null;
+  status: string;
+  startTime: Date;
+  endTime: Date | null;
+  distanceMeters: number;
+  deletedAt: Date | null;
+}
+
+interface StoredReading {
+  id: string;
+  vehicleId: string;
+  reading: number;
+  recordedAt: Date;
+  source: string;
+  isEstimated: boolean;
+  tripId: string | null;
+}
+
+interface DateRange {
+  lt?: Date;
+  lte?: Date;
+  gt?: Date;
+  gte?: Date;
+}
+
+const db = vi.hoisted(() => ({
+  vehicles: [] as Array<Record<string, unknown> & { id: string }>,
+  trips: [] as StoredTrip[],
+  readings: [] as StoredReading[],
+}));
+
+function inRange(value: Date | null, range: DateRange | undefined): boolean {
+  if (!range) return true;
+  if (!value) return false;
+  const time = value.getTime();
+  return (range.lt === undefined || time < range.lt.getTime())
+    && (range.lte === undefined || time <= range.lte.getTime())
+    && (range.gt === undefined || time > range.gt.getTime())
+    && (range.gte === undefined || time >= range.gte.getTime());
+}
+
+interface ReadingWhere {
+  vehicleId?: string;
+  isEstimated?: boolean;
+  source?: string;
+  recordedAt?: DateRange;
+}
+
+function readingsWhere(where: ReadingWhere, order: 'asc' | 'desc' = 'asc') {
+  return db.readings
+    .filter((r) => (where.vehicleId === undefined || r.vehicleId === where.vehicleId)
+      && (where.isEstimated === undefined || r.isEstimated === where.isEstimated)
+      && (where.source === undefined || r.source === where.source)
+      && inRange(r.recordedAt, where.recordedAt))
+    .sort((a, b) => (a.recordedAt.getTime() - b.recordedAt.getTime()) * (order === 'asc' ? 1 : -1));
+}
+
+const prisma = vi.hoisted(() => ({
+  vehicle: {
+    findUnique: vi.fn(async ({ where }: { where: { id: string } }) => db.vehicles.find((v) => v.id === where.id) ?? null),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) =>
+      Object.assign(db.vehicles.find((v) => v.id === where.id)!, data)),
+  },
+  trip: {
+    findUnique: vi.fn(async ({ where }: { where: { id: string } }) => {
+      const trip = db.trips.find((t) => t.id === where.id);
+      if (!trip) return null;
+      const log = db.readings.find((r) => r.tripId === trip.id);
+      return {
+        ...trip,
+        vehicle: db.vehicles.find((v) => v.id === trip.vehicleId) ?? null,
+        odometerLog: log ? { vehicleId: log.vehicleId, recordedAt: log.recordedAt } : null,
+      };
+    }),
+    aggregate: vi.fn(async ({ where }: { where: { vehicleId: string; startTime: DateRange; endTime: DateRange } }) => {
+      const trips = db.trips.filter((t) => !t.deletedAt && t.status !== 'recording'
+        && t.vehicleId === where.vehicleId
+        && inRange(t.startTime, where.startTime)
+        && inRange(t.endTime, where.endTime));
+      return { _sum: { distanceMeters: trips.reduce((sum, t) => sum + t.distanceMeters, 0) } };
+    }),
+  },
+  odometerReading: {
+    findFirst: vi.fn(async ({ where, orderBy }: { where: ReadingWhere; orderBy: { recordedAt: 'asc' | 'desc' } }) =>
+      readingsWhere(where, orderBy.recordedAt)[0] ?? null),
+    findMany: vi.fn(async ({ where }: { where: ReadingWhere }) => readingsWhere(where)),
+    count: vi.fn(async ({ where }: { where: ReadingWhere }) => readingsWhere(where).length),
+    upsert: vi.fn(async ({ where, create, update }: {
+      where: { tripId: string };
+      create: Omit<StoredReading, 'id'>;
+      update: Partial<StoredReading>;
+    }) => {
+      const existing = db.readings.find((r) => r.tripId === where.tripId);
+      if (existing) return Object.assign(existing, update);
+      const entry = { id: `reading-${db.readings.length + 1}`, ...create };
+      db.readings.push(entry);
+      return entry;
+    }),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredReading> }) =>
+      Object.assign(db.readings.find((r) => r.id === where.id)!, data)),
+    delete: vi.fn(async ({ where }: { where: { tripId: string } }) => {
+      const index = db.readings.findIndex((r) => r.tripId === where.tripId);
+      return db.readings.splice(index, 1)[0];
+    }),
+  },
+}));
+
+vi.mock('../../src/config/database.js', () => ({ prisma }));
+vi.mock('../../src/utils/logger.js', () => ({ vehicleLogger: { info: vi.fn() } }));
+
+const { syncTripOdometer } = await import('../../src/services/odometer.service.js');
+
+const METERS_PER_MILE = 1609.344;
+
+const day = (n: number) => new Date(Date.UTC(2026, 2, 1 + n, 18));
+
+function addVehicle(id: string) {
+  db.vehicles.push({
+    id,
+    odometerReading: 0,
+    odometerUnit: 'miles',
+    odometerUpdatedAt: null,
+    createdAt: day(-30),
+    deletedAt: null,
+  });
+}
+
+function addActualReading(vehicleId: string, reading: number, recordedAt: Date) {
+  db.readings.push({
+    id: `reading-${db.readings.length + 1}`,
+    vehicleId,
+    reading,
+    recordedAt,
+    source: 'manual',
+    isEstimated: false,
+    tripId: null,
+  });
+}
+
+// A completed half-hour trip ending on the given day
+async function addTrip(id: string, vehicleId: string, dayNumber: number, miles: number) {
+  const endTime = day(dayNumber);
+  db.trips.push({
+    id,
+    vehicleId,
+    status: 'completed',
+    startTime: new Date(endTime.getTime() - 30 * 60 * 1000),
+    endTime,
+    distanceMeters: miles * METERS_PER_MILE,
+    deletedAt: null,
+  });
+  await syncTripOdometer(id);
+}
+
+function tripReadings(vehicleId: string) {
+  return Object.fromEntries(
+    readingsWhere({ vehicleId, source: 'trip' }).map((r) => [r.tripId, r.reading])
+  );
+}
+
+function trip(id: string) {
+  return db.trips.find((t) => t.id === id)!;
+}
+
+describe('syncTripOdometer', () => {
+  beforeEach(() => {
+    db.vehicles = [];
+    db.trips = [];
+    db.readings = [];
+    vi.clearAllMocks();
+
+    addVehicle('car');
+    addActualReading('car', 1000, day(0));
+  });
+
+  it('estimates each trip on top of the last actual reading', async () => {
+    await addTrip('a', 'car', 1, 10);
+    await addTrip('b', 'car', 2, 10);
+    await addTrip('c', 'car', 3, 10);
+
+    expect(tripReadings('car')).toEqual({ a: 1010, b: 1020, c: 1030 });
+    expect(db.vehicles[0]!.estimatedOdometer).toBe(1030);
+  });
+
+  it('rebuilds later trips when an earlier trip changes distance', async () => {
+    await addTrip('a', 'car', 1, 10);
+    await addTrip('b', 'car', 2, 10);
+    await addTrip('c', 'car', 3, 10);
+
+    trip('a').distanceMeters = 25 * METERS_PER_MILE;
+    await syncTripOdometer('a');
+
+    expect(tripReadings('car')).toEqual({ a: 1025, b: 1035, c: 1045 });
+    expect(db.vehicles[0]!.estimatedOdometer).toBe(1045);
+  });
+
+  it('stops at the next actual reading', async () => {
+    await addTrip('a', 'car', 1, 10);
+    await addTrip('b', 'car', 2, 10);
+    addActualReading('car', 1100, new Date(day(2).getTime() + 60 * 60 * 1000));
+    await addTrip('c', 'car', 3, 10);
+
+    trip('a').distanceMeters = 25 * METERS_PER_MILE;
+    await syncTripOdometer('a');
+
+    expect(tripReadings('car')).toEqual({ a: 1025, b: 1035, c: 1110 });
+  });
+
+  it('rebuilds later trips when an earlier trip is deleted', async () => {
+    await addTrip('a', 'car', 1, 10);
+    await addTrip('b', 'car', 2, 10);
+    await addTrip('c', 'car', 3, 10);
+
+    trip('a').deletedAt = day(4);
+    await syncTripOdometer('a');
+
+    expect(tripReadings('car')).toEqual({ b: 1010, c: 1020 });
+    expect(db.vehicles[0]!.estimatedOdometer).toBe(1020);
+  });
+
+  it('rebuilds from the earlier of the old and new end when a trip moves', async () => {
+    await addTrip('a', 'car', 1, 10);
+    await addTrip('b', 'car', 2, 10);
+    await addTrip('c', 'car', 3, 10);
+
+    // Trip a turns out to have been driven after c
+    trip('a').startTime = new Date(day(4).getTime() - 30 * 60 * 1000);
+    trip('a').endTime = day(4);
+    await syncTripOdometer('a');
+
+    expect(tripReadings('car')).toEqual({ b: 1010, c: 1020, a: 1030 });
+  });
+
+  it('rebuilds both vehicles when a trip moves between them', async () => {
+    addVehicle('van');
+    addActualReading('van', 5000, day(0));
+    await addTrip('a', 'car', 1, 10);
+    await addTrip('b', 'car', 2, 10);
+    await addTrip('v', 'van', 3, 10);
+
+    trip('a').vehicleId = 'van';
+    await syncTripOdometer('a');
+
+    expect(tripReadings('car')).toEqual({ b: 1010 });
+    expect(tripReadings('van')).toEqual({ a: 5010, v: 5020 });
+  });
+});
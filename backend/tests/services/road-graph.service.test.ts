@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../src/utils/logger.js', () => ({ jobLogger: { info: vi.fn() } }));
+
+const { splitOsmElements, parseOsmXml, loadRoadGraph, findNearbySegments } = await import(
+  '../../src/services/road-graph.service.js'
+);
+type OsmElement = import('../../src/services/road-graph.service.js').OsmElement;
+type RoadGraph = import('../../src/services/road-graph.service.js').RoadGraph;
+
+const SAMPLE = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6" generator="test">
+  <bounds minlat="37.77" minlon="-122.42" maxlat="37.78" maxlon="-122.41"/>
+  <node id="1" lat="37.7700" lon="-122.4200"/>
+  <node id="2" lat="37.7700" lon="-122.4177"/>
+  <node id="3" lat="37.7700" lon="-122.4154">
+    <tag k="highway" v="traffic_signals"/>
+  </node>
+  <node id="4" lat="37.7718" lon="-122.4154"/>
+  <node id="5" lat="37.7718" lon="-122.4177"/>
+  <way id="10"/>
+  <way id="11">
+    <nd ref="1"/>
+    <nd ref="2"/>
+    <nd ref="3"/>
+    <tag k="highway" v="residential"/>
+    <tag k="name" v="Market &amp; Main"/>
+  </way>
+  <way id="12" visible="true"/>
+  <way id="13">
+    <nd ref="3"/>
+    <nd ref="4"/>
+    <tag k="highway" v="primary"/>
+    <tag k="oneway" v="-1"/>
+  </way>
+  <way id="14">
+    <nd ref="4"/>
+    <nd ref="5"/>
+    <tag k="highway" v="footway"/>
+  </way>
+  <relation id="20">
+    <member type="way" ref="11" role=""/>
+  </relation>
+</osm>
+`;
+
+// Feeds the text through splitOsmElements in chunks, the way the file reader does
+function splitInChunks(text: string, chunkSize: number): OsmElement[] {
+  const elements: OsmElement[] = [];
+  let rest = '';
+  for (let i = 0; i < text.length; i += chunkSize) {
+    const result = splitOsmElements(rest + text.slice(i, i + chunkSize));
+    elements.push(...result.elements);
+    rest = result.rest;
+  }
+  return elements;
+}
+
+function summarize(graph: RoadGraph) {
+  return {
+    nodes: [...graph.nodes.keys()].sort((a, b) => a - b),
+    segments: graph.segments.map(({ from, to, oneway, highway, name }) => ({ from, to, oneway, highway, name })),
+  };
+}
+
+describe('splitOsmElements', () => {
+  it('finds every node and way, self-closing or not', () => {
+    const { elements } = splitOsmElements(SAMPLE);
+
+    expect(elements.map((e) => e.type)).toEqual([
+      'node', 'node', 'node', 'node', 'node', 'way', 'way', 'way', 'way', 'way',
+    ]);
+    expect(elements[2]!.xml).toContain('traffic_signals');
+    expect(elements[5]!.xml).toBe('<way id="10"/>');
+    expect(elements[6]!.xml).toMatch(/^<way id="11">[\s\S]*<\/way>$/);
+    expect(elements[7]!.xml).toBe('<way id="12" visible="true"/>');
+  });
+
+  it('does not let a self-closing way swallow the elements after it', () => {
+    const { elements } = splitOsmElements('<way id="1"/><node id="2" lat="1" lon="2"/><way id="3"><nd ref="2"/></way>');
+
+    expect(elements).toEqual([
+      { type: 'way', xml: '<way id="1"/>' },
+      { type: 'node', xml: '<node id="2" lat="1" lon="2"/>' },
+      { type: 'way', xml: '<way id="3"><nd ref="2"/></way>' },
+    ]);
+  });
+
+  it('carries an unfinished element into the next chunk', () => {
+    const { elements, rest } = splitOsmElements('<node id="1" lat="1" lon="2"/>\n  <way id="2">\n    <nd ref="1"/>');
+
+    expect(elements).toHaveLength(1);
+    expect(rest).toBe('<way id="2">\n    <nd ref="1"/>');
+  });
+
+  it('keeps only a short tail when no element has started', () => {
+    const { elements, rest } = splitOsmElements('  <relation id="20">\n  </relation>\n  <nod');
+
+    expect(elements).toEqual([]);
+    expect(rest).toBe(' <nod');
+  });
+
+  it('gives the same elements whatever the chunk boundaries', () => {
+    const whole = splitOsmElements(SAMPLE).elements;
+
+    for (const chunkSize of [1, 2, 3, 5, 7, 16, 64, 333]) {
+      expect(splitInChunks(SAMPLE, chunkSize)).toEqual(whole);
+    }
+  });
+});
+
+describe('parseOsmXml', () => {
+  const graph = parseOsmXml(SAMPLE);
+
+  it('keeps drivable ways and the nodes they use', () => {
+    expect(summarize(graph)).toEqual({
+      nodes: [1, 2, 3, 4],
+      segments: [
+        { from: 1, to: 2, oneway: false, highway: 'residential', name: 'Market & Main' },
+        { from: 2, to: 3, oneway: false, highway: 'residential', name: 'Market & Main' },
+        // oneway=-1 runs against the node order
+        { from: 4, to: 3, oneway: true, highway: 'primary', name: null },
+      ],
+    });
+  });
+
+  it('links two-way segments both ways and one-way segments one way', () => {
+    expect(graph.adjacency.get(2)!.map((e) => e.to).sort()).toEqual([1, 3]);
+    expect(graph.adjacency.get(4)!.map((e) => e.to)).toEqual([3]);
+    expect(graph.adjacency.get(3)!.map((e) => e.to)).toEqual([2]);
+  });
+
+  it('measures segments and indexes them for nearby lookups', () => {
+    // 0.0023 degrees of longitude at 37.77 degrees north
+    expect(graph.segments[0]!.lengthMeters).toBeCloseTo(202.4, 0);
+
+    const nearby = findNearbySegments(graph, 37.7701, -122.4190, 50, 5);
+    expect(nearby.map((p) => p.segmentId)).toEqual([0]);
+    expect(nearby[0]!.distanceMeters).toBeCloseTo(11.1, 0);
+  });
+});
+
+describe('loadRoadGraph', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'road-graph-'));
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('builds the same graph from a file read in chunks', async () => {
+    // A grid large enough to span several read chunks
+    const size = 100;
+    let xml = '<?xml version="1.0"?>\n<osm version="0.6">\n';
+    for (let row = 0; row < size; row++) {
+      for (let column = 0; column < size; column++) {
+        const id = row * size + column + 1;
+        xml += `  <node id="${id}" lat="${(37.7 + row * 0.001).toFixed(4)}" lon="${(-122.5 + column * 0.001).toFixed(4)}" version="3" user="mapper" timestamp="2025-06-01T00:00:00Z"/>\n`;
+      }
+    }
+    for (let row = 0; row < size; row++) {
+      xml += `  <way id="${row + 1}">\n`;
+      for (let column = 0; column < size; column++) xml += `    <nd ref="${row * size + column + 1}"/>\n`;
+      xml += `    <tag k="highway" v="${row % 4 === 0 ? 'cycleway' : 'residential'}"/>\n  </way>\n  <way id="${10000 + row}"/>\n`;
+    }
+    xml += '</osm>\n';
+    expect(xml.length).toBeGreaterThan(1024 * 1024);
+
+    const path = join(directory, 'grid.osm');
+    writeFileSync(path, xml);
+
+    const graph = await loadRoadGraph(path);
+
+    expect(summarize(graph)).toEqual(summarize(parseOsmXml(xml)));
+    expect(graph.segments).toHaveLength((size - size / 4) * (size - 1));
+  });
+
+  it('rejects files that are not OSM XML', async () => {
+    await expect(loadRoadGraph(join(directory, 'roads.pbf'))).rejects.toThrow('Unsupported road network format ".pbf"');
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  trip: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+  savedLocation: { findMany: vi.fn() },
+}));
+
+vi.mock('../../src/config/database.js', () => ({ prisma }));
+vi.mock('../../src/utils/logger.js', () => ({ tripLogger: { info: vi.fn(), debug: vi.fn() } }));
+
+const { classifyTrip, autoClassifyTrip, CLASSIFIER_CONFIDENCE } = await import(
+  '../../src/services/trip-classifier.service.js'
+);
+const { COMMUTE_RULE_EXPLANATIONS } = await import('../../src/services/commute.service.js');
+type ClassificationInput = import('../../src/services/trip-classifier.service.js').ClassificationInput;
+
+const HOME = { latitude: 37.8044, longitude: -122.2712 };
+const OFFICE = { latitude: 37.7897, longitude: -122.4011 };
+const CLIENT = { latitude: 37.3382, longitude: -121.8863 };
+const GYM = { latitude: 37.7706, longitude: -122.4484 };
+const ELSEWHERE = { latitude: 37.5485, longitude: -121.9886 };
+
+// Tuesday 10:00 and Saturday 10:00 in Los Angeles (PDT)
+const TUESDAY_MORNING = new Date('2026-03-10T17:00:00Z');
+const SATURDAY_MORNING = new Date('2026-03-14T17:00:00Z');
+
+const NINE_TO_FIVE = {
+  workHoursStart: new Date('1970-01-01T09:00:00Z'),
+  workHoursEnd: new Date('1970-01-01T17:00:00Z'),
+  workDays: [1, 2, 3, 4, 5],
+  classifyWorkHoursBusiness: true,
+  defaultTripCategory: 'business' as const,
+};
+
+function input(overrides: Partial<ClassificationInput> = {}): ClassificationInput {
+  return {
+    startTime: TUESDAY_MORNING,
+    start: HOME,
+    end: ELSEWHERE,
+    timezone: 'America/Los_Angeles',
+    settings: null,
+    savedLocations: [],
+    commutePlaces: [],
+    history: [],
+    ...overrides,
+  };
+}
+
+describe('classifyTrip', () => {
+  it('uses the category of a saved location at the end', () => {
+    const result = classifyTrip(input({
+      end: CLIENT,
+      savedLocations: [{ ...CLIENT, radiusMeters: 100, autoClassifyAs: 'business' }],
+    }));
+
+    expect(result).toEqual({
+      category: 'business',
+      confidence: CLASSIFIER_CONFIDENCE.savedLocationEnd,
+      signals: [{ rule: 'saved_location_end', category: 'business', confidence: 0.9 }],
+      reason: null,
+    });
+  });
+
+  it('uses the category of a saved location at the start', () => {
+    const result = classifyTrip(input({
+      start: GYM,
+      savedLocations: [{ ...GYM, radiusMeters: 100, autoClassifyAs: 'personal' }],
+    }));
+
+    expect(result.category).toBe('personal');
+    expect(result.confidence).toBe(CLASSIFIER_CONFIDENCE.savedLocationStart);
+    expect(result.signals.map((s) => s.rule)).toEqual(['saved_location_start']);
+  });
+
+  it('ignores saved locations without a category or out of range', () => {
+    const result = classifyTrip(input({
+      start: GYM,
+      end: CLIENT,
+      savedLocations: [
+        { ...GYM, radiusMeters: 100, autoClassifyAs: null },
+        { ...OFFICE, radiusMeters: 100, autoClassifyAs: 'business' },
+      ],
+    }));
+
+    expect(result.signals.map((s) => s.rule)).toEqual(['default_category']);
+  });
+
+  it('lets the destination outvote the origin and discounts the disagreement', () => {
+    const result = classifyTrip(input({
+      start: GYM,
+      end: CLIENT,
+      savedLocations: [
+        { ...GYM, radiusMeters: 100, autoClassifyAs: 'personal' },
+        { ...CLIENT, radiusMeters: 100, autoClassifyAs: 'business' },
+      ],
+    }));
+
+    expect(result.category).toBe('business');
+    // 0.9 * 0.9 / (0.9 + 0.75)
+    expect(result.confidence).toBe(0.49);
+  });
+
+  it('follows how the same journey was classified before, in either direction', () => {
+    const result = classifyTrip(input({
+      start: HOME,
+      end: CLIENT,
+      history: [
+        { category: 'business', start: HOME, end: CLIENT },
+        { category: 'business', start: CLIENT, end: HOME },
+        { category: 'personal', start: HOME, end: CLIENT },
+        { category: 'medical', start: HOME, end: GYM },
+      ],
+    }));
+
+    expect(result.category).toBe('business');
+    // (0.6 + 0.1 * 2) * 2/3 agreeing trips
+    expect(result.signals).toEqual([{ rule: 'history', category: 'business', confidence: 0.53 }]);
+  });
+
+  it('caps history confidence after three matching trips', () => {
+    const history = Array.from({ length: 10 }, () => ({ category: 'charity' as const, start: HOME, end: CLIENT }));
+
+    const result = classifyTrip(input({ end: CLIENT, history }));
+
+    expect(result.signals).toEqual([{ rule: 'history', category: 'charity', confidence: 0.9 }]);
+  });
+
+  it('treats trips inside work hours on a work day as business', () => {
+    const result = classifyTrip(input({ settings: NINE_TO_FIVE }));
+
+    expect(result.category).toBe('business');
+    expect(result.signals).toEqual([{ rule: 'work_hours', category: 'business', confidence: 0.6 }]);
+  });
+
+  it('treats trips outside work days as personal', () => {
+    const result = classifyTrip(input({ startTime: SATURDAY_MORNING, settings: NINE_TO_FIVE }));
+
+    expect(result.category).toBe('personal');
+    expect(result.signals).toEqual([{ rule: 'outside_work_hours', category: 'personal', confidence: 0.5 }]);
+  });
+
+  it('handles work hours that run past midnight', () => {
+    const nightShift = {
+      ...NINE_TO_FIVE,
+      workHoursStart: new Date('1970-01-01T22:00:00Z'),
+      workHoursEnd: new Date('1970-01-01T06:00:00Z'),
+    };
+
+    // 23:30 and 05:00 local on Tuesday
+    const late = classifyTrip(input({ startTime: new Date('2026-03-11T06:30:00Z'), settings: nightShift }));
+    const early = classifyTrip(input({ startTime: new Date('2026-03-10T12:00:00Z'), settings: nightShift }));
+
+    expect(late.category).toBe('business');
+    expect(early.category).toBe('business');
+    expect(classifyTrip(input({ settings: nightShift })).category).toBe('personal');
+  });
+
+  it('accepts 7 for Sunday in work days', () => {
+    const sunday = new Date('2026-03-15T17:00:00Z');
+    const settings = { ...NINE_TO_FIVE, workDays: [7] };
+
+    expect(classifyTrip(input({ startTime: sunday, settings })).category).toBe('business');
+  });
+
+  it('skips the work hours rule when it is turned off', () => {
+    const result = classifyTrip(input({
+      settings: { ...NINE_TO_FIVE, classifyWorkHoursBusiness: false, defaultTripCategory: 'personal' },
+    }));
+
+    expect(result.signals).toEqual([{ rule: 'default_category', category: 'personal', confidence: 0.3 }]);
+  });
+
+  it('falls back to business when nothing fires and there are no settings', () => {
+    const result = classifyTrip(input());
+
+    expect(result.category).toBe('business');
+    expect(result.confidence).toBe(CLASSIFIER_CONFIDENCE.defaultCategory);
+  });
+
+  it('sums the votes, so agreeing weaker rules beat the strongest one', () => {
+    const result = classifyTrip(input({
+      start: GYM,
+      end: CLIENT,
+      savedLocations: [
+        { ...GYM, radiusMeters: 100, autoClassifyAs: 'personal' },
+        { ...CLIENT, radiusMeters: 100, autoClassifyAs: 'medical' },
+      ],
+      history: [{ category: 'personal', start: GYM, end: CLIENT }],
+      settings: { ...NINE_TO_FIVE, workDays: [] },
+    }));
+
+    // medical 0.9 against personal 0.75 + 0.7 + 0.5; 0.75 * 1.95 / 2.85
+    expect(result.category).toBe('personal');
+    expect(result.confidence).toBe(0.51);
+  });
+
+  it('gives a tie to the strongest rule, which votes first', () => {
+    const history = Array.from({ length: 3 }, () => ({ category: 'personal' as const, start: HOME, end: CLIENT }));
+
+    const result = classifyTrip(input({
+      end: CLIENT,
+      savedLocations: [{ ...CLIENT, radiusMeters: 100, autoClassifyAs: 'medical' }],
+      history,
+    }));
+
+    // medical 0.9 from the destination against personal 0.9 from history
+    expect(result.signals.map((s) => s.confidence)).toEqual([0.9, 0.9]);
+    expect(result.category).toBe('medical');
+  });
+
+  it('classifies home to the regular workplace as a commute whatever the votes', () => {
+    const result = classifyTrip(input({
+      start: HOME,
+      end: OFFICE,
+      savedLocations: [{ ...OFFICE, radiusMeters: 150, autoClassifyAs: 'business' }],
+      commutePlaces: [
+        { ...HOME, radiusMeters: 100, endpoint: 'home' },
+        { ...OFFICE, radiusMeters: 150, endpoint: 'regular_work' },
+      ],
+      settings: NINE_TO_FIVE,
+    }));
+
+    expect(result.category).toBe('commute');
+    expect(result.confidence).toBe(CLASSIFIER_CONFIDENCE.commute);
+    expect(result.reason).toBe(COMMUTE_RULE_EXPLANATIONS.home_to_regular_work);
+    expect(result.signals.map((s) => s.rule)).toEqual(['saved_location_end', 'work_hours', 'commute']);
+  });
+
+  it('needs an end point for the destination, history and commute rules', () => {
+    const result = classifyTrip(input({
+      end: null,
+      savedLocations: [{ ...HOME, radiusMeters: 100, autoClassifyAs: 'personal' }],
+      commutePlaces: [{ ...HOME, radiusMeters: 100, endpoint: 'home' }],
+      history: [{ category: 'business', start: HOME, end: CLIENT }],
+    }));
+
+    expect(result.signals.map((s) => s.rule)).toEqual(['saved_location_start']);
+  });
+});
+
+describe('autoClassifyTrip', () => {
+  const trip = {
+    id: 'trip-1',
+    userId: 'user-1',
+    startTime: TUESDAY_MORNING,
+    startLatitude: HOME.latitude,
+    startLongitude: HOME.longitude,
+    endLatitude: ELSEWHERE.latitude,
+    endLongitude: ELSEWHERE.longitude,
+    userVerified: false,
+    categorySetByUser: false,
+    deletedAt: null,
+    user: { timezone: 'America/Los_Angeles', settings: NINE_TO_FIVE },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.savedLocation.findMany.mockResolvedValue([]);
+    prisma.trip.findMany.mockResolvedValue([]);
+    prisma.trip.update.mockImplementation(async ({ data }) => ({ ...trip, ...data }));
+  });
+
+  it('stores the classification', async () => {
+    prisma.trip.findUnique.mockResolvedValue(trip);
+
+    const updated = await autoClassifyTrip(trip.id);
+
+    expect(prisma.trip.update).toHaveBeenCalledWith({
+      where: { id: trip.id },
+      data: { category: 'business', classificationConfidence: 0.6, classificationReason: null, autoClassified: true },
+    });
+    expect(updated?.category).toBe('business');
+  });
+
+  it('leaves trips the user verified alone', async () => {
+    prisma.trip.findUnique.mockResolvedValue({ ...trip, userVerified: true });
+
+    expect(await autoClassifyTrip(trip.id)).toBeNull();
+    expect(prisma.trip.update).not.toHaveBeenCalled();
+  });
+
+  it('leaves a category the user picked while recording alone', async () => {
+    prisma.trip.findUnique.mockResolvedValue({ ...trip, categorySetByUser: true });
+
+    expect(await autoClassifyTrip(trip.id)).toBeNull();
+    expect(prisma.trip.update).not.toHaveBeenCalled();
+  });
+
+  it('learns from trips the user recategorized without verifying', async () => {
+    const pastTrips = [
+      { category: 'personal', userVerified: false, categorySetByUser: true },
+      { category: 'business', userVerified: false, categorySetByUser: false },
+      { category: 'business', userVerified: false, categorySetByUser: false },
+    ].map((past) => ({
+      ...past,
+      startLatitude: HOME.latitude,
+      startLongitude: HOME.longitude,
+      endLatitude: ELSEWHERE.latitude,
+      endLongitude: ELSEWHERE.longitude,
+    }));
+    prisma.trip.findUnique.mockResolvedValue(trip);
+    prisma.trip.findMany.mockImplementation(async ({ where }) =>
+      pastTrips.filter((past) =>
+        (where.OR as Array<Record<string, boolean>>).some((condition) =>
+          Object.entries(condition).every(([field, value]) => past[field as keyof typeof past] === value)
+        )
+      )
+    );
+
+    const updated = await autoClassifyTrip(trip.id);
+
+    // personal 0.7 from the one correction against business 0.6 from work hours
+    expect(updated?.category).toBe('personal');
+  });
+
+  it('skips deleted and missing trips', async () => {
+    prisma.trip.findUnique.mockResolvedValueOnce({ ...trip, deletedAt: new Date() }).mockResolvedValueOnce(null);
+
+    expect(await autoClassifyTrip(trip.id)).toBeNull();
+    expect(await autoClassifyTrip(trip.id)).toBeNull();
+    expect(prisma.trip.update).not.toHaveBeenCalled();
+  });
+});
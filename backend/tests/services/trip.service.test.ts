@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+interface StoredWaypoint {
+  sequenceNumber: number;
+  timestamp: Date;
+  latitude: number;
+  longitude: number;
+}
+
+// Waypoints of the one recording trip, kept the way the table would keep them
+const stored = vi.hoisted(() => ({ waypoints: [] as StoredWaypoint[] }));
+
+const tx = vi.hoisted(() => ({
+  // The advisory lock is a no-op; the time-order renumber is applied in place
+  $executeRaw: vi.fn(async (strings: TemplateStringsArray) => {
+    if (!strings.join('').includes('row_number()')) return 0;
+    stored.waypoints
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.sequenceNumber - b.sequenceNumber)
+      .forEach((wp, i) => { wp.sequenceNumber = i + 1; });
+    return stored.waypoints.length;
+  }),
+  tripWaypoint: {
+    findMany: vi.fn(async () => stored.waypoints.map(({ sequenceNumber, timestamp }) => ({ sequenceNumber, timestamp }))),
+    createMany: vi.fn(async ({ data }: { data: StoredWaypoint[] }) => {
+      stored.waypoints.push(...data.map(({ sequenceNumber, timestamp, latitude, longitude }) => ({
+        sequenceNumber, timestamp, latitude, longitude,
+      })));
+      return { count: data.length };
+    }),
+  },
+}));
+
+const prisma = vi.hoisted(() => ({
+  trip: { findFirst: vi.fn() },
+  $transaction: vi.fn(async (fn: (client: unknown) => Promise<unknown>) => fn(tx)),
+}));
+
+vi.mock('../../src/config/database.js', () => ({ prisma }));
+vi.mock('../../src/utils/logger.js', () => ({ tripLogger: { info: vi.fn(), debug: vi.fn(), warn: vi.fn() } }));
+vi.mock('../../src/jobs/queues.js', () => ({ addTripProcessingJob: vi.fn() }));
+vi.mock('../../src/services/gps-filter.service.js', () => ({}));
+vi.mock('../../src/services/stop-detection.service.js', () => ({}));
+vi.mock('../../src/services/trip-classifier.service.js', () => ({}));
+vi.mock('../../src/services/fuel-estimate.service.js', () => ({}));
+vi.mock('../../src/services/odometer.service.js', () => ({}));
+vi.mock('../../src/services/irs-compliance.service.js', () => ({}));
+vi.mock('../../src/services/trip-anomaly.service.js', () => ({}));
+vi.mock('../../src/services/waypoint-storage.service.js', () => ({}));
+vi.mock('../../src/services/spatial.service.js', () => ({}));
+vi.mock('../../src/services/location.service.js', () => ({}));
+
+const { addWaypoints } = await import('../../src/services/trip.service.js');
+type AddWaypointsInput = import('../../src/types/index.js').AddWaypointsInput;
+type WaypointInput = AddWaypointsInput['waypoints'][number];
+
+const USER_ID = 'user-1';
+const TRIP_ID = '7d0f3c1e-8a52-4b8e-9f0a-2c6d1e5b4a93';
+const START = new Date('2026-03-10T17:00:00Z').getTime();
+
+// A fix `second` seconds into the trip, heading north
+function fix(second: number, sequenceNumber?: number): WaypointInput {
+  return {
+    latitude: 37.7749 + second * 0.0001,
+    longitude: -122.4194,
+    timestamp: new Date(START + second * 1000).toISOString(),
+    ...(sequenceNumber !== undefined && { sequenceNumber }),
+  } as WaypointInput;
+}
+
+function storedTrack() {
+  return [...stored.waypoints]
+    .sort((a, b) => a.sequenceNumber - b.sequenceNumber)
+    .map((wp) => ({ sequenceNumber: wp.sequenceNumber, second: (wp.timestamp.getTime() - START) / 1000 }));
+}
+
+describe('addWaypoints', () => {
+  beforeEach(() => {
+    stored.waypoints = [];
+    vi.clearAllMocks();
+    prisma.trip.findFirst.mockResolvedValue({ id: TRIP_ID, userId: USER_ID, status: 'recording' });
+  });
+
+  it('keeps a sequenced batch that follows an unsequenced one', async () => {
+    await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(0), fix(5), fix(10)] });
+
+    // The client numbers its points from 1, as the server already has
+    const result = await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(15, 1), fix(20, 2), fix(25, 3)] });
+
+    expect(result).toEqual({ count: 3, duplicates: 0 });
+    expect(storedTrack()).toEqual([
+      { sequenceNumber: 1, second: 0 },
+      { sequenceNumber: 2, second: 5 },
+      { sequenceNumber: 3, second: 10 },
+      { sequenceNumber: 4, second: 15 },
+      { sequenceNumber: 5, second: 20 },
+      { sequenceNumber: 6, second: 25 },
+    ]);
+  });
+
+  it('places a clashing sequenced batch in time order', async () => {
+    await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(0), fix(10), fix(20)] });
+
+    const result = await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(5, 1), fix(15, 2)] });
+
+    expect(result).toEqual({ count: 2, duplicates: 0 });
+    expect(storedTrack().map((wp) => wp.second)).toEqual([0, 5, 10, 15, 20]);
+    expect(storedTrack().map((wp) => wp.sequenceNumber)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('keeps client sequence numbers that do not clash', async () => {
+    await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(0, 1), fix(5, 2)] });
+
+    const result = await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(10, 3), fix(15, 4)] });
+
+    expect(result).toEqual({ count: 2, duplicates: 0 });
+    expect(storedTrack()).toEqual([
+      { sequenceNumber: 1, second: 0 },
+      { sequenceNumber: 2, second: 5 },
+      { sequenceNumber: 3, second: 10 },
+      { sequenceNumber: 4, second: 15 },
+    ]);
+    const statements = tx.$executeRaw.mock.calls.map(([strings]) => strings.join(''));
+    expect(statements.some((sql) => sql.includes('row_number()'))).toBe(false);
+  });
+
+  it('drops re-sent points whichever way they were sent', async () => {
+    await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(0), fix(5)] });
+    await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(10, 3), fix(15, 4)] });
+
+    const unsequenced = await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(10), fix(15), fix(20)] });
+    const sequenced = await addWaypoints(USER_ID, TRIP_ID, { waypoints: [fix(0, 1), fix(5, 2), fix(10, 3)] });
+
+    expect(unsequenced).toEqual({ count: 1, duplicates: 2 });
+    expect(sequenced).toEqual({ count: 0, duplicates: 3 });
+    expect(storedTrack().map((wp) => wp.second)).toEqual([0, 5, 10, 15, 20]);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fileURLToPath } from 'url';
+
+const WEATHER_FIXTURE_PATH = fileURLToPath(new URL('../fixtures/weather.json', import.meta.url));
+
+const cacheStore = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../../src/config/env.js', () => ({
+  config: {
+    weather: { provider: 'fixture', fixturePath: WEATHER_FIXTURE_PATH },
+    externalApis: {},
+  },
+}));
+vi.mock('../../src/config/redis.js', () => ({
+  cache: {
+    get: vi.fn(async (key: string) => cacheStore.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      cacheStore.set(key, value);
+    }),
+  },
+}));
+vi.mock('../../src/utils/logger.js', () => ({ jobLogger: { warn: vi.fn() } }));
+
+const {
+  createFixtureWeatherProvider,
+  createOpenWeatherProvider,
+  getWeatherConditions,
+  getWeatherProvider,
+  isAdverse,
+  toWeatherJson,
+} = await import('../../src/services/weather.service.js');
+type WeatherObservation = import('../../src/services/weather.service.js').WeatherObservation;
+
+// Geohash cells in tests/fixtures/weather.json: 9q8 (San Francisco area),
+// 9q8yy (downtown San Francisco) and dr5 (New York)
+const DOWNTOWN_SF = { latitude: 37.7749, longitude: -122.4194 };
+const OCEAN_BEACH = { latitude: 37.7594, longitude: -122.5107 };
+const OAKLAND = { latitude: 37.8044, longitude: -122.2712 };
+const NEW_YORK = { latitude: 40.7128, longitude: -74.006 };
+
+const TRIP_START = new Date('2026-01-20T08:42:17Z');
+
+const CLEAR: WeatherObservation = {
+  condition: 'clear',
+  description: null,
+  temperatureC: null,
+  precipitationMmPerHour: 0,
+  visibilityMeters: null,
+  windSpeedMps: null,
+};
+
+describe('createFixtureWeatherProvider', () => {
+  const provider = createFixtureWeatherProvider({ path: WEATHER_FIXTURE_PATH });
+
+  it('uses the longest matching geohash prefix', async () => {
+    const downtown = await provider.getConditions(DOWNTOWN_SF.latitude, DOWNTOWN_SF.longitude, TRIP_START);
+    const beach = await provider.getConditions(OCEAN_BEACH.latitude, OCEAN_BEACH.longitude, TRIP_START);
+
+    expect(downtown).toMatchObject({ condition: 'rain', description: 'moderate rain' });
+    expect(beach).toMatchObject({ condition: 'clouds', description: 'low clouds' });
+  });
+
+  it("falls back to the file's default outside every cell", async () => {
+    const oakland = await provider.getConditions(OAKLAND.latitude, OAKLAND.longitude, TRIP_START);
+
+    expect(oakland).toMatchObject({ condition: 'clouds', description: 'overcast clouds' });
+  });
+
+  it('reports a clear day everywhere without a file', async () => {
+    const blank = createFixtureWeatherProvider({});
+
+    const observation = await blank.getConditions(NEW_YORK.latitude, NEW_YORK.longitude, TRIP_START);
+
+    expect(observation).toMatchObject({ condition: 'clear', precipitationMmPerHour: 0 });
+  });
+});
+
+describe('getWeatherConditions', () => {
+  beforeEach(() => {
+    cacheStore.clear();
+  });
+
+  it('uses the configured fixture provider', () => {
+    expect(getWeatherProvider()?.name).toBe('fixture');
+  });
+
+  it('stores the observation with its hour and whether it is adverse', async () => {
+    const conditions = await getWeatherConditions(NEW_YORK.latitude, NEW_YORK.longitude, TRIP_START);
+
+    expect(conditions).toEqual({
+      condition: 'snow',
+      description: 'light snow',
+      temperatureC: -2,
+      precipitationMmPerHour: 0.3,
+      visibilityMeters: 4000,
+      windSpeedMps: 5,
+      adverse: true,
+      observedAt: '2026-01-20T08:00:00.000Z',
+      provider: 'fixture',
+    });
+  });
+
+  it('marks poor visibility as adverse even under clouds', async () => {
+    const conditions = await getWeatherConditions(OCEAN_BEACH.latitude, OCEAN_BEACH.longitude, TRIP_START);
+
+    expect(conditions).toMatchObject({ condition: 'clouds', visibilityMeters: 800, adverse: true });
+  });
+
+  it('shares one lookup per geohash cell and hour', async () => {
+    const provider = getWeatherProvider()!;
+    const lookup = vi.spyOn(provider, 'getConditions');
+
+    const first = await getWeatherConditions(DOWNTOWN_SF.latitude, DOWNTOWN_SF.longitude, TRIP_START);
+    // A few hundred meters away, twenty minutes later
+    const nearby = await getWeatherConditions(37.7761, -122.4172, new Date('2026-01-20T08:59:00Z'));
+    const nextHour = await getWeatherConditions(DOWNTOWN_SF.latitude, DOWNTOWN_SF.longitude, new Date('2026-01-20T09:05:00Z'));
+
+    expect(nearby).toEqual(first);
+    expect(nextHour?.observedAt).toBe('2026-01-20T09:00:00.000Z');
+    expect(lookup).toHaveBeenCalledTimes(2);
+
+    lookup.mockRestore();
+  });
+});
+
+describe('isAdverse', () => {
+  it('flags rain, snow, fog and storms', () => {
+    for (const condition of ['rain', 'snow', 'fog', 'storm'] as const) {
+      expect(isAdverse({ ...CLEAR, condition })).toBe(true);
+    }
+    expect(isAdverse({ ...CLEAR, condition: 'clouds' })).toBe(false);
+  });
+
+  it('flags precipitation from 0.5 mm an hour', () => {
+    expect(isAdverse({ ...CLEAR, precipitationMmPerHour: 0.4 })).toBe(false);
+    expect(isAdverse({ ...CLEAR, precipitationMmPerHour: 0.5 })).toBe(true);
+  });
+
+  it('flags visibility under 1 km', () => {
+    expect(isAdverse({ ...CLEAR, visibilityMeters: 1000 })).toBe(false);
+    expect(isAdverse({ ...CLEAR, visibilityMeters: 999 })).toBe(true);
+  });
+});
+
+describe('toWeatherJson', () => {
+  it('stores the snapshot fields and nothing else', () => {
+    const conditions = {
+      ...CLEAR,
+      condition: 'rain' as const,
+      temperatureC: 11.5,
+      adverse: true,
+      observedAt: '2026-01-20T08:00:00.000Z',
+      provider: 'fixture',
+      cachedBy: 'another version',
+    };
+
+    const json = toWeatherJson(conditions);
+
+    expect(json).toEqual({
+      condition: 'rain',
+      description: null,
+      temperatureC: 11.5,
+      precipitationMmPerHour: 0,
+      visibilityMeters: null,
+      windSpeedMps: null,
+      adverse: true,
+      observedAt: '2026-01-20T08:00:00.000Z',
+      provider: 'fixture',
+    });
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+  });
+});
+
+describe('createOpenWeatherProvider', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it('maps the timemachine response', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      data: [{
+        temp: 6.4,
+        visibility: 7000,
+        wind_speed: 8.2,
+        rain: { '1h': 0.6 },
+        snow: { '1h': 0.2 },
+        weather: [{ id: 300, main: 'Drizzle', description: 'light intensity drizzle' }],
+      }],
+    })));
+
+    const provider = createOpenWeatherProvider({ apiKey: 'test-key' });
+    const observation = await provider.getConditions(DOWNTOWN_SF.latitude, DOWNTOWN_SF.longitude, TRIP_START);
+
+    expect(observation).toEqual({
+      condition: 'rain',
+      description: 'light intensity drizzle',
+      temperatureC: 6.4,
+      precipitationMmPerHour: 0.8,
+      visibilityMeters: 7000,
+      windSpeedMps: 8.2,
+    });
+
+    const url = new URL(fetchMock.mock.calls[0]![0] as string);
+    expect(url.searchParams.get('dt')).toBe(String(Math.floor(TRIP_START.getTime() / 1000)));
+    expect(url.searchParams.get('units')).toBe('metric');
+  });
+
+  it('treats haze as fog', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      data: [{ weather: [{ id: 721, main: 'Haze', description: 'haze' }] }],
+    })));
+
+    const provider = createOpenWeatherProvider({ apiKey: 'test-key' });
+
+    expect(await provider.getConditions(0, 0, TRIP_START)).toMatchObject({ condition: 'fog', temperatureC: null });
+  });
+
+  it('throws on a failed request', async () => {
+    fetchMock.mockResolvedValue(new Response('Unauthorized', { status: 401 }));
+
+    const provider = createOpenWeatherProvider({ apiKey: 'bad-key' });
+
+    await expect(provider.getConditions(0, 0, TRIP_START)).rejects.toThrow('OpenWeather request failed with 401');
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodePolyline,
+  decodePolyline,
+  simplifyLine,
+  trimLineEnds,
+  buildRouteGeometry,
+  ROUTE_TOLERANCES_METERS,
+} from '../../src/utils/geometry.js';
+import type { Coordinate } from '../../src/utils/geometry.js';
+
+const ORIGIN: Coordinate = [-122.4194, 37.7749];
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// A point east and north of ORIGIN by the given meters
+function offset(eastMeters: number, northMeters: number): Coordinate {
+  const metersPerDegreeLongitude = METERS_PER_DEGREE_LATITUDE * Math.cos((ORIGIN[1] * Math.PI) / 180);
+  return [ORIGIN[0] + eastMeters / metersPerDegreeLongitude, ORIGIN[1] + northMeters / METERS_PER_DEGREE_LATITUDE];
+}
+
+function expectCoordinatesClose(actual: Coordinate[], expected: Coordinate[], digits: number): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach(([lng, lat], i) => {
+    expect(lng).toBeCloseTo(expected[i]![0], digits);
+    expect(lat).toBeCloseTo(expected[i]![1], digits);
+  });
+}
+
+describe('encodePolyline', () => {
+  // The worked example from Google's polyline algorithm documentation
+  const documented: Coordinate[] = [
+    [-120.2, 38.5],
+    [-120.95, 40.7],
+    [-126.453, 43.252],
+  ];
+
+  it('matches the reference encoding', () => {
+    expect(encodePolyline(documented)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+  });
+
+  it('decodes the reference encoding', () => {
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual(documented);
+  });
+
+  it('encodes nothing as an empty string', () => {
+    expect(encodePolyline([])).toBe('');
+    expect(decodePolyline('')).toEqual([]);
+  });
+});
+
+describe('polyline round trips', () => {
+  const route: Coordinate[] = [
+    ORIGIN,
+    offset(120, 35),
+    offset(480, -210),
+    [179.99999, -89.99999],
+    [-179.99999, 89.99999],
+    [0, 0],
+    [0.000004, -0.000004],
+  ];
+
+  it('keeps coordinates to five decimals by default', () => {
+    expectCoordinatesClose(decodePolyline(encodePolyline(route)), route, 5);
+  });
+
+  it('keeps coordinates to six decimals at precision 6', () => {
+    expectCoordinatesClose(decodePolyline(encodePolyline(route, 6), 6), route, 6);
+  });
+
+  it('is stable once rounded', () => {
+    const once = decodePolyline(encodePolyline(route));
+
+    expect(decodePolyline(encodePolyline(once))).toEqual(once);
+  });
+
+  it('round trips a long track without drift', () => {
+    const track = Array.from({ length: 5000 }, (_, i) => offset(i * 13.4, Math.sin(i / 50) * 200));
+
+    const decoded = decodePolyline(encodePolyline(track));
+
+    expectCoordinatesClose(decoded.slice(-3), track.slice(-3), 5);
+  });
+});
+
+describe('simplifyLine', () => {
+  it('returns lines of two points or fewer unchanged', () => {
+    const line = [ORIGIN, offset(100, 0)];
+
+    expect(simplifyLine(line, 5)).toBe(line);
+    expect(simplifyLine([], 5)).toEqual([]);
+  });
+
+  it('collapses collinear points to the endpoints', () => {
+    const line = Array.from({ length: 20 }, (_, i) => offset(i * 50, i * 20));
+
+    expect(simplifyLine(line, ROUTE_TOLERANCES_METERS.high)).toEqual([line[0], line[19]]);
+  });
+
+  it('keeps a deviation larger than the tolerance and drops a smaller one', () => {
+    const bend = [ORIGIN, offset(100, 10), offset(200, 0)];
+
+    expect(simplifyLine(bend, 9)).toEqual(bend);
+    expect(simplifyLine(bend, 11)).toEqual([bend[0], bend[2]]);
+  });
+
+  it('keeps a 20 m detour at high resolution and drops it at low', () => {
+    const detour = [ORIGIN, offset(250, 0), offset(300, 20), offset(350, 0), offset(600, 0)];
+
+    expect(simplifyLine(detour, ROUTE_TOLERANCES_METERS.high)).toContain(detour[2]);
+    expect(simplifyLine(detour, ROUTE_TOLERANCES_METERS.low)).toEqual([detour[0], detour[4]]);
+  });
+
+  it('measures distance to the segment, not the infinite line', () => {
+    // Overshoots the end along the same line before coming back
+    const overshoot = [ORIGIN, offset(160, 0), offset(100, 0)];
+
+    expect(simplifyLine(overshoot, 50)).toEqual(overshoot);
+  });
+
+  it('handles a loop that returns to its start', () => {
+    const loop = [ORIGIN, offset(200, 0), offset(200, 200), offset(0, 200), ORIGIN];
+
+    expect(simplifyLine(loop, 10)).toEqual(loop);
+  });
+
+  it('stays within the tolerance of every dropped point', () => {
+    const wiggly = Array.from({ length: 400 }, (_, i) => offset(i * 10, Math.sin(i / 7) * 30 + ((i * 37) % 11)));
+
+    for (const tolerance of [1, 5, 20, 50]) {
+      const simplified = simplifyLine(wiggly, tolerance);
+      expect(simplified[0]).toBe(wiggly[0]);
+      expect(simplified.at(-1)).toBe(wiggly.at(-1));
+
+      // Every original point lies within the tolerance of the simplified line
+      for (const point of wiggly) {
+        const nearest = Math.min(...simplified.slice(1).map((end, i) => distanceToSegmentMeters(point, simplified[i]!, end)));
+        expect(nearest).toBeLessThanOrEqual(tolerance + 0.01);
+      }
+    }
+  });
+
+  it('keeps every point of a zigzag wider than the tolerance', () => {
+    const zigzag = Array.from({ length: 2000 }, (_, i) => offset(i * 5, i % 2 === 0 ? 0 : 30));
+
+    expect(simplifyLine(zigzag, 5)).toHaveLength(zigzag.length);
+    expect(simplifyLine(zigzag, 31)).toEqual([zigzag[0], zigzag.at(-1)]);
+  });
+});
+
+// Cut points are compared to about a meter: distances along the line come
+// from the haversine formula, not the flat offsets used to build it
+describe('trimLineEnds', () => {
+  it('cuts the distance off each end, ending at the cut points', () => {
+    const route = [ORIGIN, offset(1000, 0), offset(1000, 1000)];
+
+    const trimmed = trimLineEnds(route, 300);
+
+    expectCoordinatesClose(trimmed, [offset(300, 0), offset(1000, 0), offset(1000, 700)], 5);
+  });
+
+  it('drops every vertex inside the cut', () => {
+    const route = Array.from({ length: 11 }, (_, i) => offset(i * 100, 0));
+
+    const trimmed = trimLineEnds(route, 250);
+
+    expectCoordinatesClose(trimmed, [offset(250, 0), offset(300, 0), offset(400, 0), offset(500, 0), offset(600, 0), offset(700, 0), offset(750, 0)], 5);
+  });
+
+  it('leaves nothing of a line no longer than both cuts', () => {
+    expect(trimLineEnds([ORIGIN, offset(600, 0)], 300)).toEqual([]);
+    expect(trimLineEnds([ORIGIN, offset(250, 0), offset(500, 0)], 300)).toEqual([]);
+    expect(trimLineEnds([ORIGIN], 300)).toEqual([]);
+  });
+
+  it('does not change the line it is given', () => {
+    const route = [ORIGIN, offset(1000, 0), offset(2000, 0)];
+    const copy = route.map((c) => [...c]);
+
+    trimLineEnds(route, 300);
+
+    expect(route).toEqual(copy);
+  });
+});
+
+describe('buildRouteGeometry', () => {
+  it('stores each resolution and a GeoJSON feature of the high one', () => {
+    const route = Array.from({ length: 200 }, (_, i) => offset(i * 20, Math.sin(i / 10) * 60));
+
+    const geometry = buildRouteGeometry(route, { source: 'gps' });
+
+    const full = decodePolyline(geometry.routePolyline);
+    const high = decodePolyline(geometry.routePolylineHigh);
+    const low = decodePolyline(geometry.routePolylineLow);
+    expect(full).toHaveLength(route.length);
+    expect(high.length).toBeLessThan(full.length);
+    expect(low.length).toBeLessThan(high.length);
+
+    expect(geometry.routeGeojson).toEqual({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: simplifyLine(route, ROUTE_TOLERANCES_METERS.high) },
+      properties: {
+        source: 'gps',
+        pointCount: route.length,
+        simplifiedPointCount: high.length,
+        toleranceMeters: ROUTE_TOLERANCES_METERS.high,
+      },
+    });
+  });
+});
+
+// Same local plane as the implementation, computed independently
+function distanceToSegmentMeters(point: Coordinate, a: Coordinate, b: Coordinate): number {
+  const metersPerDegreeLongitude = METERS_PER_DEGREE_LATITUDE * Math.cos((a[1] * Math.PI) / 180);
+  const toPlane = (c: Coordinate) => [(c[0] - a[0]) * metersPerDegreeLongitude, (c[1] - a[1]) * METERS_PER_DEGREE_LATITUDE];
+
+  const [px, py] = toPlane(point) as [number, number];
+  const [bx, by] = toPlane(b) as [number, number];
+  const lengthSquared = bx * bx + by * by;
+  const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, (px * bx + py * by) / lengthSquared));
+  return Math.hypot(px - t * bx, py - t * by);
+}
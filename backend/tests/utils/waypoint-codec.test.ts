@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { Prisma } from '@prisma/client';
+import { encodeWaypoints, decodeWaypoints, WAYPOINT_CODEC_VERSION } from '../../src/utils/waypoint-codec.js';
+
+const TRIP_ID = '3b8f2a64-1d4e-4c7a-9e51-0f6d2b7c8a19';
+const PACKED_AT = new Date('2026-01-21T03:00:00Z');
+const START = new Date('2026-01-20T17:42:05.250Z');
+
+type Waypoint = Parameters<typeof encodeWaypoints>[0][number];
+
+const decimal = (value: string | null) => (value === null ? null : new Prisma.Decimal(value));
+
+function waypoint(sequenceNumber: number, overrides: Partial<Record<keyof Waypoint, unknown>> = {}): Waypoint {
+  return {
+    sequenceNumber,
+    latitude: decimal('37.7749295')!,
+    longitude: decimal('-122.4194155')!,
+    timestamp: new Date(START.getTime() + sequenceNumber * 1000),
+    altitudeMeters: decimal('16.40'),
+    horizontalAccuracy: decimal('4.75'),
+    verticalAccuracy: decimal('3.00'),
+    speedMps: decimal('12.35'),
+    heading: decimal('87.50'),
+    isStop: false,
+    stopDurationSeconds: null,
+    ...overrides,
+  } as Waypoint;
+}
+
+// Decimals compared by value, everything else as stored
+function comparable(waypoints: Waypoint[]) {
+  return waypoints.map((wp) => ({
+    sequenceNumber: wp.sequenceNumber,
+    latitude: wp.latitude.toString(),
+    longitude: wp.longitude.toString(),
+    timestamp: wp.timestamp.toISOString(),
+    altitudeMeters: wp.altitudeMeters?.toString() ?? null,
+    horizontalAccuracy: wp.horizontalAccuracy?.toString() ?? null,
+    verticalAccuracy: wp.verticalAccuracy?.toString() ?? null,
+    speedMps: wp.speedMps?.toString() ?? null,
+    heading: wp.heading?.toString() ?? null,
+    isStop: wp.isStop,
+    stopDurationSeconds: wp.stopDurationSeconds,
+  }));
+}
+
+function roundTrip(waypoints: Waypoint[]) {
+  return decodeWaypoints(TRIP_ID, encodeWaypoints(waypoints), PACKED_AT);
+}
+
+describe('waypoint codec', () => {
+  it('round trips values that fall between points', () => {
+    // Heading south-west and downhill, with the heading wrapping past north
+    const track = [
+      waypoint(0, { heading: decimal('359.90') }),
+      waypoint(1, { latitude: decimal('37.7748001'), longitude: decimal('-122.4195871'), altitudeMeters: decimal('12.05'), heading: decimal('2.10') }),
+      waypoint(2, { latitude: decimal('37.7741234'), longitude: decimal('-122.4203999'), altitudeMeters: decimal('-3.60'), speedMps: decimal('0.00') }),
+      waypoint(5, { latitude: decimal('37.7739999'), longitude: decimal('-122.4210001'), altitudeMeters: decimal('-1.20'), speedMps: decimal('8.01') }),
+    ];
+
+    expect(comparable(roundTrip(track))).toEqual(comparable(track));
+  });
+
+  it('keeps null speed, heading and accuracy wherever they fall', () => {
+    const track = [
+      waypoint(0, { speedMps: null, heading: null, horizontalAccuracy: null }),
+      waypoint(1),
+      waypoint(2, { speedMps: null, verticalAccuracy: null, altitudeMeters: null }),
+      waypoint(3, { speedMps: decimal('3.20'), heading: null }),
+      waypoint(4, { horizontalAccuracy: null, verticalAccuracy: null, speedMps: null, heading: null, altitudeMeters: null }),
+    ];
+
+    expect(comparable(roundTrip(track))).toEqual(comparable(track));
+  });
+
+  it('round trips a single point', () => {
+    const track = [waypoint(7, { isStop: true, stopDurationSeconds: 420, speedMps: null })];
+
+    const decoded = roundTrip(track);
+
+    expect(comparable(decoded)).toEqual(comparable(track));
+    expect(decoded[0]).toMatchObject({ tripId: TRIP_ID, createdAt: PACKED_AT });
+  });
+
+  it('round trips an empty track', () => {
+    expect(roundTrip([])).toEqual([]);
+  });
+
+  it('round trips coordinate extremes and large gaps in time', () => {
+    const track = [
+      waypoint(0, { latitude: decimal('-89.9999999'), longitude: decimal('-179.9999999') }),
+      waypoint(1, { latitude: decimal('89.9999999'), longitude: decimal('179.9999999'), timestamp: new Date('2031-06-30T23:59:59.999Z') }),
+      waypoint(2, { latitude: decimal('0.0000001'), longitude: decimal('-0.0000001'), timestamp: new Date('2026-01-01T00:00:00.000Z') }),
+    ];
+
+    expect(comparable(roundTrip(track))).toEqual(comparable(track));
+  });
+
+  it('keeps stop flags and durations past the first byte of the bitmap', () => {
+    const track = Array.from({ length: 19 }, (_, i) =>
+      waypoint(i, i % 3 === 0 ? { isStop: true, stopDurationSeconds: i * 60 } : {})
+    );
+
+    expect(comparable(roundTrip(track))).toEqual(comparable(track));
+  });
+
+  it('gives decoded points ids that are stable per trip and sequence number', () => {
+    const track = [waypoint(0), waypoint(1)];
+    const data = encodeWaypoints(track);
+
+    const first = decodeWaypoints(TRIP_ID, data, PACKED_AT);
+    const second = decodeWaypoints(TRIP_ID, data, PACKED_AT);
+    const otherTrip = decodeWaypoints('9c1e7f20-5a3b-4d8e-b6f4-2e0a1c9d7b53', data, PACKED_AT);
+
+    expect(second.map((wp) => wp.id)).toEqual(first.map((wp) => wp.id));
+    expect(first[0]!.id).not.toBe(first[1]!.id);
+    expect(otherTrip[0]!.id).not.toBe(first[0]!.id);
+    expect(first[0]!.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  it('writes the magic, version and reserved bytes ahead of the deflated body', () => {
+    const data = encodeWaypoints([waypoint(0)]);
+
+    expect([...data.subarray(0, 4)]).toEqual([0x57, 0x50, WAYPOINT_CODEC_VERSION, 0]);
+  });
+
+  it('rejects a track from an unknown codec version', () => {
+    const data = encodeWaypoints([waypoint(0), waypoint(1)]);
+    data[2] = WAYPOINT_CODEC_VERSION + 1;
+
+    expect(() => decodeWaypoints(TRIP_ID, data, PACKED_AT)).toThrow(
+      `Unsupported waypoint track version ${WAYPOINT_CODEC_VERSION + 1}`
+    );
+  });
+
+  it('rejects data that is not a packed track', () => {
+    expect(() => decodeWaypoints(TRIP_ID, new Uint8Array([0x1f, 0x8b, 1, 0, 0]), PACKED_AT)).toThrow(
+      'Not a packed waypoint track'
+    );
+    expect(() => decodeWaypoints(TRIP_ID, new Uint8Array([0x57, 0x50]), PACKED_AT)).toThrow(
+      'Not a packed waypoint track'
+    );
+  });
+
+  it('rejects a body that ends early', () => {
+    // Claims three points but carries no columns
+    const data = new Uint8Array([0x57, 0x50, WAYPOINT_CODEC_VERSION, 0, ...deflateRawSync(Buffer.from([3]))]);
+
+    expect(() => decodeWaypoints(TRIP_ID, data, PACKED_AT)).toThrow('Packed waypoint track is truncated');
+  });
+});